@@ -38,16 +38,35 @@ Your persistent memory of the codebase. You have no implicit memory of this proj
 - \`connects_to\` — A and B interact or share data
 - \`configured_by\` — A's behavior is controlled by B
 
+Projects can declare more kinds and relations (e.g. \`service\`, \`supersedes\`) in \`.megamemory/config.json\`. The \`create_concept\` and \`link\` tool schemas always list the full set with descriptions.
+
 ## MCP Tools Reference
 
 | Tool | When | What it does |
 |---|---|---|
-| \`megamemory:understand\` | Before tasks | Semantic search — returns matching concepts with children, edges, parent |
-| \`megamemory:create_concept\` | After tasks | Add new concept with summary, kind, edges, file refs |
+| \`megamemory:understand\` | Before tasks | Semantic + keyword search — returns matching concepts with children, edges, parent; filter with tags/exclude_tags; expand pulls in dependencies N hops away; max_tokens caps the response size |
+| \`megamemory:find_path\` | Before tasks | Shortest relationship paths between two concepts, with edge descriptions along the way |
+| \`megamemory:get_subgraph\` | Before tasks | Everything within N hops of a concept as flat node and edge lists; direction, relation filter, node cap |
+| \`megamemory:find_concepts\` | Before tasks | Exact filter over attributes and fields, e.g. owner=payments AND kind=module |
+| \`megamemory:concepts_for_file\` | Before editing a file | Concepts that reference a path or glob (optionally :line or #symbol), most specific reference first |
+| \`megamemory:create_concept\` | After tasks | Add new concept with summary, kind, edges, file refs, tags, attributes |
 | \`megamemory:update_concept\` | After tasks | Patch existing concept fields |
+| \`megamemory:verify_concept\` | After re-checking | Mark a concept as still accurate; clears its \`stale\` flag |
+| \`megamemory:set_attribute\` | After tasks | Set or remove one typed attribute (owner, SLA, port, env var, ...) |
 | \`megamemory:link\` | After tasks | Create relationship between two concepts |
+| \`megamemory:unlink\` | After tasks | Remove a wrong or outdated relationship (with reason) |
+| \`megamemory:update_link\` | After tasks | Change a relationship's description or relation type |
 | \`megamemory:remove_concept\` | On refactor/delete | Soft-delete with reason (history preserved) |
+| \`megamemory:batch\` | After large tasks | Many creates/updates/links/removes in one atomic call; \`"$ref"\` points at a concept created earlier in the batch |
+| \`megamemory:restore_concept\` | After a wrong removal | Undo a soft delete, restoring edges to active concepts |
+| \`megamemory:move_concept\` | After restructuring | Reparent a concept; its ID and descendant IDs follow the new parent |
+| \`megamemory:get_concept_history\` | Before reverting | Prior versions of a concept, numbered by revision |
+| \`megamemory:revert_concept\` | After a bad update | Restore an earlier revision (the replaced version is kept) |
+| \`megamemory:impact_of_changes\` | Before a PR | Concepts a git range (main...HEAD) touches directly or through dependencies, ranked for review |
+| \`megamemory:what_depends_on\` | Before refactoring | Everything that transitively depends on, calls or implements a concept, grouped by top-level ancestor, with cycles |
+| \`megamemory:check_refs\` | After refactors | File refs to missing or renamed files and ranges past EOF; fix: true follows git renames |
 | \`megamemory:list_roots\` | Session start | All top-level concepts with children + stats |
+| \`megamemory:list_pending_edges\` | After large tasks | Edges waiting for a concept that hasn't been created yet |
 | \`megamemory:list_conflicts\` | After merge | Lists unresolved merge conflicts grouped by merge_group |
 | \`megamemory:resolve_conflict\` | During /merge | Resolve a conflict by providing verified, correct content |
 `;
@@ -100,11 +119,11 @@ Use the returned context instead of re-reading source files when possible. If no
 
 1. **New concepts** → megamemory:create_concept
    - name: human-readable name
-   - kind: feature | module | pattern | config | decision | component
+   - kind: feature | module | pattern | config | decision | component (or a custom kind from the project config)
    - summary: specific — include param names, defaults, file paths, behavior
    - why: rationale for this design
    - parent_id: parent concept slug (for nesting)
-   - file_refs: relevant file paths + line ranges
+   - file_refs: relevant file paths + line ranges, optionally ending in #symbol (src/db.ts:10-42#getNode)
    - edges: [{to: "concept-id", relation: "depends_on|implements|calls|connects_to|configured_by", description: "why"}]
    - created_by_task: what task/prompt created this
 
@@ -114,8 +133,9 @@ Use the returned context instead of re-reading source files when possible. If no
 
 3. **New relationships** → megamemory:link
    - from, to: concept IDs
-   - relation: depends_on | implements | calls | connects_to | configured_by
+   - relation: depends_on | implements | calls | connects_to | configured_by (or a custom relation)
    - description: why this relationship exists
+   - wrong or outdated links → megamemory:unlink (with reason) or megamemory:update_link
 
 4. **Removed features** → megamemory:remove_concept
    - id: concept to remove
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+
+/**
+ * Benchmark: in-memory VectorIndex vs the full-scan understand path
+ *
+ * For each graph size, seeds a throwaway database with random unit vectors
+ * and times top-K queries three ways. Each query is a noisy copy of a stored
+ * vector (cosine ~0.6), mimicking a question about one existing concept:
+ * 1. Full scan — getAllActiveNodesWithEmbeddings() + findTopK() (no index)
+ * 2. VectorIndex exact — cached Float32 matrix + heap-based top-K
+ * 3. VectorIndex approximate — SimHash prefilter + exact rerank
+ *
+ * Recall is measured against the full scan: recall@1 is whether the concept the
+ * query was derived from ranks first; recall@10 covers the whole top-K, whose
+ * tail is near-random in synthetic data and is the hardest case for SimHash.
+ *
+ * Usage: npm run build && node scripts/bench-vector-index.js [sizes...]
+ *        (default sizes: 10000 50000)
+ */
+
+import { mkdirSync, rmSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const PROJECT_ROOT = path.resolve(__dirname, "..");
+
+// ============ Configuration ============
+const SIZES = process.argv.slice(2).map(Number).filter((n) => n > 0);
+const DIM = 384;
+const TOP_K = 10;
+const QUERIES = 20;
+const TEST_DIR = `/tmp/megamemory-bench-${Date.now()}`;
+
+const { KnowledgeDB } = await import(path.join(PROJECT_ROOT, "dist", "db.js"));
+const { VectorIndex } = await import(path.join(PROJECT_ROOT, "dist", "vector-index.js"));
+const { findTopK } = await import(path.join(PROJECT_ROOT, "dist", "embeddings.js"));
+
+// ============ Helpers ============
+
+function normalize(v) {
+  let norm = 0;
+  for (let i = 0; i < DIM; i++) norm += v[i] * v[i];
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < DIM; i++) v[i] /= norm;
+  return v;
+}
+
+function randomUnitVector() {
+  const v = new Float32Array(DIM);
+  for (let i = 0; i < DIM; i++) v[i] = Math.random() - 0.5;
+  return normalize(v);
+}
+
+function toBuffer(v) {
+  return Buffer.from(v.buffer, v.byteOffset, v.byteLength);
+}
+
+/** Unit vector with cosine ~0.6 to the given one. */
+function noisyCopy(v) {
+  const noise = randomUnitVector();
+  const q = new Float32Array(DIM);
+  for (let i = 0; i < DIM; i++) q[i] = v[i] + 1.3 * noise[i];
+  return normalize(q);
+}
+
+function timeQueries(queries, fn) {
+  const start = performance.now();
+  const results = queries.map(fn);
+  return { ms: (performance.now() - start) / queries.length, results };
+}
+
+function recall(expected, actual, k) {
+  let hits = 0;
+  for (let q = 0; q < expected.length; q++) {
+    const truth = new Set(expected[q].slice(0, k).map((m) => m.id));
+    hits += actual[q].slice(0, k).filter((m) => truth.has(m.id)).length;
+  }
+  return `${((hits / (expected.length * k)) * 100).toFixed(0)}%`;
+}
+
+// ============ Main ============
+
+async function benchmark(size) {
+  const dbPath = path.join(TEST_DIR, `bench-${size}.db`);
+  const db = new KnowledgeDB(dbPath);
+
+  const seedStart = performance.now();
+  const stored = [];
+  db.runInTransaction(() => {
+    for (let i = 0; i < size; i++) {
+      const embedding = randomUnitVector();
+      if (i % Math.floor(size / QUERIES) === 0) stored.push(embedding);
+      db.insertNode({
+        id: `node-${i}`,
+        name: `Node ${i}`,
+        kind: "feature",
+        summary: `Synthetic node #${i}`,
+        embedding: toBuffer(embedding),
+      });
+    }
+  });
+  console.log(`Seeded ${size} nodes in ${((performance.now() - seedStart) / 1000).toFixed(1)}s`);
+
+  const queries = stored.slice(0, QUERIES).map((v) => toBuffer(noisyCopy(v)));
+
+  const scan = timeQueries(queries, (q) =>
+    findTopK(q, db.getAllActiveNodesWithEmbeddings(), TOP_K)
+  );
+
+  const exactIndex = new VectorIndex(db);
+  const buildStart = performance.now();
+  exactIndex.search(queries[0], TOP_K); // first search loads the matrix
+  const buildMs = performance.now() - buildStart;
+  const exact = timeQueries(queries, (q) => exactIndex.search(q, TOP_K));
+
+  const approxIndex = new VectorIndex(db, { approximate: true });
+  approxIndex.search(queries[0], TOP_K); // load + signatures
+  const approx = timeQueries(queries, (q) => approxIndex.search(q, TOP_K));
+
+  console.log(`  full scan          ${scan.ms.toFixed(2).padStart(9)} ms/query`);
+  console.log(
+    `  index (exact)      ${exact.ms.toFixed(2).padStart(9)} ms/query  ` +
+      `${(scan.ms / exact.ms).toFixed(1)}x faster, first load ${buildMs.toFixed(0)} ms, ` +
+      `recall@1 ${recall(scan.results, exact.results, 1)}, ` +
+      `recall@${TOP_K} ${recall(scan.results, exact.results, TOP_K)}`
+  );
+  console.log(
+    `  index (approx)     ${approx.ms.toFixed(2).padStart(9)} ms/query  ` +
+      `${(scan.ms / approx.ms).toFixed(1)}x faster, ` +
+      `recall@1 ${recall(scan.results, approx.results, 1)}, ` +
+      `recall@${TOP_K} ${recall(scan.results, approx.results, TOP_K)}`
+  );
+  console.log();
+
+  exactIndex.close();
+  approxIndex.close();
+  db.close();
+}
+
+async function main() {
+  console.log("=".repeat(70));
+  console.log("  MEGAMEMORY VECTOR INDEX BENCHMARK");
+  console.log("=".repeat(70));
+  console.log(`Dimensions:    ${DIM}`);
+  console.log(`Top-K:         ${TOP_K}`);
+  console.log(`Queries:       ${QUERIES} per size`);
+  console.log();
+
+  mkdirSync(TEST_DIR, { recursive: true });
+  try {
+    for (const size of SIZES.length > 0 ? SIZES : [10_000, 50_000]) {
+      await benchmark(size);
+    }
+  } finally {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
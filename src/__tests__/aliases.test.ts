@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { MergeEngine } from "../merge.js";
+import { createConcept, getConcept, link, moveConcept, updateConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(async () => {
+    const embedding = new Float32Array([1, 0, 0]);
+    return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+  }),
+  embeddingText: vi.fn((name: string, kind: string, summary: string) =>
+    `${kind}: ${name} — ${summary}`
+  ),
+  findTopK: vi.fn(),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function addNode(target: KnowledgeDB, id: string, parent_id?: string): void {
+  target.insertNode({ id, name: id, kind: "module", summary: `Summary of ${id}`, parent_id });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-aliases-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  addNode(db, "auth");
+  addNode(db, "auth/tokens", "auth");
+  addNode(db, "billing");
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("alias resolution", () => {
+  it("resolves the new name's slug after a rename and reports the alias", async () => {
+    await updateConcept(db, { id: "auth", changes: { name: "Authentication" } });
+
+    const concept = getConcept(db, { id: "authentication" });
+
+    expect(concept.id).toBe("auth");
+    expect(concept.aliases).toEqual(["authentication"]);
+    expect(concept.resolved_alias).toEqual({ alias: "authentication", id: "auth" });
+    expect(getConcept(db, { id: "auth" }).resolved_alias).toBeUndefined();
+  });
+
+  it("keeps former IDs resolving after a move", () => {
+    moveConcept(db, { id: "auth/tokens", new_parent_id: "billing" });
+
+    expect(getConcept(db, { id: "auth/tokens" }).id).toBe("billing/tokens");
+  });
+
+  it("follows aliases in link and update_concept", async () => {
+    await createConcept(db, {
+      name: "Session Store",
+      kind: "module",
+      summary: "Stores sessions",
+      aliases: ["sessions"],
+    });
+
+    const linked = link(db, { from: "sessions", to: "billing", relation: "depends_on" });
+    expect(linked.message).toContain('from "session-store" to "billing"');
+    expect(linked.resolved_aliases).toEqual([{ alias: "sessions", id: "session-store" }]);
+    expect(db.getOutgoingEdges("session-store").map((e) => e.to_id)).toEqual(["billing"]);
+
+    const updated = await updateConcept(db, { id: "sessions", changes: { summary: "Redis sessions" } });
+    expect(updated.resolved_alias).toEqual({ alias: "sessions", id: "session-store" });
+    expect(db.getNode("session-store")!.summary).toBe("Redis sessions");
+  });
+
+  it("rejects aliases that collide with concept IDs or other concepts' aliases", async () => {
+    await expect(
+      updateConcept(db, { id: "auth", changes: { aliases: ["billing"] } })
+    ).rejects.toThrow(/already a concept ID/);
+
+    await updateConcept(db, { id: "auth", changes: { aliases: ["login"] } });
+    await expect(
+      updateConcept(db, { id: "billing", changes: { aliases: ["login"] } })
+    ).rejects.toThrow(/already refers to "auth"/);
+  });
+
+  it("refuses to guess when an alias points at several concepts", () => {
+    addNode(db, "cache-main");
+    addNode(db, "cache-feature");
+    db.addAlias("cache", "cache-main", "former_id");
+    db.addAlias("cache", "cache-feature", "former_id");
+
+    expect(() => getConcept(db, { id: "cache" })).toThrow(
+      /alias for several concepts: cache-feature, cache-main/
+    );
+  });
+});
+
+describe("aliases across merges", () => {
+  it("carries aliases from both sides into the merged database", () => {
+    const rightPath = path.join(tmpDir, "right.db");
+    const right = new KnowledgeDB(rightPath);
+    addNode(right, "payments");
+    right.addAlias("billing-v2", "payments", "name");
+    right.close();
+
+    db.addAlias("authentication", "auth", "name");
+    const leftPath = path.join(tmpDir, "knowledge.db");
+    const outputPath = path.join(tmpDir, "merged.db");
+    db.close();
+    new MergeEngine().merge(leftPath, rightPath, outputPath);
+    db = new KnowledgeDB(outputPath);
+
+    expect(db.resolveAlias("authentication")).toEqual(["auth"]);
+    expect(db.resolveAlias("billing-v2")).toEqual(["payments"]);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { MergeEngine } from "../merge.js";
+import { createConcept, findConcepts, getConcept, setAttribute, updateConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-attributes-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  setEmbeddingProvider({
+    id: "fake:constant",
+    dimensions: 3,
+    async initialize() {},
+    async embed(texts) {
+      return texts.map(() => new Float32Array([1, 0, 0]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("setting attributes", () => {
+  it("stores typed values from create_concept and returns them from get_concept", async () => {
+    const { id } = await createConcept(db, {
+      name: "Payments API",
+      kind: "module",
+      summary: "Charges cards",
+      attributes: {
+        owner: "payments",
+        port: 8080,
+        public: true,
+        launched: "2024-03-01",
+        version: { type: "string", value: "2024-03-01" },
+      },
+    });
+
+    expect(getConcept(db, { id }).attributes).toEqual({
+      launched: "2024-03-01",
+      owner: "payments",
+      port: 8080,
+      public: true,
+      version: "2024-03-01",
+    });
+    expect(db.getAttributesForNode(id).map((a) => [a.key, a.type])).toEqual([
+      ["launched", "date"],
+      ["owner", "string"],
+      ["port", "number"],
+      ["public", "boolean"],
+      ["version", "string"],
+    ]);
+  });
+
+  it("merges update_concept attributes and removes keys set to null", async () => {
+    const { id } = await createConcept(db, {
+      name: "Payments API",
+      kind: "module",
+      summary: "Charges cards",
+      attributes: { owner: "payments", port: 8080 },
+    });
+
+    await updateConcept(db, { id, changes: { attributes: { port: null, sla: "99.9%" } } });
+    expect(getConcept(db, { id }).attributes).toEqual({ owner: "payments", sla: "99.9%" });
+
+    const unchanged = await updateConcept(db, { id, changes: { attributes: { owner: "payments" } } });
+    expect(unchanged.message).toBe('No changes applied to "payments-api"');
+  });
+
+  it("validates keys and typed values before writing", async () => {
+    db.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login" });
+
+    expect(() => setAttribute(db, { id: "auth", key: "kind", value: "x" })).toThrow(/reserved/);
+    expect(() => setAttribute(db, { id: "auth", key: "Owner", value: "x" })).toThrow(/Invalid attribute key/);
+    expect(() => setAttribute(db, { id: "auth", key: "port", value: "http", type: "number" })).toThrow(
+      'Invalid number for attribute "port": "http".'
+    );
+
+    expect(setAttribute(db, { id: "auth", key: "port", value: "443", type: "number" }).message).toBe(
+      'Set port on "auth"'
+    );
+    expect(getConcept(db, { id: "auth" }).attributes).toEqual({ port: 443 });
+    expect(setAttribute(db, { id: "auth", key: "port", value: null }).message).toBe('Removed port from "auth"');
+  });
+});
+
+describe("find_concepts", () => {
+  it("returns matches in name order with a total", () => {
+    for (const [id, owner] of [["ledger", "payments"], ["checkout", "payments"], ["search", "discovery"]]) {
+      db.insertNode({ id, name: id, kind: "module", summary: `About ${id}` });
+      setAttribute(db, { id, key: "owner", value: owner });
+    }
+
+    const result = findConcepts(db, { filter: "owner=payments AND kind=module", limit: 1 });
+    expect(result.total).toBe(2);
+    expect(result.matches).toEqual([
+      { id: "checkout", name: "checkout", kind: "module", summary: "About checkout", tags: [], attributes: { owner: "payments" } },
+    ]);
+  });
+});
+
+describe("attributes across merges", () => {
+  it("copies attributes and flags differing values as conflicts", () => {
+    db.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login" });
+    setAttribute(db, { id: "auth", key: "owner", value: "identity" });
+    db.close();
+
+    const rightPath = path.join(tmpDir, "right.db");
+    const right = new KnowledgeDB(rightPath);
+    right.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login" });
+    setAttribute(right, { id: "auth", key: "owner", value: "platform" });
+    right.close();
+
+    const outputPath = path.join(tmpDir, "merged.db");
+    const result = new MergeEngine().merge(path.join(tmpDir, "knowledge.db"), rightPath, outputPath);
+    db = new KnowledgeDB(outputPath);
+
+    expect(result.conceptConflicts).toBe(1);
+    expect(getConcept(db, { id: "auth::left" }).attributes).toEqual({ owner: "identity" });
+    expect(getConcept(db, { id: "auth::right" }).attributes).toEqual({ owner: "platform" });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { batch } from "../batch.js";
+import { createTimelineLogger } from "../timeline.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+let embedCalls: string[][];
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-batch-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  embedCalls = [];
+  setEmbeddingProvider({
+    id: "fake:recording",
+    dimensions: 3,
+    async initialize() {},
+    async embed(texts) {
+      embedCalls.push(texts);
+      return texts.map(() => new Float32Array([1, 0, 0]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("batch", () => {
+  it("applies operations in order with refs to earlier creates and one embedding call", async () => {
+    db.insertNode({ id: "legacy", name: "Legacy", kind: "module", summary: "Old login" });
+
+    const result = await batch(db, {
+      operations: [
+        { op: "create", ref: "auth", name: "Auth", kind: "module", summary: "Login" },
+        { op: "create", name: "Tokens", kind: "component", summary: "JWT", parent_id: "$auth",
+          edges: [{ to: "$auth", relation: "implements" }] },
+        { op: "update", id: "$auth", changes: { summary: "Login and sessions", tags: ["security"] } },
+        { op: "link", from: "$auth", to: "legacy", relation: "depends_on" },
+        { op: "remove", id: "legacy", reason: "Replaced by auth" },
+      ],
+    });
+
+    expect(result.message).toBe("Applied 5 operations");
+    expect(result.results.map((r) => [r.op, r.id ?? `${r.from}->${r.to}`])).toEqual([
+      ["create", "auth"],
+      ["create", "auth/tokens"],
+      ["update", "auth"],
+      ["link", "auth->legacy"],
+      ["remove", "legacy"],
+    ]);
+    expect(embedCalls).toEqual([
+      ["module: Auth — Login", "component: Tokens — JWT", "module: Auth — Login and sessions"],
+    ]);
+    expect(db.getNode("auth")?.summary).toBe("Login and sessions");
+    expect(db.getNode("auth/tokens")?.parent_id).toBe("auth");
+    expect(db.getOutgoingEdges("auth/tokens").map((e) => e.to_id)).toEqual(["auth"]);
+    expect(db.getNode("legacy")).toBeUndefined();
+  });
+
+  it("writes nothing when any operation fails", async () => {
+    await expect(
+      batch(db, {
+        operations: [
+          { op: "create", name: "Auth", kind: "module", summary: "Login" },
+          { op: "link", from: "auth", to: "missing", relation: "depends_on" },
+        ],
+      })
+    ).rejects.toThrow(
+      'operations[1] (link) failed: Target concept "missing" not found. No changes were applied.'
+    );
+    expect(db.getNode("auth")).toBeUndefined();
+  });
+
+  it("rejects refs that no earlier create defines before embedding", async () => {
+    await expect(
+      batch(db, {
+        operations: [
+          { op: "link", from: "$auth", to: "$auth", relation: "depends_on" },
+          { op: "create", ref: "auth", name: "Auth", kind: "module", summary: "Login" },
+        ],
+      })
+    ).rejects.toThrow('operations[0] (link): unknown reference "$auth"');
+    expect(embedCalls).toEqual([]);
+  });
+});
+
+describe("timeline groups", () => {
+  it("stores the group id shared by a batch's entries", () => {
+    const timeline = createTimelineLogger(db);
+    for (const id of ["auth", "billing"]) {
+      timeline.log({
+        tool: "create_concept",
+        params: { id },
+        result_summary: `created ${id}`,
+        is_write: true,
+        is_error: false,
+        affected_ids: [id],
+        group_id: "group-1",
+      });
+    }
+    timeline.log({ tool: "understand", params: {}, result_summary: "0 matches", is_write: false, is_error: false, affected_ids: [] });
+
+    expect(db.getTimelineEntries().map((e) => e.group_id)).toEqual(["group-1", "group-1", null]);
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { estimateTokens, fitUnderstand } from "../budget.js";
+import { getConcept, listRoots, understand } from "../tools.js";
+import type { NodeWithContext } from "../types.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+const LONG = "Detailed behaviour notes. ".repeat(30);
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-budget-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  setEmbeddingProvider({
+    id: "fake:constant",
+    dimensions: 3,
+    async initialize() {},
+    async embed(texts) {
+      return texts.map(() => new Float32Array([1, 0, 0]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function seedGraph(): void {
+  db.insertNode({ id: "storage", name: "Storage", kind: "module", summary: `Storage. ${LONG}`, why: LONG });
+  for (let i = 0; i < 6; i++) {
+    db.insertNode({ id: `storage/part-${i}`, name: `Part ${i}`, kind: "component", summary: `Part ${i}`, parent_id: "storage" });
+  }
+  for (const id of ["api", "web", "cli"]) {
+    db.insertNode({ id, name: id, kind: "module", summary: `${id} storage client. ${LONG}`, why: LONG });
+    db.insertEdge({ from_id: id, to_id: "storage", relation: "depends_on", description: `${id} reads and writes the graph` });
+  }
+}
+
+describe("estimateTokens", () => {
+  it("counts four characters of pretty-printed JSON per token", () => {
+    expect(estimateTokens({ a: "bcd" })).toBe(Math.ceil('{\n  "a": "bcd"\n}'.length / 4));
+  });
+});
+
+describe("max_tokens", () => {
+  it("leaves responses that fit untouched", async () => {
+    seedGraph();
+    const full = await understand(db, { query: "storage", mode: "keyword" });
+    const budgeted = await understand(db, { query: "storage", mode: "keyword", max_tokens: 100_000 });
+    expect(budgeted).toEqual(full);
+    expect(budgeted.budget).toBeUndefined();
+  });
+
+  it("compacts understand in stages and reports what was elided", async () => {
+    seedGraph();
+    const full = await understand(db, { query: "storage", mode: "keyword" });
+    const budget = Math.floor(estimateTokens(full) * 0.6);
+    const result = await understand(db, { query: "storage", mode: "keyword", max_tokens: budget });
+
+    expect(estimateTokens(result)).toBeLessThanOrEqual(budget);
+    expect(result.budget?.estimated_tokens).toBe(estimateTokens(result));
+    expect(result.budget?.elided[0]).toBe("descriptions of 6 edges");
+    expect(result.budget?.elided[1]).toMatch(/^why and summaries past 160 chars for 3 lower-ranked concepts$/);
+    expect(result.budget?.hint).toMatch(/get_concept/);
+    // The best match keeps its full detail
+    expect(result.matches[0].summary).toBe(full.matches[0].summary);
+    expect(result.matches.map((m) => m.id)).toEqual(full.matches.map((m) => m.id));
+  });
+
+  it("drops the lowest-ranked concepts last and names them", () => {
+    const node = (id: string): NodeWithContext => ({
+      id, name: id, kind: "module", summary: LONG, why: null, file_refs: null, tags: [], attributes: {},
+      last_verified_at: null, verified_by: null, children: [], edges: [], incoming_edges: [], parent: null,
+    });
+    const result = fitUnderstand({ matches: [node("a"), node("b"), node("c")] }, 200);
+    expect(result.matches.map((m) => m.id)).toEqual(["a"]);
+    expect(result.budget?.elided.at(-1)).toBe("2 lower-ranked concepts: b, c");
+  });
+
+  it("collapses get_concept lists to counts before touching its own fields", () => {
+    seedGraph();
+    const result = getConcept(db, { id: "storage", max_tokens: 300 });
+    expect(result.incoming_edges).toEqual([]);
+    expect(result.incoming_edge_count).toBe(3);
+    expect(result.children_count).toBe(6);
+    expect(result.budget?.elided.slice(0, 3)).toEqual([
+      "descriptions of 3 edges",
+      "incoming edges (count kept)",
+      "children (count kept)",
+    ]);
+  });
+
+  it("collapses list_roots children and then drops trailing roots", () => {
+    seedGraph();
+    const result = listRoots(db, { max_tokens: 250 });
+    expect(result.roots.map((r) => [r.id, r.children_count])).toEqual([
+      ["storage", 6],
+      ["api", undefined],
+    ]);
+    expect(result.budget?.elided).toEqual([
+      "summaries past 160 chars for 4 roots",
+      "child names of 1 root (counts kept)",
+      "2 roots: cli, web",
+    ]);
+    expect(estimateTokens(result)).toBeLessThanOrEqual(250);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { KnowledgeDB } from "../db.js";
+import { checkRefs, findRename, logRefFixes } from "../check-refs.js";
+import { createTimelineLogger } from "../timeline.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+let repo: string;
+
+function git(...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+    cwd: repo,
+    stdio: "ignore",
+  });
+}
+
+function writeLines(relative: string, count: number): void {
+  const file = path.join(repo, relative);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n") + "\n");
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-check-refs-test-"));
+  repo = path.join(tmpDir, "repo");
+  fs.mkdirSync(repo);
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+
+  git("init", "-q");
+  writeLines("src/auth.ts", 40);
+  writeLines("src/db.ts", 100);
+  git("add", "-A");
+  git("commit", "-q", "-m", "initial");
+  // Renamed twice, so the rename has to be followed through two commits
+  git("mv", "src/auth.ts", "src/login.ts");
+  git("commit", "-q", "-m", "rename");
+  fs.mkdirSync(path.join(repo, "lib"));
+  git("mv", "src/login.ts", "lib/login.ts");
+  git("commit", "-q", "-m", "move");
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("findRename", () => {
+  it("follows a deleted path to its current name", () => {
+    expect(findRename(repo, "src/auth.ts")).toBe("lib/login.ts");
+    expect(findRename(repo, "src/never-existed.ts")).toBeNull();
+  });
+});
+
+describe("checkRefs", () => {
+  it("reports missing files, ranges past EOF and renames", () => {
+    db.insertNode({ id: "db", name: "DB", kind: "module", summary: "Storage", file_refs: ["src/db.ts:90-120", "src/db.ts#L5"] });
+    db.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login", file_refs: ["src/auth.ts:10-20#login"] });
+    db.insertNode({ id: "gone", name: "Gone", kind: "module", summary: "Removed file", file_refs: ["src/gone.ts"] });
+
+    const result = checkRefs(db, {}, { root: repo });
+    expect(result.checked).toBe(4);
+    expect(result.issues).toEqual([
+      { id: "auth", ref: "src/auth.ts:10-20#login", issue: "renamed", detail: "src/auth.ts was renamed to lib/login.ts", renamed_to: "lib/login.ts" },
+      { id: "db", ref: "src/db.ts:90-120", issue: "past_eof", detail: "line 120 is past the end of src/db.ts (100 lines)" },
+      { id: "gone", ref: "src/gone.ts", issue: "missing", detail: "src/gone.ts does not exist" },
+    ]);
+    expect(result.fixed).toBe(0);
+    expect(result.message).toBe("3 of 4 file refs need attention (1 missing, 1 past EOF, 1 renamed)");
+    expect(db.getNode("auth")!.file_refs).toBe('["src/auth.ts:10-20#login"]');
+  });
+
+  it("rewrites renamed paths with fix and logs each rewrite", () => {
+    db.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login", file_refs: ["./src/auth.ts:10-20#login", "src/db.ts"] });
+
+    const result = checkRefs(db, { fix: true }, { root: repo });
+    logRefFixes(createTimelineLogger(db), result);
+
+    expect(result.fixed).toBe(1);
+    expect(result.issues[0].fixed_ref).toBe("lib/login.ts:10-20#login");
+    expect(JSON.parse(db.getNode("auth")!.file_refs!)).toEqual(["lib/login.ts:10-20#login", "src/db.ts"]);
+    expect(db.getNodeRevisions("auth")).toHaveLength(1);
+    expect(checkRefs(db, {}, { root: repo }).issues).toEqual([]);
+
+    const [entry] = db.getTimelineEntries();
+    expect(entry).toMatchObject({ tool: "check_refs", is_write: 1, result_summary: 'Rewrote file ref "./src/auth.ts:10-20#login" to "lib/login.ts:10-20#login"' });
+    expect(entry.group_id).not.toBeNull();
+  });
+});
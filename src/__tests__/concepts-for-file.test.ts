@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "libsql";
+import { KnowledgeDB } from "../db.js";
+import { parseFileRef } from "../file-refs.js";
+import { conceptsForFile, removeConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+let dbPath: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-for-file-test-"));
+  dbPath = path.join(tmpDir, "knowledge.db");
+  db = new KnowledgeDB(dbPath);
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function seedGraph(): void {
+  const concepts: Array<[string, string[]]> = [
+    ["storage", ["./src/db.ts"]],
+    ["storage/migrations", ["src/db.ts:60-380"]],
+    ["storage/node-crud", ["src/db.ts:400-600", "src/types.ts"]],
+    ["storage/get-node", ["src/db.ts#L490-L495"]],
+    ["storage/schema", ["src/db.ts#KnowledgeDB.migrate"]],
+    ["web", ["src/web.ts", "src/web/app.js:10"]],
+  ];
+  for (const [id, file_refs] of concepts) {
+    db.insertNode({ id, name: id, kind: "component", summary: `About ${id}`, file_refs });
+  }
+}
+
+const ids = (result: ReturnType<typeof conceptsForFile>) => result.matches.map((m) => [m.id, m.specificity]);
+
+describe("parseFileRef", () => {
+  it("reads a trailing symbol with or without a line range", () => {
+    expect(parseFileRef("src/db.ts#KnowledgeDB.getNode")).toEqual({
+      raw: "src/db.ts#KnowledgeDB.getNode",
+      path: "src/db.ts",
+      symbol: "KnowledgeDB.getNode",
+    });
+    expect(parseFileRef("src/db.ts:10-42#getNode")).toMatchObject({ startLine: 10, endLine: 42, symbol: "getNode" });
+    expect(parseFileRef("src/c#/Program.cs")).toEqual({ raw: "src/c#/Program.cs", path: "src/c#/Program.cs" });
+  });
+});
+
+describe("conceptsForFile", () => {
+  it("ranks references to a file by how specific they are", () => {
+    seedGraph();
+    expect(ids(conceptsForFile(db, { path: "src/db.ts" }))).toEqual([
+      ["storage/get-node", "range"],
+      ["storage/node-crud", "range"],
+      ["storage/migrations", "range"],
+      ["storage/schema", "symbol"],
+      ["storage", "file"],
+    ]);
+  });
+
+  it("keeps only ranges covering a line, from the path or the line option", () => {
+    seedGraph();
+    const expected = [
+      ["storage/get-node", "range"],
+      ["storage/node-crud", "range"],
+      ["storage/schema", "symbol"],
+      ["storage", "file"],
+    ];
+    expect(ids(conceptsForFile(db, { path: "src/db.ts:492" }))).toEqual(expected);
+    expect(ids(conceptsForFile(db, { path: "src/db.ts", line: 492 }))).toEqual(expected);
+    expect(ids(conceptsForFile(db, { path: "src/db.ts:10" }))).toEqual([
+      ["storage/schema", "symbol"],
+      ["storage", "file"],
+    ]);
+  });
+
+  it("matches a symbol and whole-file references only", () => {
+    seedGraph();
+    expect(ids(conceptsForFile(db, { path: "src/db.ts#KnowledgeDB.migrate" }))).toEqual([
+      ["storage/schema", "symbol"],
+      ["storage", "file"],
+    ]);
+  });
+
+  it("expands globs and lists each concept's matching refs", () => {
+    seedGraph();
+    const result = conceptsForFile(db, { path: "src/**/*.{ts,js}", limit: 2 });
+    expect(result.total).toBe(6);
+    expect(result.matches.map((m) => [m.id, m.refs])).toEqual([
+      ["web", ["src/web/app.js:10", "src/web.ts"]],
+      ["storage/get-node", ["src/db.ts#L490-L495"]],
+    ]);
+    // A single * stays within its directory
+    const web = conceptsForFile(db, { path: "src/*.ts" }).matches.find((m) => m.id === "web");
+    expect(web).toMatchObject({ specificity: "file", refs: ["src/web.ts"] });
+  });
+
+  it("resolves absolute paths against the project root", () => {
+    seedGraph();
+    const result = conceptsForFile(db, { path: path.join(tmpDir, "src/web.ts") }, { root: tmpDir });
+    expect(ids(result)).toEqual([["web", "file"]]);
+  });
+
+  it("follows file_refs through updates, renames and removal", () => {
+    seedGraph();
+    db.updateNode("storage", { file_refs: ["src/index.ts"] });
+    db.renameNodeId("web", "explorer");
+    removeConcept(db, { id: "storage/schema", reason: "merged into migrations" });
+
+    expect(ids(conceptsForFile(db, { path: "src/index.ts" }))).toEqual([["storage", "file"]]);
+    expect(ids(conceptsForFile(db, { path: "src/web.ts" }))).toEqual([["explorer", "file"]]);
+    expect(conceptsForFile(db, { path: "src/db.ts#KnowledgeDB.migrate" }).total).toBe(0);
+  });
+
+  it("backfills the table from file_refs stored before schema v15", () => {
+    seedGraph();
+    db.close();
+    const raw = new Database(dbPath);
+    raw.exec("DROP TABLE file_refs");
+    raw.pragma("user_version = 14");
+    raw.close();
+
+    db = new KnowledgeDB(dbPath);
+    expect(ids(conceptsForFile(db, { path: "src/types.ts" }))).toEqual([["storage/node-crud", "file"]]);
+    expect(conceptsForFile(db, { path: "src/db.ts" }).total).toBe(5);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { findProjectRoot, loadConfig, readConfigFile, writeConfigFile } from "../config.js";
+import { runConfig } from "../config-cli.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let tmpDir: string;
+let projectDir: string;
+let env: NodeJS.ProcessEnv;
+
+function writeJson(file: string, value: unknown): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(value));
+}
+
+function projectConfig(value: unknown): void {
+  writeJson(path.join(projectDir, ".megamemory", "config.json"), value);
+}
+
+function userConfig(value: unknown): void {
+  writeJson(path.join(tmpDir, "xdg", "megamemory", "config.json"), value);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-config-test-"));
+  projectDir = path.join(tmpDir, "repo");
+  fs.mkdirSync(path.join(projectDir, "src", "deep"), { recursive: true });
+  env = { XDG_CONFIG_HOME: path.join(tmpDir, "xdg") };
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("project discovery", () => {
+  it("walks up from the cwd to the nearest .megamemory directory", () => {
+    projectConfig({ top_k: 5 });
+    const cwd = path.join(projectDir, "src", "deep");
+
+    expect(findProjectRoot(cwd)).toBe(projectDir);
+    const loaded = loadConfig({ cwd, env });
+    expect(loaded.settings.top_k).toBe(5);
+    expect(loaded.settings.db_path).toBe(path.join(projectDir, ".megamemory", "knowledge.db"));
+  });
+
+  it("finds a project by its knowledge.db alone", () => {
+    fs.mkdirSync(path.join(projectDir, ".megamemory"));
+    fs.writeFileSync(path.join(projectDir, ".megamemory", "knowledge.db"), "");
+    expect(findProjectRoot(path.join(projectDir, "src"))).toBe(projectDir);
+  });
+
+  it("falls back to defaults under the cwd when nothing is found", () => {
+    const cwd = path.join(projectDir, "src");
+    const loaded = loadConfig({ cwd, env });
+    expect(loaded.projectRoot).toBeNull();
+    expect(loaded.settings).toMatchObject({ top_k: 10, port: 4321, sse_poll_interval_ms: 1500, max_depth: 3 });
+    expect(loaded.settings.db_path).toBe(path.join(cwd, ".megamemory", "knowledge.db"));
+    expect(loaded.sources.port).toBe("default");
+  });
+});
+
+describe("precedence", () => {
+  it("applies cli > env > project > user > defaults", () => {
+    userConfig({ top_k: 7, port: 5000, max_depth: 5, embedding: { model: "bge-small" } });
+    projectConfig({ top_k: 8, port: 6000 });
+    env.MEGAMEMORY_PORT = "7000";
+
+    const loaded = loadConfig({ cwd: projectDir, env, overrides: { top_k: 9 } });
+    expect(loaded.settings).toMatchObject({ top_k: 9, port: 7000, max_depth: 5, sse_poll_interval_ms: 1500 });
+    expect(loaded.settings.embedding).toEqual({ model: "bge-small" });
+    expect(loaded.sources).toMatchObject({
+      top_k: "cli",
+      port: "env",
+      max_depth: "user",
+      "embedding.model": "user",
+      sse_poll_interval_ms: "default",
+    });
+  });
+
+  it("merges vocabularies by name across layers", () => {
+    userConfig({ kinds: { runbook: { description: "Operational procedure" } } });
+    projectConfig({ kinds: { service: { description: "A deployable service" } } });
+    expect(Object.keys(loadConfig({ cwd: projectDir, env }).settings.kinds)).toEqual(["runbook", "service"]);
+  });
+
+  it("anchors a relative project db_path to the project root", () => {
+    projectConfig({ db_path: "data/graph.db" });
+    const loaded = loadConfig({ cwd: path.join(projectDir, "src"), env });
+    expect(loaded.settings.db_path).toBe(path.join(projectDir, "data", "graph.db"));
+  });
+
+  it("reads embedding settings from the existing environment variables", () => {
+    env.MEGAMEMORY_EMBEDDING_PROVIDER = "openai";
+    env.MEGAMEMORY_EMBEDDING_URL = "http://localhost:11434/v1";
+    env.OPENAI_API_KEY = "sk-test";
+    projectConfig({ embedding: { model: "nomic-embed-text" } });
+
+    expect(loadConfig({ cwd: projectDir, env }).settings.embedding).toEqual({
+      provider: "openai",
+      url: "http://localhost:11434/v1",
+      api_key: "sk-test",
+      model: "nomic-embed-text",
+    });
+  });
+});
+
+describe("validation", () => {
+  it("names the variable when an environment value is invalid", () => {
+    env.MEGAMEMORY_MAX_DEPTH = "zero";
+    expect(() => loadConfig({ cwd: projectDir, env })).toThrow(/Invalid MEGAMEMORY_MAX_DEPTH/);
+  });
+
+  it("rejects unknown keys and out-of-range values in config files", () => {
+    projectConfig({ top_k: 500, colour: "blue" });
+    expect(() => loadConfig({ cwd: projectDir, env })).toThrow(/top_k.*colour|colour.*top_k/);
+  });
+
+  it("refuses to write an invalid config", () => {
+    const file = path.join(projectDir, ".megamemory", "config.json");
+    expect(() => writeConfigFile(file, { port: 0 })).toThrow(/port/);
+    expect(fs.existsSync(file)).toBe(false);
+
+    writeConfigFile(file, { port: 8080 });
+    expect(readConfigFile(file)).toEqual({ port: 8080 });
+  });
+});
+
+describe("config get", () => {
+  const originalCwd = process.cwd();
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.chdir(originalCwd);
+  });
+
+  it("masks secret settings", async () => {
+    projectConfig({ embedding: { provider: "openai", url: "http://localhost:11434/v1", api_key: "sk-secret" } });
+    process.chdir(projectDir);
+    const log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+    await runConfig(["get", "embedding.api_key"]);
+    await runConfig(["get", "embedding.url"]);
+
+    expect(log.mock.calls).toEqual([["********"], ["http://localhost:11434/v1"]]);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import Database from "libsql";
 import { KnowledgeDB } from "../db.js";
 import fs from "fs";
 import path from "path";
@@ -332,6 +333,58 @@ describe("KnowledgeDB", () => {
       expect(incoming).toHaveLength(0);
     });
 
+    it("tombstones edges of a soft-deleted node instead of deleting them", () => {
+      db.insertEdge({ from_id: "node-a", to_id: "node-b", relation: "calls" });
+
+      db.softDeleteNode("node-a", "Removed");
+
+      const raw = db.getAllEdgesRaw();
+      expect(raw).toHaveLength(1);
+      expect(raw[0].removed_at).not.toBeNull();
+      expect(db.getStats().edges).toBe(0);
+    });
+
+    it("restoreNode brings back edges whose other endpoint is active", () => {
+      db.insertEdge({ from_id: "node-a", to_id: "node-b", relation: "calls" });
+      db.softDeleteNode("node-a", "Removed");
+
+      const result = db.restoreNode("node-a");
+
+      expect(result).toEqual({ restored: true, edgesRestored: 1 });
+      expect(db.getNode("node-a")!.removed_reason).toBeNull();
+      expect(db.getOutgoingEdges("node-a")).toHaveLength(1);
+    });
+
+    it("restoreNode keeps edges to still-removed nodes tombstoned", () => {
+      db.insertEdge({ from_id: "node-a", to_id: "node-b", relation: "calls" });
+      db.softDeleteNode("node-a", "Removed");
+      db.softDeleteNode("node-b", "Removed");
+
+      expect(db.restoreNode("node-a").edgesRestored).toBe(0);
+      expect(db.getAllEdges()).toHaveLength(0);
+
+      expect(db.restoreNode("node-b").edgesRestored).toBe(1);
+      expect(db.getAllEdges()).toHaveLength(1);
+    });
+
+    it("insertEdge revives a tombstoned edge with the same key", () => {
+      db.insertEdge({ from_id: "node-a", to_id: "node-b", relation: "calls", description: "old" });
+      db.softDeleteNode("node-a", "Removed");
+
+      // Reactivate the node without touching its edges
+      const rawDb = new Database(dbPath);
+      rawDb.prepare("UPDATE nodes SET removed_at = NULL WHERE id = ?").run("node-a");
+      rawDb.close();
+
+      const result = db.insertEdge({ from_id: "node-a", to_id: "node-b", relation: "calls", description: "new" });
+
+      expect(result.inserted).toBe(true);
+      const edges = db.getOutgoingEdges("node-a");
+      expect(edges).toHaveLength(1);
+      expect(edges[0].id).toBe(result.id);
+      expect(edges[0].description).toBe("new");
+    });
+
     it("getAllEdges returns all edges", () => {
       db.insertEdge({
         from_id: "node-a",
@@ -421,8 +474,8 @@ describe("KnowledgeDB", () => {
       expect(outgoing[0].relation).toBe("calls");
     });
 
-    it("insertNodeAndEdges skips edges to nonexistent targets", () => {
-      db.insertNodeAndEdges(
+    it("insertNodeAndEdges defers edges to nonexistent targets", () => {
+      const { pending } = db.insertNodeAndEdges(
         {
           id: "source-only",
           name: "Source Only",
@@ -440,6 +493,9 @@ describe("KnowledgeDB", () => {
       expect(db.getNode("source-only")).toBeDefined();
       expect(db.getOutgoingEdges("source-only")).toHaveLength(0);
       expect(db.getAllEdges()).toHaveLength(0);
+      expect(pending.map((edge) => [edge.from_id, edge.to_id, edge.relation])).toEqual([
+        ["source-only", "missing", "calls"],
+      ]);
     });
 
     it("runInTransaction rolls back when callback throws", () => {
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider, EMBEDDING_TEXT_VERSION } from "../embeddings.js";
+import type { EmbeddingProvider } from "../embedding-providers.js";
+import { getEmbeddingStatus, recordEmbeddingMeta, reindexEmbeddings } from "../embedding-meta.js";
+import { listRoots } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+/** Provider that embeds every text as a constant vector, optionally failing after N calls. */
+function fakeProvider(id: string, dimensions: number, failAfterCalls = Infinity) {
+  let calls = 0;
+  const provider: EmbeddingProvider & { embedded: string[] } = {
+    id,
+    dimensions,
+    embedded: [],
+    async initialize() {},
+    async embed(texts) {
+      if (calls++ >= failAfterCalls) throw new Error("provider went away");
+      provider.embedded.push(...texts);
+      return texts.map(() => new Float32Array(dimensions).fill(1 / Math.sqrt(dimensions)));
+    },
+  };
+  return provider;
+}
+
+function addNode(id: string, dimensions: number): void {
+  const embedding = new Float32Array(dimensions).fill(0.5);
+  db.insertNode({
+    id,
+    name: id,
+    kind: "feature",
+    summary: `Summary of ${id}`,
+    embedding: Buffer.from(embedding.buffer),
+  });
+}
+
+function storedDimension(id: string): number | undefined {
+  const embedding = db.getNodeIncludingRemoved(id)?.embedding;
+  return embedding ? embedding.byteLength / 4 : undefined;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-embedding-meta-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("recordEmbeddingMeta", () => {
+  it("stamps an empty graph with the active provider", () => {
+    const status = recordEmbeddingMeta(db, fakeProvider("fake:small", 8));
+    expect(status.stored).toEqual({ model: "fake:small", dimensions: 8, text_version: EMBEDDING_TEXT_VERSION });
+    expect(status.mismatch).toBeNull();
+  });
+
+  it("attributes legacy 384-dim vectors to the default MiniLM model", () => {
+    addNode("legacy", 384);
+    const status = recordEmbeddingMeta(db, fakeProvider("transformers:Xenova/all-MiniLM-L6-v2", 384));
+    expect(status.stored.model).toBe("transformers:Xenova/all-MiniLM-L6-v2");
+    expect(status.mismatch).toBeNull();
+  });
+
+  it("reports a model change through getEmbeddingStatus and list_roots", () => {
+    addNode("legacy", 384);
+    recordEmbeddingMeta(db, fakeProvider("transformers:Xenova/all-MiniLM-L6-v2", 384));
+
+    const provider = fakeProvider("openai:text-embedding-3-small", 1536);
+    setEmbeddingProvider(provider);
+    const status = getEmbeddingStatus(db);
+    expect(status.mismatch).toContain("openai:text-embedding-3-small");
+    expect(status.mismatch).toContain("384 dimensions");
+    expect(status.mismatch).toContain("megamemory reindex");
+
+    expect(listRoots(db).embedding_warning).toBe(status.mismatch);
+  });
+
+  it("counts the stored vectors search skips after a dimension change", () => {
+    addNode("old-a", 384);
+    addNode("old-b", 384);
+    addNode("new", 8);
+
+    const status = getEmbeddingStatus(db, fakeProvider("fake:small", 8));
+    expect(status.stored_dimensions).toEqual({ 8: 1, 384: 2 });
+    expect(status.mismatch).toContain(
+      "2 stored embeddings have 384 dimensions but the active provider produces 8, so search skips them"
+    );
+  });
+
+  it("reports an invalid embedding config instead of throwing", () => {
+    vi.stubEnv("XDG_CONFIG_HOME", tmpDir);
+    vi.stubEnv("MEGAMEMORY_EMBEDDING_PROVIDER", "openai");
+    vi.stubEnv("MEGAMEMORY_EMBEDDING_URL", undefined);
+    try {
+      const status = getEmbeddingStatus(db);
+      expect(status.active).toBeNull();
+      expect(status.mismatch).toContain("Embedding provider unavailable: The openai embedding provider needs a url");
+      expect(listRoots(db).embedding_warning).toBe(status.mismatch);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+});
+
+describe("reindexEmbeddings", () => {
+  it("re-embeds every node, including removed ones, and updates the metadata", async () => {
+    for (let i = 0; i < 5; i++) addNode(`node-${i}`, 384);
+    db.softDeleteNode("node-4", "obsolete");
+    recordEmbeddingMeta(db);
+
+    const provider = fakeProvider("fake:wide", 12);
+    setEmbeddingProvider(provider);
+    const progress: number[] = [];
+    const result = await reindexEmbeddings(db, {
+      batchSize: 2,
+      onProgress: ({ done }) => progress.push(done),
+    });
+
+    expect(result).toEqual({ reindexed: 5, total: 5, resumed: false });
+    expect(progress).toEqual([0, 2, 4, 5]);
+    expect(storedDimension("node-0")).toBe(12);
+    expect(storedDimension("node-4")).toBe(12);
+    expect(provider.embedded[0]).toContain("Summary of node-0");
+
+    const status = getEmbeddingStatus(db);
+    expect(status.stored).toEqual({ model: "fake:wide", dimensions: 12, text_version: EMBEDDING_TEXT_VERSION });
+    expect(status.mismatch).toBeNull();
+  });
+
+  it("resumes an interrupted run where it stopped", async () => {
+    for (let i = 0; i < 6; i++) addNode(`node-${i}`, 384);
+    recordEmbeddingMeta(db);
+
+    setEmbeddingProvider(fakeProvider("fake:wide", 12, 2));
+    await expect(reindexEmbeddings(db, { batchSize: 2 })).rejects.toThrow("provider went away");
+    expect(storedDimension("node-3")).toBe(12);
+    expect(storedDimension("node-4")).toBe(384);
+    expect(getEmbeddingStatus(db).mismatch).toContain("a reindex was interrupted");
+
+    const provider = fakeProvider("fake:wide", 12);
+    setEmbeddingProvider(provider);
+    const result = await reindexEmbeddings(db, { batchSize: 2 });
+
+    expect(result).toEqual({ reindexed: 2, total: 6, resumed: true });
+    expect(provider.embedded).toHaveLength(2);
+    expect(storedDimension("node-5")).toBe(12);
+    expect(getEmbeddingStatus(db).mismatch).toBeNull();
+  });
+
+  it("starts over when the provider changed since the interruption", async () => {
+    for (let i = 0; i < 4; i++) addNode(`node-${i}`, 384);
+
+    setEmbeddingProvider(fakeProvider("fake:wide", 12, 1));
+    await expect(reindexEmbeddings(db, { batchSize: 2 })).rejects.toThrow();
+
+    const provider = fakeProvider("fake:other", 12);
+    setEmbeddingProvider(provider);
+    const result = await reindexEmbeddings(db, { batchSize: 2 });
+    expect(result).toEqual({ reindexed: 4, total: 4, resumed: false });
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from "vitest";
+import http from "http";
+import type { AddressInfo } from "net";
+import {
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  OpenAICompatibleProvider,
+  TransformersProvider,
+} from "../embedding-providers.js";
+import { embed, setEmbeddingProvider } from "../embeddings.js";
+
+const { extractor } = vi.hoisted(() => ({ extractor: vi.fn() }));
+vi.mock("@xenova/transformers", () => ({ pipeline: vi.fn(async () => extractor) }));
+
+// ---- Local stub of an OpenAI-compatible /embeddings endpoint ----
+
+let server: http.Server;
+let baseUrl: string;
+let requests: Array<{ url: string; auth: string | undefined; body: { model: string; input: string[] } }>;
+let responseDim = 4;
+let failNext = false;
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const body = JSON.parse(raw);
+      requests.push({ url: req.url ?? "", auth: req.headers.authorization, body });
+      if (failNext) {
+        failNext = false;
+        res.writeHead(429, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "rate limited" }));
+        return;
+      }
+      // Returned out of order to check that index is respected
+      const data = body.input
+        .map((text: string, index: number) => ({
+          index,
+          embedding: Array.from({ length: responseDim }, (_, i) => (i === 0 ? text.length : index)),
+        }))
+        .reverse();
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ object: "list", data }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+afterEach(() => {
+  requests = [];
+  responseDim = 4;
+  failNext = false;
+  setEmbeddingProvider(null);
+});
+
+requests = [];
+
+describe("TransformersProvider", () => {
+  it("embeds a batch of texts in one model call", async () => {
+    extractor.mockResolvedValueOnce({ dims: [3, 2], data: new Float32Array([1, 2, 3, 4, 5, 6]) });
+    const provider = new TransformersProvider("Xenova/all-MiniLM-L6-v2", 2);
+
+    const vectors = await provider.embed(["alpha", "beta", "gamma"]);
+
+    expect(extractor).toHaveBeenCalledTimes(1);
+    expect(extractor).toHaveBeenCalledWith(["alpha", "beta", "gamma"], { pooling: "mean", normalize: true });
+    expect(vectors.map((v) => Array.from(v))).toEqual([
+      [1, 2],
+      [3, 4],
+      [5, 6],
+    ]);
+  });
+});
+
+describe("OpenAICompatibleProvider", () => {
+  it("posts inputs to /embeddings and returns vectors in input order", async () => {
+    const provider = new OpenAICompatibleProvider(`${baseUrl}/`, "text-embedding-3-small", "sk-test");
+
+    const vectors = await provider.embed(["a", "bbb"]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].url).toBe("/v1/embeddings");
+    expect(requests[0].auth).toBe("Bearer sk-test");
+    expect(requests[0].body).toEqual({ model: "text-embedding-3-small", input: ["a", "bbb"] });
+    expect(Array.from(vectors[0])).toEqual([1, 0, 0, 0]);
+    expect(Array.from(vectors[1])).toEqual([3, 1, 1, 1]);
+  });
+
+  it("learns its dimension from the first response", async () => {
+    responseDim = 6;
+    const provider = new OpenAICompatibleProvider(baseUrl, "nomic-embed-text");
+    expect(provider.dimensions).toBeNull();
+
+    await provider.initialize();
+
+    expect(provider.dimensions).toBe(6);
+    expect(requests[0].auth).toBeUndefined();
+  });
+
+  it("reports HTTP errors with the status and body", async () => {
+    failNext = true;
+    const provider = new OpenAICompatibleProvider(baseUrl, "m");
+
+    await expect(provider.embed(["x"])).rejects.toThrow(/HTTP 429 — \{"error":"rate limited"\}/);
+  });
+});
+
+describe("embed with a configured provider", () => {
+  it("validates vectors against the provider's configured dimension", async () => {
+    setEmbeddingProvider(new OpenAICompatibleProvider(baseUrl, "m", undefined, 4));
+    const buffer = await embed("hello");
+    expect(buffer.byteLength).toBe(4 * Float32Array.BYTES_PER_ELEMENT);
+
+    setEmbeddingProvider(new OpenAICompatibleProvider(baseUrl, "m", undefined, 8));
+    await expect(embed("hello")).rejects.toThrow(/expected 8 floats \(32 bytes\), got 4 floats/);
+  });
+});
+
+describe("provider selection", () => {
+  it("defaults to the local MiniLM model", () => {
+    const provider = createEmbeddingProvider(embeddingConfigFromEnv({}));
+    expect(provider).toBeInstanceOf(TransformersProvider);
+    expect(provider.id).toBe("transformers:Xenova/all-MiniLM-L6-v2");
+    expect(provider.dimensions).toBe(384);
+  });
+
+  it("resolves local model keys and accepts unlisted models with explicit dimensions", () => {
+    expect(createEmbeddingProvider({ model: "bge-small" }).id).toBe(
+      "transformers:Xenova/bge-small-en-v1.5"
+    );
+    expect(createEmbeddingProvider({ model: "Xenova/e5-base", dimensions: 768 }).dimensions).toBe(768);
+    expect(() => createEmbeddingProvider({ model: "Xenova/e5-base" })).toThrow(/Unknown local embedding model/);
+  });
+
+  it("builds an HTTP provider from environment variables", () => {
+    const provider = createEmbeddingProvider(
+      embeddingConfigFromEnv({
+        MEGAMEMORY_EMBEDDING_PROVIDER: "openai",
+        MEGAMEMORY_EMBEDDING_URL: baseUrl,
+        MEGAMEMORY_EMBEDDING_MODEL: "text-embedding-3-small",
+        MEGAMEMORY_EMBEDDING_DIM: "1536",
+      })
+    );
+    expect(provider).toBeInstanceOf(OpenAICompatibleProvider);
+    expect(provider.id).toBe("openai:text-embedding-3-small");
+    expect(provider.dimensions).toBe(1536);
+  });
+
+  it("rejects unknown providers and incomplete HTTP settings", () => {
+    expect(() => embeddingConfigFromEnv({ MEGAMEMORY_EMBEDDING_PROVIDER: "cohere" })).toThrow(
+      /Unknown embedding provider "cohere"/
+    );
+    expect(() => createEmbeddingProvider({ provider: "openai", model: "m" })).toThrow(/needs a url/);
+  });
+});
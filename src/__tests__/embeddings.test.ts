@@ -132,4 +132,13 @@ describe("findTopK", () => {
     expect(ids).not.toContain("empty-buf");
     expect(ids).not.toContain("null-emb");
   });
+
+  it("skips candidates embedded with a different dimension", () => {
+    const mixed = [
+      { id: "same-dim", name: "Same", kind: "feature", summary: "", embedding: mockEmbedding([1, 0, 0]) },
+      { id: "other-model", name: "Other", kind: "feature", summary: "", embedding: mockEmbedding([1, 0, 0, 0]) },
+    ];
+    const results = findTopK(queryEmbedding, mixed, 10);
+    expect(results.map((r) => r.id)).toEqual(["same-dim"]);
+  });
 });
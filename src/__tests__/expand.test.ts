@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { expandFromSeeds } from "../graph.js";
+import { createConcept, understand } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-expand-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  // Only texts mentioning tokens point the same way as the query
+  setEmbeddingProvider({
+    id: "fake:tokens",
+    dimensions: 2,
+    async initialize() {},
+    async embed(texts) {
+      return texts.map((text) => new Float32Array(/token/i.test(text) ? [1, 0] : [0, 1]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+async function seedGraph(): Promise<void> {
+  await createConcept(db, { name: "Database", kind: "module", summary: "SQLite storage" });
+  await createConcept(db, { name: "Web", kind: "module", summary: "Explorer" });
+  await createConcept(db, { name: "JWT Spec", kind: "decision", summary: "RS256 signing" });
+  await createConcept(db, {
+    name: "Auth",
+    kind: "module",
+    summary: "Login",
+    edges: [
+      { to: "database", relation: "depends_on" },
+      { to: "web", relation: "connects_to" },
+    ],
+  });
+  await createConcept(db, {
+    name: "Tokens",
+    kind: "component",
+    summary: "Issues tokens",
+    parent_id: "auth",
+    edges: [{ to: "jwt-spec", relation: "implements" }],
+  });
+}
+
+describe("understand with expand", () => {
+  it("leaves results unchanged without expand", async () => {
+    await seedGraph();
+    const result = await understand(db, { query: "token", top_k: 1, mode: "semantic" });
+    expect(result.matches.map((m) => m.id)).toEqual(["auth/tokens"]);
+    expect(result.expanded).toBeUndefined();
+  });
+
+  it("follows edges and the parent chain with decaying scores and paths", async () => {
+    await seedGraph();
+    const result = await understand(db, { query: "token", mode: "keyword", expand: 2 });
+
+    expect(result.matches.map((m) => m.id)).toEqual(["auth/tokens"]);
+    const seedScore = result.matches[0].keyword_score!;
+    expect(result.expanded?.map((m) => [m.id, m.expansion.hops])).toEqual([
+      ["jwt-spec", 1],
+      ["auth", 1],
+      ["database", 2],
+    ]);
+    expect(result.expanded?.map((m) => m.expansion.score / seedScore)).toEqual([
+      expect.closeTo(0.4, 3),
+      expect.closeTo(0.35, 3),
+      expect.closeTo(0.175, 3),
+    ]);
+    expect(result.expanded?.[2].expansion).toMatchObject({
+      seed: "auth/tokens",
+      path: [
+        { from: "auth/tokens", relation: "parent", to: "auth" },
+        { from: "auth", relation: "depends_on", to: "database" },
+      ],
+    });
+  });
+
+  it("stops at the requested number of hops", async () => {
+    await seedGraph();
+    const result = await understand(db, { query: "token", mode: "keyword", expand: 1 });
+    expect(result.expanded?.map((m) => m.id)).toEqual(["jwt-spec", "auth"]);
+    // Expanded concepts are capped at top_k like the matches
+    const capped = await understand(db, { query: "token", top_k: 1, mode: "semantic", expand: 1 });
+    expect(capped.expanded?.map((m) => m.id)).toEqual(["jwt-spec"]);
+  });
+});
+
+describe("expandFromSeeds", () => {
+  it("terminates on cycles and never returns a seed", () => {
+    for (const id of ["a", "b", "c"]) {
+      db.insertNode({ id, name: id, kind: "module", summary: id });
+    }
+    db.insertEdge({ from_id: "a", to_id: "b", relation: "calls" });
+    db.insertEdge({ from_id: "b", to_id: "a", relation: "calls" });
+    db.insertEdge({ from_id: "b", to_id: "c", relation: "depends_on" });
+
+    expect(expandFromSeeds(db, [{ id: "a", score: 1 }], 3).map((e) => [e.id, e.hops])).toEqual([
+      ["b", 1],
+      ["c", 2],
+    ]);
+  });
+});
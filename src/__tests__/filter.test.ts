@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { compileFilter, parseFilter, type FilterSubject } from "../filter.js";
+import type { AttributeRow, AttributeType } from "../types.js";
+
+function subject(
+  id: string,
+  attributes: Record<string, [AttributeType, string]> = {},
+  tags: string[] = [],
+  kind = "module"
+): FilterSubject {
+  const rows: AttributeRow[] = Object.entries(attributes).map(([key, [type, value]]) => ({
+    node_id: id,
+    key,
+    type,
+    value,
+  }));
+  return { node: { id, name: id, kind, summary: `About ${id}`, parent_id: null }, tags, attributes: rows };
+}
+
+const payments = subject("payments", { owner: ["string", "payments"], port: ["number", "8080"] }, ["pci"]);
+const search = subject(
+  "search",
+  { owner: ["string", "discovery"], deprecated: ["boolean", "true"], reviewed_at: ["date", "2024-06-01"] },
+  ["legacy"],
+  "feature"
+);
+const subjects = [payments, search];
+
+function ids(filter: string): string[] {
+  const matches = compileFilter(filter);
+  return subjects.filter(matches).map((s) => s.node.id);
+}
+
+describe("parseFilter", () => {
+  it("gives AND precedence over OR", () => {
+    expect(parseFilter("a=1 OR b=2 AND c=3")).toEqual({
+      type: "or",
+      left: { type: "compare", field: "a", operator: "=", value: "1" },
+      right: {
+        type: "and",
+        left: { type: "compare", field: "b", operator: "=", value: "2" },
+        right: { type: "compare", field: "c", operator: "=", value: "3" },
+      },
+    });
+  });
+
+  it("reports where the expression went wrong", () => {
+    expect(() => parseFilter("owner=")).toThrow('Invalid filter: expected a value after "owner=" (at position 7).');
+    expect(() => parseFilter("(owner=x")).toThrow('expected ")"');
+    expect(() => parseFilter("tag>security")).toThrow('">" cannot be used with tag');
+    expect(() => parseFilter('name="open')).toThrow("unterminated quoted value");
+  });
+});
+
+describe("evaluating filters", () => {
+  it("combines attributes with built-in fields", () => {
+    expect(ids("owner=payments AND kind=module")).toEqual(["payments"]);
+    expect(ids("owner=payments OR tag=legacy")).toEqual(["payments", "search"]);
+    expect(ids("NOT (kind=feature)")).toEqual(["payments"]);
+  });
+
+  it("compares numbers and dates by value", () => {
+    expect(ids("port>=8000")).toEqual(["payments"]);
+    expect(ids("port>10000")).toEqual([]);
+    expect(ids("reviewed_at<2025-01-01")).toEqual(["search"]);
+  });
+
+  it("treats a missing attribute as unequal and a bare name as existence", () => {
+    expect(ids("deprecated!=true")).toEqual(["payments"]);
+    expect(ids("deprecated")).toEqual(["search"]);
+    expect(ids("NOT port")).toEqual(["search"]);
+  });
+
+  it("matches substrings case-insensitively with ~", () => {
+    expect(ids('owner~"DISCO"')).toEqual(["search"]);
+    expect(ids("tag~pc")).toEqual(["payments"]);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { shortestPaths } from "../graph.js";
+import { findPath } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-find-path-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+
+  // web → api → db, web → cache → db, and merge → db pointing the other way
+  for (const id of ["web", "api", "cache", "db", "merge", "cli", "island"]) {
+    db.insertNode({ id, name: id.toUpperCase(), kind: "module", summary: `${id} module` });
+  }
+  db.insertNode({ id: "cli-args", name: "Args", kind: "component", summary: "Flag parsing", parent_id: "cli" });
+  db.insertEdge({ from_id: "web", to_id: "api", relation: "calls", description: "fetches JSON" });
+  db.insertEdge({ from_id: "api", to_id: "db", relation: "depends_on", description: "reads nodes" });
+  db.insertEdge({ from_id: "web", to_id: "cache", relation: "depends_on", description: null });
+  db.insertEdge({ from_id: "cache", to_id: "db", relation: "calls", description: "fills misses" });
+  db.insertEdge({ from_id: "merge", to_id: "db", relation: "depends_on", description: "writes merged rows" });
+  db.insertEdge({ from_id: "cli-args", to_id: "merge", relation: "configured_by", description: null });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("shortestPaths", () => {
+  it("returns every equally short path, walking edges backwards where needed", () => {
+    const paths = shortestPaths(db, "web", "merge");
+    expect(paths.map((steps) => steps.map((step) => step.to))).toEqual([
+      ["api", "db", "merge"],
+      ["cache", "db", "merge"],
+    ]);
+    expect(paths[0]).toEqual([
+      { from: "web", to: "api", relation: "calls", reversed: false, description: "fetches JSON" },
+      { from: "api", to: "db", relation: "depends_on", reversed: false, description: "reads nodes" },
+      { from: "db", to: "merge", relation: "depends_on", reversed: true, description: "writes merged rows" },
+    ]);
+  });
+
+  it("follows only the requested relations", () => {
+    const paths = shortestPaths(db, "web", "db", { relations: ["depends_on"] });
+    expect(paths).toEqual([]);
+    expect(shortestPaths(db, "web", "db", { relations: ["calls", "depends_on"] })).toHaveLength(2);
+  });
+
+  it("steps through the hierarchy only when asked", () => {
+    expect(shortestPaths(db, "cli", "merge")).toEqual([]);
+    const [steps] = shortestPaths(db, "cli", "merge", { include_hierarchy: true });
+    expect(steps.map((step) => [step.relation, step.to])).toEqual([
+      ["child", "cli-args"],
+      ["configured_by", "merge"],
+    ]);
+    expect(shortestPaths(db, "cli-args", "cli", { include_hierarchy: true })[0][0].relation).toBe("parent");
+  });
+
+  it("stops at max_depth and caps the number of paths", () => {
+    expect(shortestPaths(db, "web", "merge", { max_depth: 2 })).toEqual([]);
+    expect(shortestPaths(db, "web", "merge", { max_paths: 1 })).toHaveLength(1);
+  });
+});
+
+describe("findPath", () => {
+  it("lists the concepts on the paths and resolves aliases", () => {
+    db.addAlias("storage", "db", "name");
+    const result = findPath(db, { from: "web", to: "storage" });
+
+    expect(result.from).toBe("web");
+    expect(result.to).toBe("db");
+    expect(result.resolved_aliases).toEqual([{ alias: "storage", id: "db" }]);
+    expect(result.paths.map((p) => p.length)).toEqual([2, 2]);
+    expect(result.concepts.map((c) => c.id)).toEqual(["web", "api", "db", "cache"]);
+    expect(result.message).toBe('2 shortest paths of 2 hops from "web" to "db"');
+  });
+
+  it("reports when no path exists and rejects unknown concepts", () => {
+    const result = findPath(db, { from: "web", to: "island" });
+    expect(result.paths).toEqual([]);
+    expect(result.concepts).toEqual([]);
+    expect(result.message).toBe('No path from "web" to "island" within 6 hops');
+
+    expect(() => findPath(db, { from: "web", to: "nowhere" })).toThrow('Target concept "nowhere" not found.');
+  });
+
+  it("ignores removed concepts and edges", () => {
+    db.softDeleteNode("api", "gone");
+    const result = findPath(db, { from: "web", to: "db" });
+    expect(result.paths.map((p) => p.steps.map((s) => s.to))).toEqual([["cache", "db"]]);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import { formatResult } from "../format.js";
+import type { BatchOutput, GetConceptOutput, ListRootsOutput, UnderstandOutput } from "../types.js";
+
+const tokens: GetConceptOutput = {
+  id: "auth/tokens",
+  name: "Tokens",
+  kind: "component",
+  summary: "Issues RS256 JWTs with a 15 minute TTL",
+  why: "Stateless sessions for the API gateway",
+  file_refs: ["src/auth/tokens.ts:10-80"],
+  tags: ["security"],
+  attributes: { ttl_minutes: 15, public: false },
+  last_verified_at: "2025-03-01 12:00:00",
+  verified_by: "session-42",
+  children: [{ id: "auth/tokens/refresh", name: "Refresh", kind: "component", summary: "Rotates refresh tokens" }],
+  edges: [{ to: "jwt-spec", to_name: "JWT Spec", relation: "implements", description: "Follows RFC 7519" }],
+  incoming_edges: [{ from: "api", from_name: "api", relation: "calls", description: null }],
+  parent: { id: "auth", name: "Auth" },
+  aliases: ["tokens"],
+};
+
+const understandResult: UnderstandOutput = {
+  matches: [{ ...tokens, similarity: 0.91, keyword_score: 2.5 }],
+  expanded: [
+    {
+      id: "jwt-spec",
+      name: "JWT Spec",
+      kind: "decision",
+      summary: "RS256 signing",
+      why: null,
+      file_refs: null,
+      tags: [],
+      attributes: {},
+      last_verified_at: null,
+      verified_by: null,
+      stale: { last_verified_at: null, days_since_verified: 45, changed_files: [] },
+      children: [],
+      edges: [],
+      incoming_edges: [],
+      parent: null,
+      expansion: {
+        score: 0.364,
+        hops: 1,
+        seed: "auth/tokens",
+        path: [{ from: "auth/tokens", relation: "implements", to: "jwt-spec" }],
+      },
+    },
+  ],
+  budget: { max_tokens: 800, estimated_tokens: 640, elided: ["descriptions of 2 edges"], hint: "Raise max_tokens." },
+};
+
+const rootsResult: ListRootsOutput & { stats: Record<string, number> } = {
+  roots: [
+    { id: "auth", name: "Auth", kind: "module", summary: "Login", tags: [], children: ["Tokens", "Sessions"] },
+    { id: "billing", name: "Billing", kind: "module", summary: "Invoices", tags: ["payments"], children: [] },
+  ],
+  stale_concepts: 1,
+  stats: { nodes: 4, edges: 1, removed: 0 },
+};
+
+const batchResult: BatchOutput = {
+  results: [
+    { index: 0, op: "create", id: "auth", message: 'Created concept "auth"' },
+    { index: 1, op: "link", from: "auth", to: "db", message: 'Created depends_on link from "auth" to "db" (edge #3)' },
+  ],
+  message: "Applied 2 operations",
+};
+
+const FIXTURES: Record<string, unknown> = {
+  get_concept: tokens,
+  understand: understandResult,
+  list_roots: rootsResult,
+  batch: batchResult,
+};
+
+/** Every string, number and boolean in a result, which markdown must also show. */
+function leafValues(value: unknown): string[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap(leafValues);
+  if (typeof value === "object") return Object.values(value).flatMap(leafValues);
+  return [String(value)];
+}
+
+describe("formatResult", () => {
+  for (const [name, result] of Object.entries(FIXTURES)) {
+    it(`renders ${name} as json and markdown`, () => {
+      const json = formatResult(result, "json");
+      const markdown = formatResult(result, "markdown");
+
+      expect(JSON.parse(json)).toEqual(result);
+      expect(markdown).toMatchSnapshot();
+      for (const leaf of leafValues(result)) {
+        expect(markdown).toContain(leaf);
+      }
+      expect(markdown.length).toBeLessThan(json.length);
+    });
+  }
+
+  it("marks empty lists instead of rendering nothing", () => {
+    expect(formatResult({ matches: [] }, "markdown")).toBe("- **matches:** none");
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { getConceptHistory, revertConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(async () => {
+    const embedding = new Float32Array([1, 0, 0]);
+    return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+  }),
+  embeddingText: vi.fn((name: string, kind: string, summary: string) =>
+    `${kind}: ${name} — ${summary}`
+  ),
+  findTopK: vi.fn(),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-history-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  db.insertNode({
+    id: "auth",
+    name: "Auth",
+    kind: "module",
+    summary: "Original summary",
+    why: "Original why",
+    file_refs: ["src/auth.ts"],
+  });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("node revisions", () => {
+  it("snapshots the previous version when content fields change", () => {
+    db.updateNode("auth", { summary: "Second summary" });
+    db.updateNode("auth", { summary: "Third summary", file_refs: ["src/auth/index.ts"] });
+
+    const revisions = db.getNodeRevisions("auth");
+    expect(revisions.map((r) => r.revision)).toEqual([1, 2]);
+    expect(revisions[0].summary).toBe("Original summary");
+    expect(revisions[0].file_refs).toBe(JSON.stringify(["src/auth.ts"]));
+    expect(revisions[1].summary).toBe("Second summary");
+  });
+
+  it("does not record a revision for embedding-only or identical updates", () => {
+    const emb = Buffer.from(new Float32Array([0, 1, 0]).buffer);
+    db.updateNode("auth", { embedding: emb });
+    db.updateNode("auth", { summary: "Original summary" });
+
+    expect(db.getNodeRevisions("auth")).toHaveLength(0);
+  });
+
+  it("moves revisions along with a renamed node", () => {
+    db.updateNode("auth", { summary: "Second summary" });
+    db.renameNodeId("auth", "authentication");
+
+    expect(db.getNodeRevisions("auth")).toHaveLength(0);
+    expect(db.getNodeRevisions("authentication")).toHaveLength(1);
+  });
+
+  it("deletes revisions when the node is hard-deleted", () => {
+    db.updateNode("auth", { summary: "Second summary" });
+    db.hardDeleteNode("auth");
+
+    expect(db.getNodeRevisions("auth")).toHaveLength(0);
+  });
+});
+
+describe("getConceptHistory tool", () => {
+  it("returns the current version numbered after all prior revisions", () => {
+    db.updateNode("auth", { summary: "Second summary" });
+
+    const history = getConceptHistory(db, { id: "auth" });
+
+    expect(history.current.revision).toBe(2);
+    expect(history.current.summary).toBe("Second summary");
+    expect(history.revisions).toHaveLength(1);
+    expect(history.revisions[0]).toMatchObject({
+      revision: 1,
+      summary: "Original summary",
+      why: "Original why",
+      file_refs: ["src/auth.ts"],
+    });
+  });
+
+  it("throws when the concept does not exist", () => {
+    expect(() => getConceptHistory(db, { id: "missing" })).toThrow(/not found/);
+  });
+});
+
+describe("revertConcept tool", () => {
+  it("restores an earlier revision and keeps the replaced version", async () => {
+    db.updateNode("auth", { summary: "Worse summary", why: null, file_refs: null });
+
+    const result = await revertConcept(db, { id: "auth", revision: 1 });
+
+    const node = db.getNode("auth")!;
+    expect(result.message).toContain("revision 1");
+    expect(node.summary).toBe("Original summary");
+    expect(node.why).toBe("Original why");
+    expect(JSON.parse(node.file_refs!)).toEqual(["src/auth.ts"]);
+    expect(node.embedding).not.toBeNull();
+
+    const revisions = db.getNodeRevisions("auth");
+    expect(revisions).toHaveLength(2);
+    expect(revisions[1].summary).toBe("Worse summary");
+    expect(revisions[1].why).toBeNull();
+  });
+
+  it("rejects unknown revisions", async () => {
+    await expect(revertConcept(db, { id: "auth", revision: 3 })).rejects.toThrow(
+      /Revision 3 of concept "auth" not found/
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { execFileSync } from "child_process";
+import { KnowledgeDB } from "../db.js";
+import { changedLines, impactOfChanges } from "../impact.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+let repo: string;
+
+function git(...args: string[]): void {
+  execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {
+    cwd: repo,
+    stdio: "ignore",
+  });
+}
+
+function write(relative: string, lines: string[]): void {
+  const file = path.join(repo, relative);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, lines.join("\n") + "\n");
+}
+
+const numbered = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-impact-test-"));
+  repo = path.join(tmpDir, "repo");
+  fs.mkdirSync(repo);
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+
+  git("init", "-q");
+  write("src/db.ts", numbered(100));
+  write("src/web.ts", numbered(10));
+  write("README.md", ["# Project"]);
+  git("add", "-A");
+  git("commit", "-q", "-m", "initial");
+
+  // Change line 50 of db.ts and add a file no concept references
+  const db_ts = numbered(100);
+  db_ts[49] = "changed";
+  write("src/db.ts", db_ts);
+  write("src/new.ts", ["export {};"]);
+  git("add", "-A");
+  git("commit", "-q", "-m", "change");
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("changedLines", () => {
+  it("lists changed files with the lines their hunks cover", () => {
+    const changed = changedLines(repo, "HEAD~1..HEAD");
+    expect([...changed.keys()].sort()).toEqual(["src/db.ts", "src/new.ts"]);
+    expect(changed.get("src/db.ts")).toEqual([
+      [50, 50],
+      [50, 50],
+    ]);
+  });
+
+  it("rejects ranges that look like options", () => {
+    expect(() => changedLines(repo, "--output=/tmp/x")).toThrow(/Invalid git range/);
+    expect(() => changedLines(repo, "no-such-ref")).toThrow(/git diff failed/);
+  });
+});
+
+describe("impactOfChanges", () => {
+  it("ranks direct matches by the lines touched, then dependents by hops", () => {
+    db.insertNode({ id: "queries", name: "Queries", kind: "component", summary: "SQL", file_refs: ["src/db.ts:40-60"] });
+    db.insertNode({ id: "migrations", name: "Migrations", kind: "component", summary: "Schema", file_refs: ["src/db.ts:1-20"] });
+    db.insertNode({ id: "storage", name: "Storage", kind: "module", summary: "SQLite", file_refs: ["src/db.ts"] });
+    db.insertNode({ id: "web", name: "Web", kind: "module", summary: "Explorer", file_refs: ["src/web.ts"] });
+    db.insertNode({ id: "cli", name: "CLI", kind: "module", summary: "Commands" });
+    db.insertNode({ id: "docs", name: "Docs", kind: "module", summary: "README" });
+    db.insertEdge({ from_id: "web", to_id: "queries", relation: "calls" });
+    db.insertEdge({ from_id: "cli", to_id: "web", relation: "depends_on" });
+    db.insertEdge({ from_id: "docs", to_id: "storage", relation: "connects_to" });
+
+    const result = impactOfChanges(db, { range: "HEAD~1..HEAD" }, { root: repo });
+    expect(result.concepts.map((c) => [c.id, c.impact, c.score])).toEqual([
+      ["queries", "direct", 1],
+      ["storage", "direct", 0.8],
+      ["web", "indirect", 0.45],
+      ["migrations", "direct", 0.4],
+      ["cli", "indirect", 0.225],
+    ]);
+    expect(result.concepts[0].refs).toEqual(["src/db.ts:40-60"]);
+    expect(result.concepts.find((c) => c.id === "cli")?.path).toEqual([
+      { from: "web", relation: "calls", to: "queries" },
+      { from: "cli", relation: "depends_on", to: "web" },
+    ]);
+    expect(result.unreferenced_files).toEqual(["src/new.ts"]);
+    expect(result.message).toBe("Changes to 2 files affect 3 concepts directly and 2 through dependencies");
+
+    const direct = impactOfChanges(db, { range: "HEAD~1..HEAD", max_hops: 0, limit: 1 }, { root: repo });
+    expect(direct.concepts.map((c) => c.id)).toEqual(["queries"]);
+    expect(direct.total).toBe(3);
+  });
+});
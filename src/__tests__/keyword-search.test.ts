@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { buildFtsQuery, understand } from "../tools.js";
+import { embed } from "../embeddings.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+function vector(values: number[]): Buffer {
+  const embedding = new Float32Array(values);
+  return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+}
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(async () => vector([1, 0, 0])),
+  embeddingText: vi.fn(),
+  // Unit vectors in these tests, so the dot product is the cosine similarity
+  findTopK: vi.fn(
+    (query: Buffer, candidates: Array<{ id: string; embedding: Buffer | null }>, topK: number) => {
+      const q = new Float32Array(query.buffer, query.byteOffset, query.byteLength / 4);
+      return candidates
+        .filter((c) => c.embedding !== null)
+        .map((c) => {
+          const v = new Float32Array(c.embedding!.buffer, c.embedding!.byteOffset, c.embedding!.byteLength / 4);
+          return { id: c.id, similarity: q.reduce((sum, x, i) => sum + x * v[i], 0) };
+        })
+        .sort((a, b) => b.similarity - a.similarity)
+        .slice(0, topK);
+    }
+  ),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-keyword-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  // "overview" is semantically closest to the query vector but never mentions the identifier
+  db.insertNode({
+    id: "overview",
+    name: "Overview",
+    kind: "feature",
+    summary: "High level architecture notes",
+    embedding: vector([1, 0, 0]),
+  });
+  db.insertNode({
+    id: "retry",
+    name: "Retry helper",
+    kind: "pattern",
+    summary: "runWithRetry wraps flaky network calls with exponential backoff",
+    embedding: vector([0, 1, 0]),
+  });
+  db.insertNode({
+    id: "db-config",
+    name: "Database config",
+    kind: "config",
+    summary: "Where the knowledge graph lives on disk",
+    why: "Override with MEGAMEMORY_DB_PATH for tests",
+    file_refs: ["src/db.ts:1-40"],
+    embedding: vector([0, 0, 1]),
+  });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("buildFtsQuery", () => {
+  it("quotes each term as a prefix phrase and ORs them", () => {
+    expect(buildFtsQuery('MEGAMEMORY_DB_PATH say "hi"')).toBe(
+      '"MEGAMEMORY_DB_PATH"* OR "say"* OR """hi"""*'
+    );
+  });
+
+  it("returns null for text without searchable characters", () => {
+    expect(buildFtsQuery("  -- ?? ")).toBeNull();
+  });
+});
+
+describe("keyword index", () => {
+  it("finds identifiers in summary, why, and file_refs", () => {
+    expect(db.searchKeyword(buildFtsQuery("runWithRetry")!, 10).map((m) => m.id)).toEqual(["retry"]);
+    expect(db.searchKeyword(buildFtsQuery("MEGAMEMORY_DB_PATH")!, 10).map((m) => m.id)).toEqual([
+      "db-config",
+    ]);
+    expect(db.searchKeyword(buildFtsQuery("src/db.ts")!, 10).map((m) => m.id)).toEqual(["db-config"]);
+  });
+
+  it("stays in sync with updates, renames, and soft deletes", () => {
+    db.updateNode("retry", { summary: "withBackoff helper" });
+    expect(db.searchKeyword(buildFtsQuery("runWithRetry")!, 10)).toEqual([]);
+
+    db.renameNodeId("retry", "backoff");
+    expect(db.searchKeyword(buildFtsQuery("withBackoff")!, 10).map((m) => m.id)).toEqual(["backoff"]);
+
+    db.softDeleteNode("backoff", "gone");
+    expect(db.searchKeyword(buildFtsQuery("withBackoff")!, 10)).toEqual([]);
+  });
+});
+
+describe("understand modes", () => {
+  it("keyword mode ranks by full-text match without embedding the query", async () => {
+    vi.mocked(embed).mockClear();
+
+    const result = await understand(db, { query: "runWithRetry", mode: "keyword" });
+
+    expect(result.matches.map((m) => m.id)).toEqual(["retry"]);
+    expect(result.matches[0].keyword_score).toBeGreaterThan(0);
+    expect(result.matches[0].similarity).toBeUndefined();
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it("semantic mode ignores keyword matches when ranking", async () => {
+    const result = await understand(db, { query: "runWithRetry", mode: "semantic", top_k: 1 });
+
+    expect(result.matches.map((m) => m.id)).toEqual(["overview"]);
+    expect(result.matches[0].keyword_score).toBeUndefined();
+    expect(result.matches[0].similarity).toBeGreaterThan(0);
+  });
+
+  it("defaults to hybrid mode", async () => {
+    const byDefault = await understand(db, { query: "runWithRetry" });
+    const hybrid = await understand(db, { query: "runWithRetry", mode: "hybrid" });
+    const semantic = await understand(db, { query: "runWithRetry", mode: "semantic" });
+
+    expect(byDefault).toEqual(hybrid);
+    expect(byDefault.matches.map((m) => m.id)).not.toEqual(semantic.matches.map((m) => m.id));
+  });
+
+  it("hybrid mode lifts exact identifier matches above semantic neighbours", async () => {
+    const result = await understand(db, { query: "runWithRetry" });
+
+    expect(result.matches[0].id).toBe("retry");
+    expect(result.matches[0].similarity).toBeCloseTo(0);
+    expect(result.matches.map((m) => m.id)).toContain("overview");
+  });
+});
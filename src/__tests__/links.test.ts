@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { link, unlink, updateLink } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(),
+  embeddingText: vi.fn(),
+  findTopK: vi.fn(),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function insertTestNode(id: string): void {
+  db.insertNode({ id, name: id, kind: "module", summary: `Summary for ${id}` });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-links-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  insertTestNode("web");
+  insertTestNode("db");
+  link(db, { from: "web", to: "db", relation: "calls", description: "reads nodes" });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("unlink tool", () => {
+  it("removes an existing relationship", () => {
+    const result = unlink(db, { from: "web", to: "db", relation: "calls", reason: "wrong direction" });
+
+    expect(result.message).toContain("Reason: wrong direction");
+    expect(db.getOutgoingEdges("web")).toHaveLength(0);
+  });
+
+  it("throws when the relationship does not exist", () => {
+    expect(() =>
+      unlink(db, { from: "web", to: "db", relation: "depends_on", reason: "x" })
+    ).toThrow('Relationship "depends_on" from "web" to "db" not found.');
+  });
+
+  it("validates both endpoints like link does", () => {
+    expect(() =>
+      unlink(db, { from: "missing", to: "db", relation: "calls", reason: "x" })
+    ).toThrow('Source concept "missing" not found.');
+    expect(() =>
+      unlink(db, { from: "web", to: "missing", relation: "calls", reason: "x" })
+    ).toThrow('Target concept "missing" not found.');
+  });
+});
+
+describe("updateLink tool", () => {
+  it("changes the description in place", () => {
+    const before = db.getEdge("web", "db", "calls")!;
+
+    updateLink(db, { from: "web", to: "db", relation: "calls", changes: { description: "reads and writes nodes" } });
+
+    const after = db.getEdge("web", "db", "calls")!;
+    expect(after.id).toBe(before.id);
+    expect(after.description).toBe("reads and writes nodes");
+  });
+
+  it("changes the relation type in place", () => {
+    const result = updateLink(db, { from: "web", to: "db", relation: "calls", changes: { relation: "depends_on" } });
+
+    expect(result.message).toBe('Updated depends_on link from "web" to "db"');
+    expect(db.getEdge("web", "db", "calls")).toBeUndefined();
+    const edge = db.getEdge("web", "db", "depends_on")!;
+    expect(edge.description).toBe("reads nodes");
+  });
+
+  it("refuses to collide with an existing relationship of the new type", () => {
+    link(db, { from: "web", to: "db", relation: "depends_on" });
+
+    expect(() =>
+      updateLink(db, { from: "web", to: "db", relation: "calls", changes: { relation: "depends_on" } })
+    ).toThrow(/already exists/);
+  });
+
+  it("replaces a tombstoned relationship of the new type", () => {
+    // Removing a concept tombstones its edges; a merge can carry such a tombstone in next to a live edge
+    db.insertEdgeRaw({
+      from_id: "web",
+      to_id: "db",
+      relation: "depends_on",
+      description: "old wiring",
+      created_at: "2024-01-01 00:00:00",
+      removed_at: "2024-01-02 00:00:00",
+    });
+
+    const result = updateLink(db, { from: "web", to: "db", relation: "calls", changes: { relation: "depends_on" } });
+
+    expect(result.message).toBe('Updated depends_on link from "web" to "db"');
+    expect(db.getEdge("web", "db", "depends_on")!.description).toBe("reads nodes");
+
+    // Only the updated edge comes back after a remove/restore cycle
+    db.softDeleteNode("db", "split up");
+    expect(db.restoreNode("db").edgesRestored).toBe(1);
+    expect(db.getOutgoingEdges("web").map((e) => [e.relation, e.description])).toEqual([["depends_on", "reads nodes"]]);
+  });
+
+  it("throws when the relationship does not exist", () => {
+    expect(() =>
+      updateLink(db, { from: "db", to: "web", relation: "calls", changes: { description: "x" } })
+    ).toThrow(/not found/);
+  });
+});
@@ -325,6 +325,38 @@ describe("MergeEngine", () => {
       expect(edges[0].to_id).toBe("node-b");
       output.close();
     });
+
+    it("keeps revision history from both sides, following conflict copies", () => {
+      const left = createTmpDb("left.db");
+      const right = createTmpDb("right.db");
+      const outputPath = path.join(tmpDir, "output.db");
+
+      insertTestNode(left.db, "node-a", { summary: "A v1" });
+      left.db.updateNode("node-a", { summary: "A v2" });
+      insertTestNode(right.db, "node-b", { summary: "B v1" });
+      right.db.updateNode("node-b", { summary: "B v2" });
+      right.db.updateNode("node-b", { summary: "B v3" });
+
+      insertTestNode(left.db, "shared", { summary: "Shared v1" });
+      left.db.updateNode("shared", { summary: "Left edit" });
+      insertTestNode(right.db, "shared", { summary: "Shared v1" });
+      right.db.updateNode("shared", { summary: "Right edit" });
+
+      left.db.close();
+      right.db.close();
+
+      engine.merge(left.path, right.path, outputPath);
+
+      const output = new KnowledgeDB(outputPath);
+      expect(output.getNodeRevisions("node-a").map((r) => [r.revision, r.summary])).toEqual([[1, "A v1"]]);
+      expect(output.getNodeRevisions("node-b").map((r) => [r.revision, r.summary])).toEqual([
+        [1, "B v1"],
+        [2, "B v2"],
+      ]);
+      expect(output.getNodeRevisions(`shared${MERGE_SUFFIX_LEFT}`).map((r) => r.summary)).toEqual(["Shared v1"]);
+      expect(output.getNodeRevisions(`shared${MERGE_SUFFIX_RIGHT}`).map((r) => r.summary)).toEqual(["Shared v1"]);
+      output.close();
+    });
   });
 
   describe("concept conflicts", () => {
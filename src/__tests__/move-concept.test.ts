@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { moveConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(),
+  embeddingText: vi.fn(),
+  findTopK: vi.fn(),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function addNode(id: string, parent_id?: string): void {
+  db.insertNode({ id, name: id, kind: "module", summary: `Summary of ${id}`, parent_id });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-move-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  addNode("auth");
+  addNode("auth/tokens", "auth");
+  addNode("auth/tokens/refresh", "auth/tokens");
+  addNode("billing");
+  addNode("api");
+  db.insertEdge({ from_id: "api", to_id: "auth/tokens/refresh", relation: "calls" });
+  db.insertEdge({ from_id: "auth/tokens", to_id: "billing", relation: "depends_on" });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("moveConcept", () => {
+  it("renames the concept and its descendants under the new parent", () => {
+    const result = moveConcept(db, { id: "auth/tokens", new_parent_id: "billing" });
+
+    expect(result.new_id).toBe("billing/tokens");
+    expect(result.renamed).toEqual([
+      { from: "auth/tokens", to: "billing/tokens" },
+      { from: "auth/tokens/refresh", to: "billing/tokens/refresh" },
+    ]);
+    expect(db.getNode("auth/tokens")).toBeUndefined();
+    expect(db.getNode("billing/tokens")!.parent_id).toBe("billing");
+    expect(db.getNode("billing/tokens/refresh")!.parent_id).toBe("billing/tokens");
+  });
+
+  it("rewrites edges to follow the renamed IDs", () => {
+    moveConcept(db, { id: "auth/tokens", new_parent_id: "billing" });
+
+    expect(db.getIncomingEdges("billing/tokens/refresh").map((e) => e.from_id)).toEqual(["api"]);
+    expect(db.getOutgoingEdges("billing/tokens").map((e) => e.to_id)).toEqual(["billing"]);
+  });
+
+  it("moves a concept to the top level", () => {
+    const result = moveConcept(db, { id: "auth/tokens", new_parent_id: null });
+
+    expect(result.new_id).toBe("tokens");
+    expect(db.getNode("tokens")!.parent_id).toBeNull();
+    expect(db.getNode("tokens/refresh")!.parent_id).toBe("tokens");
+  });
+
+  it("rejects moves that create a parent cycle", () => {
+    expect(() => moveConcept(db, { id: "auth", new_parent_id: "auth/tokens/refresh" })).toThrow(
+      /parent cycle/
+    );
+    expect(() => moveConcept(db, { id: "auth", new_parent_id: "auth" })).toThrow(/parent cycle/);
+    expect(db.getNode("auth/tokens")!.parent_id).toBe("auth");
+  });
+
+  it("rejects moves deeper than the maximum depth", () => {
+    addNode("billing/invoices", "billing");
+
+    expect(() =>
+      moveConcept(db, { id: "auth/tokens", new_parent_id: "billing/invoices" })
+    ).toThrow(/depth 4 \(max 3\)/);
+    expect(() =>
+      moveConcept(db, { id: "auth/tokens", new_parent_id: "billing/invoices" }, { maxDepth: 4 })
+    ).not.toThrow();
+  });
+
+  it("rejects moves whose new IDs already exist and leaves the graph untouched", () => {
+    addNode("billing/tokens", "billing");
+
+    expect(() => moveConcept(db, { id: "auth/tokens", new_parent_id: "billing" })).toThrow(
+      /"billing\/tokens" already exists/
+    );
+    expect(db.getNode("auth/tokens/refresh")!.parent_id).toBe("auth/tokens");
+  });
+});
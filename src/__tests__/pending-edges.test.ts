@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { MergeEngine } from "../merge.js";
+import { createConcept, listPendingEdges, moveConcept, removeConcept, restoreConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-pending-edges-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  setEmbeddingProvider({
+    id: "fake:constant",
+    dimensions: 3,
+    async initialize() {},
+    async embed(texts) {
+      return texts.map(() => new Float32Array([1, 0, 0]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("pending edges", () => {
+  it("reports edges to unknown concepts and creates them with the target", async () => {
+    const created = await createConcept(db, {
+      name: "Checkout",
+      kind: "feature",
+      summary: "Cart to order",
+      edges: [
+        { to: "billing", relation: "depends_on", description: "Charges the card" },
+        { to: "catalog", relation: "calls" },
+      ],
+    });
+    expect(created.message).toBe(
+      'Created concept "checkout". 2 edges pending until their targets exist: depends_on "billing", calls "catalog"'
+    );
+    expect(created.pending_edges).toEqual([
+      { to: "billing", relation: "depends_on" },
+      { to: "catalog", relation: "calls" },
+    ]);
+    expect(listPendingEdges(db).pending_edges.map((e) => `${e.from}->${e.to}`)).toEqual([
+      "checkout->billing",
+      "checkout->catalog",
+    ]);
+
+    const billing = await createConcept(db, { name: "Billing", kind: "module", summary: "Invoices" });
+    expect(billing.message).toBe('Created concept "billing". Connected pending edge: "checkout" depends_on "billing"');
+    expect(billing.connected_edges).toEqual([{ from: "checkout", relation: "depends_on" }]);
+    expect(db.getOutgoingEdges("checkout").map((e) => [e.to_id, e.description])).toEqual([
+      ["billing", "Charges the card"],
+    ]);
+    expect(listPendingEdges(db).pending_edges.map((e) => e.to)).toEqual(["catalog"]);
+  });
+
+  it("hides pending edges from removed concepts and keeps them from materializing", async () => {
+    await createConcept(db, {
+      name: "Checkout",
+      kind: "feature",
+      summary: "Cart to order",
+      edges: [{ to: "billing", relation: "depends_on" }],
+    });
+    removeConcept(db, { id: "checkout", reason: "Replaced" });
+    expect(listPendingEdges(db).pending_edges).toEqual([]);
+
+    const billing = await createConcept(db, { name: "Billing", kind: "module", summary: "Invoices" });
+    expect(billing.connected_edges).toBeUndefined();
+  });
+
+  it("connects edges pending on a removed concept when it is restored", async () => {
+    await createConcept(db, { name: "Billing", kind: "module", summary: "Invoices" });
+    removeConcept(db, { id: "billing", reason: "Folded into payments" });
+    await createConcept(db, {
+      name: "Checkout",
+      kind: "feature",
+      summary: "Cart to order",
+      edges: [{ to: "billing", relation: "depends_on" }],
+    });
+    expect(listPendingEdges(db).pending_edges.map((e) => e.to)).toEqual(["billing"]);
+
+    expect(restoreConcept(db, { id: "billing" }).restored_edges).toBe(1);
+    expect(db.getOutgoingEdges("checkout").map((e) => e.to_id)).toEqual(["billing"]);
+    expect(listPendingEdges(db).pending_edges).toEqual([]);
+  });
+
+  it("connects edges waiting for the ID a concept is moved to", async () => {
+    await createConcept(db, { name: "Payments", kind: "module", summary: "Money in and out" });
+    await createConcept(db, { name: "Billing", kind: "module", summary: "Invoices" });
+    await createConcept(db, {
+      name: "Checkout",
+      kind: "feature",
+      summary: "Cart to order",
+      edges: [{ to: "payments/billing", relation: "depends_on" }],
+    });
+
+    moveConcept(db, { id: "billing", new_parent_id: "payments" });
+    expect(db.getOutgoingEdges("checkout").map((e) => e.to_id)).toEqual(["payments/billing"]);
+    expect(listPendingEdges(db).pending_edges).toEqual([]);
+  });
+
+  it("carries pending edges through a merge and connects those the other side resolves", async () => {
+    await createConcept(db, {
+      name: "Checkout",
+      kind: "feature",
+      summary: "Cart to order",
+      edges: [{ to: "billing", relation: "depends_on" }],
+    });
+    db.close();
+
+    const rightPath = path.join(tmpDir, "right.db");
+    const right = new KnowledgeDB(rightPath);
+    right.insertNode({ id: "billing", name: "Billing", kind: "module", summary: "Invoices" });
+    right.close();
+
+    const outputPath = path.join(tmpDir, "merged.db");
+    new MergeEngine().merge(path.join(tmpDir, "knowledge.db"), rightPath, outputPath);
+    db = new KnowledgeDB(outputPath);
+
+    expect(db.getOutgoingEdges("checkout").map((e) => e.to_id)).toEqual(["billing"]);
+    expect(listPendingEdges(db).pending_edges).toEqual([]);
+  });
+});
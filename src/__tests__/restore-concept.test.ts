@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { removeConcept, restoreConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+vi.mock("../embeddings.js", () => ({
+  embed: vi.fn(),
+  embeddingText: vi.fn(),
+  findTopK: vi.fn(),
+}));
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function insertTestNode(id: string, parentId: string | null = null): void {
+  db.insertNode({
+    id,
+    name: id,
+    kind: "feature",
+    summary: `Summary for ${id}`,
+    parent_id: parentId,
+  });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-restore-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("restoreConcept tool", () => {
+  it("undoes remove_concept including edges in both directions", () => {
+    insertTestNode("a");
+    insertTestNode("b");
+    insertTestNode("c");
+    db.insertEdge({ from_id: "a", to_id: "b", relation: "calls" });
+    db.insertEdge({ from_id: "c", to_id: "a", relation: "depends_on" });
+
+    removeConcept(db, { id: "a", reason: "mistake" });
+    const result = restoreConcept(db, { id: "a" });
+
+    expect(result.restored_edges).toBe(2);
+    expect(result.message).toContain('Restored concept "a" with 2 edges.');
+    const node = db.getNode("a")!;
+    expect(node.removed_at).toBeNull();
+    expect(node.removed_reason).toBeNull();
+    expect(db.getOutgoingEdges("a").map((e) => e.to_id)).toEqual(["b"]);
+    expect(db.getIncomingEdges("a").map((e) => e.from_id)).toEqual(["c"]);
+  });
+
+  it("warns when the parent is still removed", () => {
+    insertTestNode("parent");
+    insertTestNode("parent/child", "parent");
+    removeConcept(db, { id: "parent/child", reason: "gone" });
+    removeConcept(db, { id: "parent", reason: "gone" });
+
+    const result = restoreConcept(db, { id: "parent/child" });
+
+    expect(result.message).toContain('Parent "parent" is still removed');
+  });
+
+  it("rejects active and unknown concepts", () => {
+    insertTestNode("active");
+
+    expect(() => restoreConcept(db, { id: "active" })).toThrow(/is not removed/);
+    expect(() => restoreConcept(db, { id: "missing" })).toThrow(/not found/);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { parseFileRef } from "../file-refs.js";
+import { findStaleConcepts, getStaleness, parseDbTimestamp } from "../staleness.js";
+import { listRoots, verifyConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function writeFile(relative: string, mtime: number): void {
+  const file = path.join(tmpDir, relative);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, "");
+  fs.utimesSync(file, mtime / 1000, mtime / 1000);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-staleness-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("parseFileRef", () => {
+  it("strips line ranges in both supported styles", () => {
+    expect(parseFileRef("src/db.ts:10-42")).toEqual({ raw: "src/db.ts:10-42", path: "src/db.ts", startLine: 10, endLine: 42 });
+    expect(parseFileRef("src/db.ts#L7")).toEqual({ raw: "src/db.ts#L7", path: "src/db.ts", startLine: 7 });
+    expect(parseFileRef("src/db.ts")).toEqual({ raw: "src/db.ts", path: "src/db.ts" });
+  });
+});
+
+describe("getStaleness", () => {
+  const verifiedAt = "2025-03-01 12:00:00";
+  const checked = parseDbTimestamp(verifiedAt);
+  const node = (file_refs: string[] | null = null) => ({
+    updated_at: "2025-01-01 00:00:00",
+    last_verified_at: verifiedAt,
+    file_refs: file_refs ? JSON.stringify(file_refs) : null,
+  });
+
+  it("flags concepts unverified for the configured number of days", () => {
+    const options = { staleAfterDays: 30, root: tmpDir };
+    expect(getStaleness(node(), { ...options, now: checked + 29 * DAY_MS })).toBeNull();
+    expect(getStaleness(node(), { ...options, now: checked + 30 * DAY_MS })).toEqual({
+      last_verified_at: verifiedAt,
+      days_since_verified: 30,
+      changed_files: [],
+    });
+  });
+
+  it("flags file_refs modified or deleted since verification", () => {
+    writeFile("src/old.ts", checked - DAY_MS);
+    writeFile("src/new.ts", checked + DAY_MS);
+    const options = { staleAfterDays: 30, root: tmpDir, now: checked + 2 * DAY_MS };
+
+    expect(getStaleness(node(["src/old.ts:1-20"]), options)).toBeNull();
+    expect(getStaleness(node(["src/old.ts", "src/new.ts:5", "src/gone.ts"]), options)?.changed_files).toEqual([
+      "src/new.ts:5",
+      "src/gone.ts",
+    ]);
+  });
+
+  it("counts never-verified concepts from their last update", () => {
+    const stale = getStaleness(
+      { ...node(), last_verified_at: null },
+      { staleAfterDays: 30, root: tmpDir, now: parseDbTimestamp("2025-02-15 00:00:00") }
+    );
+    expect(stale).toEqual({ last_verified_at: null, days_since_verified: 45, changed_files: [] });
+  });
+});
+
+describe("verify_concept", () => {
+  it("clears staleness and is reported by list_roots until then", () => {
+    db.insertNode({ id: "auth", name: "Auth", kind: "module", summary: "Login" });
+    db.insertNode({ id: "auth/tokens", name: "Tokens", kind: "module", summary: "JWT", parent_id: "auth" });
+    const options = { staleAfterDays: 1, root: tmpDir, now: Date.now() + 2 * DAY_MS };
+
+    const before = listRoots(db, {}, { staleness: options });
+    expect(before.stale_concepts).toBe(2);
+    expect(before.roots[0].stale?.days_since_verified).toBe(2);
+
+    expect(verifyConcept(db, { id: "auth", verified_by: "session-42" }).message).toBe('Verified concept "auth"');
+    expect(db.getNode("auth")?.verified_by).toBe("session-42");
+
+    const after = listRoots(db, {}, { staleness: { ...options, now: Date.now() } });
+    expect(after.roots[0].stale).toBeUndefined();
+    // Verification ages like any other check
+    expect(findStaleConcepts(db, options).map((c) => c.id).sort()).toEqual(["auth", "auth/tokens"]);
+  });
+
+  it("rejects unknown concepts", () => {
+    expect(() => verifyConcept(db, { id: "nope" })).toThrow('Concept "nope" not found.');
+  });
+});
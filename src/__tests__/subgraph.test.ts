@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { collectSubgraph } from "../graph.js";
+import { getSubgraph } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-subgraph-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+
+  // web → api → db ← cache, db → sqlite, and config configures api
+  for (const id of ["web", "api", "db", "cache", "sqlite", "config"]) {
+    db.insertNode({ id, name: id.toUpperCase(), kind: "module", summary: `${id} module` });
+  }
+  db.insertEdge({ from_id: "web", to_id: "api", relation: "calls", description: "fetches JSON" });
+  db.insertEdge({ from_id: "api", to_id: "db", relation: "depends_on", description: null });
+  db.insertEdge({ from_id: "cache", to_id: "db", relation: "calls", description: null });
+  db.insertEdge({ from_id: "db", to_id: "sqlite", relation: "depends_on", description: null });
+  db.insertEdge({ from_id: "api", to_id: "config", relation: "configured_by", description: null });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("collectSubgraph", () => {
+  it("walks both directions by default and records each concept's depth", () => {
+    const { nodes, truncated } = collectSubgraph(db, "db", { depth: 1 });
+    expect(nodes).toEqual([
+      { id: "db", depth: 0 },
+      { id: "api", depth: 1 },
+      { id: "cache", depth: 1 },
+      { id: "sqlite", depth: 1 },
+    ]);
+    expect(truncated).toBe(false);
+  });
+
+  it("follows only the requested direction and relations", () => {
+    const out = collectSubgraph(db, "web", { depth: 3, direction: "out" }).nodes.map((n) => n.id);
+    expect(out).toEqual(["web", "api", "config", "db", "sqlite"]);
+
+    const into = collectSubgraph(db, "db", { depth: 3, direction: "in" }).nodes.map((n) => n.id);
+    expect(into).toEqual(["db", "api", "cache", "web"]);
+
+    const calls = collectSubgraph(db, "db", { depth: 3, relations: ["calls"] }).nodes.map((n) => n.id);
+    expect(calls).toEqual(["db", "cache"]);
+  });
+
+  it("keeps the nearest concepts when max_nodes cuts the walk short", () => {
+    const { nodes, truncated } = collectSubgraph(db, "db", { depth: 3, max_nodes: 3 });
+    expect(nodes.map((n) => n.id)).toEqual(["db", "api", "cache"]);
+    expect(truncated).toBe(true);
+  });
+});
+
+describe("getSubgraph", () => {
+  it("returns each concept and edge once", () => {
+    const result = getSubgraph(db, { root: "api", depth: 1 });
+
+    expect(result.nodes.map((n) => [n.id, n.depth])).toEqual([
+      ["api", 0],
+      ["config", 1],
+      ["db", 1],
+      ["web", 1],
+    ]);
+    expect(result.nodes[0]).toMatchObject({ name: "API", kind: "module", summary: "api module", parent_id: null });
+    expect(result.edges).toEqual([
+      { from: "api", to: "db", relation: "depends_on", description: null },
+      { from: "api", to: "config", relation: "configured_by", description: null },
+      { from: "web", to: "api", relation: "calls", description: "fetches JSON" },
+    ]);
+    expect(result.message).toBe('4 concepts and 3 edges within 1 hop of "api"');
+  });
+
+  it("includes edges between collected concepts that the walk did not take", () => {
+    db.insertEdge({ from_id: "sqlite", to_id: "web", relation: "connects_to", description: null });
+    const result = getSubgraph(db, { root: "web", depth: 2, direction: "out" });
+    expect(result.nodes.map((n) => n.id)).toEqual(["web", "api", "config", "db"]);
+    expect(result.edges.map((e) => `${e.from}->${e.to}`)).not.toContain("sqlite->web");
+
+    const wider = getSubgraph(db, { root: "web", depth: 3, direction: "out" });
+    expect(wider.edges.map((e) => `${e.from}->${e.to}`)).toContain("sqlite->web");
+  });
+
+  it("resolves aliases, skips removed concepts and rejects unknown roots", () => {
+    db.addAlias("storage", "db", "name");
+    db.softDeleteNode("cache", "gone");
+    const result = getSubgraph(db, { root: "storage", depth: 1 });
+    expect(result.root).toBe("db");
+    expect(result.resolved_alias).toEqual({ alias: "storage", id: "db" });
+    expect(result.nodes.map((n) => n.id)).toEqual(["db", "api", "sqlite"]);
+
+    expect(() => getSubgraph(db, { root: "nowhere" })).toThrow('Concept "nowhere" not found.');
+  });
+});
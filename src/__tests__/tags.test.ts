@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { setEmbeddingProvider } from "../embeddings.js";
+import { MergeEngine } from "../merge.js";
+import { createConcept, getConcept, listRoots, understand, updateConcept } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+function addNode(target: KnowledgeDB, id: string, tags: string[] = [], parent_id?: string): void {
+  target.insertNode({ id, name: id, kind: "module", summary: `Handles ${id} tokens`, parent_id });
+  if (tags.length > 0) target.setTags(id, tags);
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-tags-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+  setEmbeddingProvider({
+    id: "fake:constant",
+    dimensions: 3,
+    async initialize() {},
+    async embed(texts) {
+      return texts.map(() => new Float32Array([1, 0, 0]));
+    },
+  });
+});
+
+afterEach(() => {
+  setEmbeddingProvider(null);
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("tagging concepts", () => {
+  it("normalizes tags on create and replaces them on update", async () => {
+    const { id } = await createConcept(db, {
+      name: "Auth",
+      kind: "module",
+      summary: "Login flow",
+      tags: [" Security ", "legacy", "security"],
+    });
+    expect(getConcept(db, { id }).tags).toEqual(["legacy", "security"]);
+
+    const updated = await updateConcept(db, { id, changes: { tags: ["perf-critical"] } });
+    expect(updated.message).toBe('Updated concept "auth"');
+    expect(getConcept(db, { id }).tags).toEqual(["perf-critical"]);
+
+    const unchanged = await updateConcept(db, { id, changes: { tags: ["PERF-CRITICAL"] } });
+    expect(unchanged.message).toBe('No changes applied to "auth"');
+  });
+
+  it("rejects tags that are not simple labels", async () => {
+    await expect(
+      createConcept(db, { name: "Auth", kind: "module", summary: "Login flow", tags: ["needs review"] })
+    ).rejects.toThrow('Invalid tag "needs review"');
+    expect(db.nodeExists("auth")).toBe(false);
+  });
+});
+
+describe("tag filters", () => {
+  beforeEach(() => {
+    addNode(db, "auth", ["security"]);
+    addNode(db, "auth/legacy-login", ["security", "legacy"], "auth");
+    addNode(db, "billing");
+    addNode(db, "billing/cache", ["perf-critical"], "billing");
+    addNode(db, "search", ["legacy"]);
+  });
+
+  it("filters understand results by included and excluded tags", async () => {
+    const query = { query: "tokens", mode: "keyword" as const };
+
+    const security = await understand(db, { ...query, tags: ["security"] });
+    expect(security.matches.map((m) => m.id).sort()).toEqual(["auth", "auth/legacy-login"]);
+
+    const notLegacy = await understand(db, { ...query, tags: ["security"], exclude_tags: ["legacy"] });
+    expect(notLegacy.matches.map((m) => m.id)).toEqual(["auth"]);
+    expect(notLegacy.matches[0].tags).toEqual(["security"]);
+  });
+
+  it("keeps roots with matching children in list_roots", () => {
+    const result = listRoots(db, { tags: ["perf-critical"] });
+    expect(result.roots.map((r) => [r.id, r.children])).toEqual([["billing", ["billing/cache"]]]);
+
+    const withoutLegacy = listRoots(db, { exclude_tags: ["legacy"] });
+    expect(withoutLegacy.roots.map((r) => [r.id, r.children])).toEqual([
+      ["auth", []],
+      ["billing", ["billing/cache"]],
+    ]);
+  });
+});
+
+describe("tags across merges", () => {
+  function mergeWithRight(setupRight: (right: KnowledgeDB) => void): void {
+    const rightPath = path.join(tmpDir, "right.db");
+    const right = new KnowledgeDB(rightPath);
+    setupRight(right);
+    right.close();
+
+    const leftPath = path.join(tmpDir, "knowledge.db");
+    const outputPath = path.join(tmpDir, "merged.db");
+    db.close();
+    new MergeEngine().merge(leftPath, rightPath, outputPath);
+    db = new KnowledgeDB(outputPath);
+  }
+
+  it("carries tags from both sides", () => {
+    addNode(db, "auth", ["security"]);
+    mergeWithRight((right) => {
+      addNode(right, "auth", ["security"]);
+      addNode(right, "payments", ["pci"]);
+    });
+
+    expect(db.getTagsForNode("auth")).toEqual(["security"]);
+    expect(db.getTagsForNode("payments")).toEqual(["pci"]);
+  });
+
+  it("treats differing tags as a concept conflict", () => {
+    addNode(db, "auth", ["security"]);
+    mergeWithRight((right) => addNode(right, "auth", ["legacy"]));
+
+    expect(db.getNode("auth")).toBeUndefined();
+    expect(db.getTagsForNode("auth::left")).toEqual(["security"]);
+    expect(db.getTagsForNode("auth::right")).toEqual(["legacy"]);
+  });
+});
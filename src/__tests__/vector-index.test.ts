@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { VectorIndex } from "../vector-index.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+const DIM = 16;
+
+let db: KnowledgeDB;
+let dbPath: string;
+let tmpDir: string;
+let index: VectorIndex;
+
+/** Deterministic pseudo-random vector for a seed. */
+function randomVector(seed: number): number[] {
+  let state = seed * 2654435761;
+  return Array.from({ length: DIM }, () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  });
+}
+
+function toBuffer(values: number[]): Buffer {
+  const embedding = new Float32Array(values);
+  return Buffer.from(embedding.buffer, embedding.byteOffset, embedding.byteLength);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0, na = 0, nb = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    na += a[i] * a[i];
+    nb += b[i] * b[i];
+  }
+  return dot / Math.sqrt(na * nb);
+}
+
+function addNode(id: string, values: number[]): void {
+  db.insertNode({ id, name: id, kind: "feature", summary: id, embedding: toBuffer(values) });
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-vector-index-test-"));
+  dbPath = path.join(tmpDir, "knowledge.db");
+  db = new KnowledgeDB(dbPath);
+  for (let i = 0; i < 300; i++) {
+    addNode(`node-${i}`, randomVector(i + 1));
+  }
+  index = new VectorIndex(db);
+});
+
+afterEach(() => {
+  index.close();
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("VectorIndex", () => {
+  it("returns the same top-K as a full scan", () => {
+    const query = randomVector(9999);
+    const expected = Array.from({ length: 300 }, (_, i) => ({
+      id: `node-${i}`,
+      similarity: cosine(query, randomVector(i + 1)),
+    }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, 5);
+
+    const result = index.search(toBuffer(query), 5);
+
+    expect(result.map((m) => m.id)).toEqual(expected.map((m) => m.id));
+    result.forEach((m, i) => expect(m.similarity).toBeCloseTo(expected[i].similarity, 5));
+  });
+
+  it("applies inserts, updates, removals, and renames made through the same connection", () => {
+    const target = randomVector(4242);
+    expect(index.size).toBe(300);
+
+    addNode("fresh", target);
+    expect(index.search(toBuffer(target), 1)[0].id).toBe("fresh");
+
+    db.updateNode("node-0", { embedding: toBuffer(target.map((v) => v * 2)) });
+    db.softDeleteNode("fresh", "superseded");
+    expect(index.search(toBuffer(target), 1)[0]).toMatchObject({ id: "node-0" });
+    expect(index.size).toBe(300);
+
+    db.renameNodeId("node-0", "renamed");
+    expect(index.search(toBuffer(target), 1)[0].id).toBe("renamed");
+
+    db.hardDeleteNode("renamed");
+    expect(index.size).toBe(299);
+    expect(index.search(toBuffer(target), 300).map((m) => m.id)).not.toContain("renamed");
+  });
+
+  it("reloads after another connection writes to the database", () => {
+    const target = randomVector(777);
+    expect(index.search(toBuffer(target), 1)[0].id).not.toBe("from-other-process");
+
+    const other = new KnowledgeDB(dbPath);
+    other.insertNode({
+      id: "from-other-process",
+      name: "Other",
+      kind: "feature",
+      summary: "Written elsewhere",
+      embedding: toBuffer(target),
+    });
+    other.close();
+
+    expect(index.search(toBuffer(target), 1)[0].id).toBe("from-other-process");
+  });
+
+  it("approximate mode still finds a near-duplicate of the query", () => {
+    const approximate = new VectorIndex(db, { approximate: true, candidatesPerResult: 1 });
+    for (let i = 300; i < 600; i++) {
+      addNode(`node-${i}`, randomVector(i + 1));
+    }
+    const query = randomVector(123).map((v, i) => (i === 0 ? v + 0.01 : v));
+
+    const result = approximate.search(toBuffer(query), 3);
+
+    expect(result).toHaveLength(3);
+    expect(result[0].id).toBe("node-122");
+    approximate.close();
+  });
+
+  it("skips vectors whose dimension differs from the query", () => {
+    expect(index.search(toBuffer([1, 0, 0]), 1)).toEqual([]);
+    expect(index.size).toBe(0);
+
+    addNode("new-model", [0, 1, 0]);
+    expect(index.search(toBuffer([0, 1, 0]), 5).map((m) => m.id)).toEqual(["new-model"]);
+
+    expect(index.search(toBuffer(randomVector(1)), 1)[0].id).toBe("node-0");
+    expect(index.size).toBe(300);
+  });
+});
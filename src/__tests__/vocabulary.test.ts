@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { readConfigFile } from "../config.js";
+import {
+  buildVocabulary,
+  customVocabulary,
+  describeRelations,
+  getRecordedVocabulary,
+  kindNames,
+  recordVocabulary,
+} from "../vocabulary.js";
+import { MergeEngine } from "../merge.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let tmpDir: string;
+
+function writeConfig(name: string, config: unknown): string {
+  const configPath = path.join(tmpDir, name);
+  fs.writeFileSync(configPath, JSON.stringify(config));
+  return configPath;
+}
+
+function createDbWithVocabulary(name: string, config: Parameters<typeof buildVocabulary>[0]): string {
+  const dbPath = path.join(tmpDir, name);
+  const db = new KnowledgeDB(dbPath);
+  recordVocabulary(db, customVocabulary(buildVocabulary(config)));
+  db.insertNode({ id: `${name}-node`, name: "Node", kind: "feature", summary: "A node" });
+  db.close();
+  return dbPath;
+}
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-vocabulary-test-"));
+});
+
+afterEach(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("config file", () => {
+  it("treats a missing file as an empty config", () => {
+    expect(readConfigFile(path.join(tmpDir, "missing.json"))).toEqual({});
+  });
+
+  it("rejects invalid names with the offending key", () => {
+    const configPath = writeConfig("config.json", { kinds: { "Run Book": { description: "Ops steps" } } });
+    expect(() => readConfigFile(configPath)).toThrow(/kinds\.Run Book/);
+  });
+});
+
+describe("buildVocabulary", () => {
+  it("appends custom kinds and relations after the built-ins", () => {
+    const configPath = writeConfig("config.json", {
+      kinds: {
+        service: { description: "A deployable service", color: "#123456" },
+        runbook: { description: "Operational procedure" },
+      },
+      relations: { supersedes: { description: "A replaces B" } },
+    });
+    const vocabulary = buildVocabulary(readConfigFile(configPath));
+
+    expect(kindNames(vocabulary)).toEqual([
+      "feature", "module", "pattern", "config", "decision", "component", "service", "runbook",
+    ]);
+    expect(vocabulary.kinds.find((k) => k.name === "service")?.color).toBe("#123456");
+    expect(vocabulary.kinds.find((k) => k.name === "runbook")?.color).toMatch(/^#[0-9a-f]{6}$/);
+    expect(describeRelations(vocabulary)).toContain("supersedes (A replaces B)");
+  });
+
+  it("refuses to redefine a built-in name", () => {
+    expect(() => buildVocabulary({ relations: { calls: { description: "Phone calls" } } })).toThrow(
+      'Custom relation "calls" conflicts with a built-in relation.'
+    );
+  });
+});
+
+describe("merge vocabulary check", () => {
+  it("records the union of compatible vocabularies in the output", () => {
+    const left = createDbWithVocabulary("left.db", { kinds: { service: { description: "A deployable service" } } });
+    const right = createDbWithVocabulary("right.db", {
+      kinds: { service: { description: "A deployable service" } },
+      relations: { tested_by: { description: "A is covered by tests in B" } },
+    });
+    const output = path.join(tmpDir, "out.db");
+
+    new MergeEngine().merge(left, right, output);
+
+    const db = new KnowledgeDB(output);
+    expect(getRecordedVocabulary(db)).toEqual({
+      kinds: { service: "A deployable service" },
+      relations: { tested_by: "A is covered by tests in B" },
+    });
+    db.close();
+  });
+
+  it("rejects databases that declare the same name with different meanings", () => {
+    const left = createDbWithVocabulary("left.db", { kinds: { api: { description: "HTTP endpoint" } } });
+    const right = createDbWithVocabulary("right.db", { kinds: { api: { description: "Public SDK surface" } } });
+    const output = path.join(tmpDir, "out.db");
+
+    expect(() => new MergeEngine().merge(left, right, output)).toThrow(/conflicting vocabularies.*kind "api"/);
+    expect(fs.existsSync(output)).toBe(false);
+  });
+
+  it("warns about custom names that neither database declares", () => {
+    const left = createDbWithVocabulary("left.db", { kinds: { service: { description: "A deployable service" } } });
+    const right = createDbWithVocabulary("right.db", {});
+    const db = new KnowledgeDB(right);
+    db.insertNode({ id: "billing", name: "Billing", kind: "service", summary: "Declared on the left" });
+    db.insertNode({ id: "runbook", name: "Runbook", kind: "runbook", summary: "Declared nowhere" });
+    db.insertEdge({ from_id: "runbook", to_id: "billing", relation: "supersedes", description: null });
+    db.close();
+
+    const result = new MergeEngine().merge(left, right, path.join(tmpDir, "out.db"));
+
+    expect(result.warnings).toEqual([
+      `right uses kind "runbook", which neither database's recorded vocabulary declares`,
+      `right uses relation "supersedes", which neither database's recorded vocabulary declares`,
+    ]);
+  });
+});
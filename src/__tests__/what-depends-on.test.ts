@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { KnowledgeDB } from "../db.js";
+import { dependentsClosure } from "../graph.js";
+import { whatDependsOn } from "../tools.js";
+import fs from "fs";
+import path from "path";
+import os from "os";
+
+let db: KnowledgeDB;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "megamemory-what-depends-on-test-"));
+  db = new KnowledgeDB(path.join(tmpDir, "knowledge.db"));
+
+  // storage ← api/handlers ← web/explorer, storage ← cli (calls), mcp implements api/handlers
+  for (const id of ["storage", "api", "web", "cli", "mcp", "docs"]) {
+    db.insertNode({ id, name: id.toUpperCase(), kind: "module", summary: `${id} module` });
+  }
+  db.insertNode({ id: "api/handlers", name: "Handlers", kind: "component", summary: "Routes", parent_id: "api" });
+  db.insertNode({ id: "web/explorer", name: "Explorer", kind: "component", summary: "Canvas", parent_id: "web" });
+  db.insertEdge({ from_id: "api/handlers", to_id: "storage", relation: "depends_on", description: null });
+  db.insertEdge({ from_id: "web/explorer", to_id: "api/handlers", relation: "calls", description: null });
+  db.insertEdge({ from_id: "cli", to_id: "storage", relation: "calls", description: null });
+  db.insertEdge({ from_id: "mcp", to_id: "api/handlers", relation: "implements", description: null });
+  // Not a reliance relation
+  db.insertEdge({ from_id: "docs", to_id: "storage", relation: "connects_to", description: null });
+});
+
+afterEach(() => {
+  db.close();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe("dependentsClosure", () => {
+  it("collects transitive dependents with the depth and edge that reached them", () => {
+    const { dependents, cycles } = dependentsClosure(db, "storage");
+    expect(dependents).toEqual([
+      { id: "api/handlers", depth: 1, via: { from: "api/handlers", relation: "depends_on", to: "storage" } },
+      { id: "cli", depth: 1, via: { from: "cli", relation: "calls", to: "storage" } },
+      { id: "mcp", depth: 2, via: { from: "mcp", relation: "implements", to: "api/handlers" } },
+      { id: "web/explorer", depth: 2, via: { from: "web/explorer", relation: "calls", to: "api/handlers" } },
+    ]);
+    expect(cycles).toEqual([]);
+  });
+
+  it("stops at max depth", () => {
+    expect(dependentsClosure(db, "storage", 1).dependents.map((d) => d.id)).toEqual(["api/handlers", "cli"]);
+  });
+
+  it("reports each cycle once, listing every concept before what it relies on", () => {
+    db.insertEdge({ from_id: "storage", to_id: "web/explorer", relation: "depends_on", description: null });
+    const { dependents, cycles } = dependentsClosure(db, "storage");
+    expect(dependents.map((d) => d.id)).not.toContain("storage");
+    expect(cycles).toEqual([["api/handlers", "storage", "web/explorer"]]);
+  });
+});
+
+describe("whatDependsOn", () => {
+  it("groups dependents by their top-level ancestor", () => {
+    const result = whatDependsOn(db, { id: "storage" });
+    expect(result.total).toBe(4);
+    expect(result.groups.map((g) => [g.root.id, g.dependents.map((d) => d.id)])).toEqual([
+      ["api", ["api/handlers"]],
+      ["cli", ["cli"]],
+      ["mcp", ["mcp"]],
+      ["web", ["web/explorer"]],
+    ]);
+    expect(result.groups[0].dependents[0]).toMatchObject({ name: "Handlers", kind: "component", depth: 1 });
+    expect(result.message).toBe('4 concepts depend on "storage", up to 2 hops away, under 4 top-level concepts');
+  });
+
+  it("ignores removed concepts and reports concepts nothing depends on", () => {
+    db.softDeleteNode("api/handlers", "merged into storage");
+    const result = whatDependsOn(db, { id: "storage" });
+    expect(result.groups.map((g) => g.root.id)).toEqual(["cli"]);
+
+    expect(whatDependsOn(db, { id: "docs" }).message).toBe('0 concepts depend on "docs"');
+    expect(() => whatDependsOn(db, { id: "nowhere" })).toThrow('Concept "nowhere" not found.');
+  });
+
+  it("groups a dependent whose parent was removed under its nearest live ancestor", () => {
+    db.softDeleteNode("web", "split up");
+    const result = whatDependsOn(db, { id: "storage" });
+    expect(result.groups.map((g) => g.root.id)).toEqual(["api", "cli", "mcp", "web/explorer"]);
+  });
+});
@@ -0,0 +1,99 @@
+import type { AttributeInput, AttributeRow, AttributeType, AttributeValue, Attributes } from "./types.js";
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/** ISO 8601 date, optionally with a time and offset. */
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Concept fields that find_concepts filters address directly. Attributes may
+ * not reuse these names, so `kind=module` is never ambiguous.
+ */
+export const RESERVED_ATTRIBUTE_KEYS = ["id", "name", "kind", "summary", "parent", "tag"];
+
+export function normalizeAttributeKey(raw: string): string {
+  const key = raw.trim();
+  if (!KEY_PATTERN.test(key)) {
+    throw new Error(
+      `Invalid attribute key "${raw}". Keys are lowercase letters, digits and underscores, starting with a letter.`
+    );
+  }
+  if (RESERVED_ATTRIBUTE_KEYS.includes(key)) {
+    throw new Error(`Attribute key "${key}" is reserved for the concept's own ${key} field.`);
+  }
+  return key;
+}
+
+function isDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(value));
+}
+
+/**
+ * Parse a literal into a value of the given type, or undefined if it does not
+ * fit. Used both for explicit typed input and for filter comparisons.
+ */
+export function coerceAttributeValue(type: AttributeType, raw: AttributeValue): AttributeValue | undefined {
+  switch (type) {
+    case "number": {
+      const value = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (raw === "true" || raw === "false") return raw === "true";
+      return undefined;
+    case "date": {
+      const value = String(raw).trim();
+      return isDate(value) ? value : undefined;
+    }
+    default:
+      return String(raw);
+  }
+}
+
+/**
+ * Validate a caller-supplied value and return its type and stored text form.
+ */
+export function encodeAttribute(
+  key: string,
+  input: Exclude<AttributeInput, null>
+): { type: AttributeType; value: string } {
+  let type: AttributeType;
+  let raw: AttributeValue;
+  if (typeof input === "object") {
+    type = input.type;
+    raw = input.value;
+  } else {
+    raw = input;
+    type =
+      typeof input === "number" ? "number"
+      : typeof input === "boolean" ? "boolean"
+      : isDate(input.trim()) ? "date"
+      : "string";
+  }
+
+  const value = coerceAttributeValue(type, raw);
+  if (value === undefined) {
+    throw new Error(`Invalid ${type} for attribute "${key}": ${JSON.stringify(raw)}.`);
+  }
+  return { type, value: String(value) };
+}
+
+export function decodeAttribute(type: AttributeType, value: string): AttributeValue {
+  switch (type) {
+    case "number":
+      return Number(value);
+    case "boolean":
+      return value === "true";
+    default:
+      return value;
+  }
+}
+
+export function attributesFromRows(rows: AttributeRow[]): Attributes {
+  const attributes: Attributes = {};
+  for (const row of rows) {
+    attributes[row.key] = decodeAttribute(row.type, row.value);
+  }
+  return attributes;
+}
@@ -0,0 +1,171 @@
+import { KnowledgeDB } from "./db.js";
+import { embedBatch, embeddingText } from "./embeddings.js";
+import {
+  applyCreateConcept,
+  applyUpdateConcept,
+  link,
+  makeId,
+  removeConcept,
+  resolveConceptId,
+  updatedEmbeddingText,
+} from "./tools.js";
+import type { BatchInput, BatchOperation, BatchOutput, BatchResult, NodeRow } from "./types.js";
+
+type ConceptText = Pick<NodeRow, "name" | "kind" | "summary">;
+
+interface PlannedOperation {
+  operation: BatchOperation;
+  /** Text to embed for this operation, if it needs an embedding. */
+  text: string | null;
+  embedding?: Buffer;
+}
+
+function describe(index: number, operation: BatchOperation): string {
+  return `operations[${index}] (${operation.op})`;
+}
+
+/**
+ * Replace `$ref` IDs with the concepts earlier creates in the batch named
+ * that way, and work out which texts need embedding. Runs before anything
+ * is written so bad references fail without a model call.
+ */
+function planBatch(db: KnowledgeDB, operations: BatchOperation[]): PlannedOperation[] {
+  const refs = new Map<string, string>();
+  // Name, kind and summary of concepts as they will be once earlier operations apply
+  const texts = new Map<string, ConceptText>();
+
+  function resolveRef(value: string, index: number, operation: BatchOperation): string {
+    if (!value.startsWith("$")) return value;
+    const id = refs.get(value.slice(1));
+    if (id === undefined) {
+      throw new Error(
+        `${describe(index, operation)}: unknown reference "${value}". References must name a create earlier in the batch.`
+      );
+    }
+    return id;
+  }
+
+  function currentText(id: string): ConceptText | undefined {
+    const planned = texts.get(id);
+    if (planned) return planned;
+    let resolved: string;
+    try {
+      resolved = resolveConceptId(db, id).id;
+    } catch {
+      // Ambiguous aliases are reported when the operation applies
+      return undefined;
+    }
+    return texts.get(resolved) ?? db.getNode(resolved);
+  }
+
+  return operations.map((operation, index) => {
+    const ref = (value: string) => resolveRef(value, index, operation);
+
+    switch (operation.op) {
+      case "create": {
+        const { ref: name, ...input } = operation;
+        const parentId = input.parent_id ? ref(input.parent_id) : input.parent_id;
+        const id = makeId(input.name, parentId || undefined);
+        if (name !== undefined) {
+          if (refs.has(name)) {
+            throw new Error(`${describe(index, operation)}: reference "${name}" is already defined.`);
+          }
+          refs.set(name, id);
+        }
+        texts.set(id, { name: input.name, kind: input.kind, summary: input.summary });
+        return {
+          operation: {
+            ...input,
+            parent_id: parentId,
+            ...(input.edges ? { edges: input.edges.map((edge) => ({ ...edge, to: ref(edge.to) })) } : {}),
+          },
+          text: embeddingText(input.name, input.kind, input.summary),
+        };
+      }
+      case "update": {
+        const id = ref(operation.id);
+        const current = currentText(id);
+        // Unknown targets get no text; applying the update reports them
+        const text = current ? updatedEmbeddingText(current, operation.changes) : null;
+        if (current) {
+          texts.set(id, {
+            name: operation.changes.name ?? current.name,
+            kind: operation.changes.kind ?? current.kind,
+            summary: operation.changes.summary ?? current.summary,
+          });
+        }
+        return { operation: { ...operation, id }, text };
+      }
+      case "link":
+        return { operation: { ...operation, from: ref(operation.from), to: ref(operation.to) }, text: null };
+      case "remove":
+        return { operation: { ...operation, id: ref(operation.id) }, text: null };
+    }
+  });
+}
+
+function applyOperation(db: KnowledgeDB, planned: PlannedOperation, index: number): BatchResult {
+  const { operation, embedding } = planned;
+  switch (operation.op) {
+    case "create": {
+      const { op, ...input } = operation;
+      const result = applyCreateConcept(db, input, embedding!);
+      return { index, op, id: result.id, message: result.message };
+    }
+    case "update": {
+      const { op, ...input } = operation;
+      const result = applyUpdateConcept(db, input, embedding);
+      return { index, op, id: resolveConceptId(db, input.id).id, message: result.message };
+    }
+    case "link": {
+      const { op, ...input } = operation;
+      const result = link(db, input);
+      return {
+        index,
+        op,
+        from: resolveConceptId(db, input.from).id,
+        to: resolveConceptId(db, input.to).id,
+        message: result.message,
+      };
+    }
+    case "remove": {
+      const { op, ...input } = operation;
+      const result = removeConcept(db, input);
+      return { index, op, id: input.id, message: result.message };
+    }
+  }
+}
+
+/**
+ * Apply create/update/link/remove operations in order as one transaction.
+ * Every text that needs embedding goes to the model in a single call before
+ * the transaction starts. If any operation fails, nothing is written.
+ */
+export async function batch(db: KnowledgeDB, input: BatchInput): Promise<BatchOutput> {
+  if (input.operations.length === 0) {
+    throw new Error("Batch has no operations.");
+  }
+
+  const planned = planBatch(db, input.operations);
+  const needsEmbedding = planned.filter((step) => step.text !== null);
+  const embeddings = await embedBatch(needsEmbedding.map((step) => step.text!));
+  needsEmbedding.forEach((step, i) => {
+    step.embedding = embeddings[i];
+  });
+
+  const results = db.runInTransaction(() =>
+    planned.map((step, index) => {
+      try {
+        return applyOperation(db, step, index);
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        throw new Error(`${describe(index, step.operation)} failed: ${message} No changes were applied.`);
+      }
+    })
+  );
+
+  return {
+    results,
+    message: `Applied ${results.length} operation${results.length !== 1 ? "s" : ""}`,
+  };
+}
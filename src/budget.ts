@@ -0,0 +1,219 @@
+import type {
+  BudgetReport,
+  GetConceptOutput,
+  ListRootsOutput,
+  NodeWithContext,
+  UnderstandOutput,
+} from "./types.js";
+
+/** Summaries are cut to this many characters when shortened for a budget. */
+export const SUMMARY_LIMIT = 160;
+
+/**
+ * Rough token count of a tool response: four characters of the
+ * pretty-printed JSON per token, the same estimate `megamemory stats` uses.
+ */
+export function estimateTokens(value: unknown): number {
+  return Math.ceil(JSON.stringify(value, null, 2).length / 4);
+}
+
+function truncate(text: string, limit: number): string {
+  return text.length <= limit ? text : `${text.slice(0, limit - 1).trimEnd()}…`;
+}
+
+/**
+ * One compaction step. Returns a description of what it elided, or null if
+ * there was nothing to remove. `fits` reports whether the output is within
+ * budget yet, for steps that remove items one at a time.
+ */
+type Stage<T> = (value: T, fits: () => boolean) => string | null;
+
+/**
+ * Apply compaction stages in order until the output fits `maxTokens`.
+ * Output that already fits is returned untouched; otherwise a compacted
+ * copy is returned with a `budget` report. The report counts toward the
+ * budget. If every stage runs and it still does not fit, the smallest
+ * version is returned anyway.
+ */
+function fitToBudget<T extends object>(
+  value: T,
+  maxTokens: number,
+  stages: Array<Stage<T>>,
+  hint: string
+): T & { budget?: BudgetReport } {
+  if (estimateTokens(value) <= maxTokens) return value;
+
+  const compact = structuredClone(value);
+  const elided: string[] = [];
+  const report = (): BudgetReport => ({ max_tokens: maxTokens, estimated_tokens: maxTokens, elided, hint });
+  const fits = () => estimateTokens({ ...compact, budget: report() }) <= maxTokens;
+
+  for (const stage of stages) {
+    if (fits()) break;
+    const note = stage(compact, fits);
+    if (note) elided.push(note);
+  }
+
+  const result = { ...compact, budget: report() };
+  result.budget.estimated_tokens = estimateTokens(result);
+  return result;
+}
+
+// ---- Node-level steps ----
+
+function dropEdgeDescriptions(nodes: NodeWithContext[]): string | null {
+  let dropped = 0;
+  for (const node of nodes) {
+    for (const edge of [...node.edges, ...node.incoming_edges]) {
+      if (edge.description !== null) {
+        edge.description = null;
+        dropped++;
+      }
+    }
+  }
+  return dropped > 0 ? `descriptions of ${dropped} edge${dropped !== 1 ? "s" : ""}` : null;
+}
+
+function collapseChildren(node: NodeWithContext): boolean {
+  if (node.children.length === 0) return false;
+  node.children_count = node.children.length;
+  node.children = [];
+  return true;
+}
+
+function collapseIncomingEdges(node: NodeWithContext): boolean {
+  if (node.incoming_edges.length === 0) return false;
+  node.incoming_edge_count = node.incoming_edges.length;
+  node.incoming_edges = [];
+  return true;
+}
+
+function collapseEdges(node: NodeWithContext): boolean {
+  if (node.edges.length === 0) return false;
+  node.edge_count = node.edges.length;
+  node.edges = [];
+  return true;
+}
+
+function shorten(node: { summary: string; why?: string | null }): boolean {
+  let changed = false;
+  const summary = truncate(node.summary, SUMMARY_LIMIT);
+  if (summary !== node.summary) {
+    node.summary = summary;
+    changed = true;
+  }
+  if (node.why) {
+    node.why = null;
+    changed = true;
+  }
+  return changed;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count !== 1 ? "s" : ""}`;
+}
+
+// ---- Per-tool budgets ----
+
+/**
+ * Compact an understand response: edge descriptions go first, then the
+ * detail of every match but the best one, then child and incoming-edge
+ * lists, and finally the lowest-ranked concepts themselves.
+ */
+export function fitUnderstand(output: UnderstandOutput, maxTokens: number): UnderstandOutput {
+  const all = (value: UnderstandOutput) => [...value.matches, ...(value.expanded ?? [])];
+  return fitToBudget(
+    output,
+    maxTokens,
+    [
+      (value) => dropEdgeDescriptions(all(value)),
+      (value) => {
+        const shortened = all(value).slice(1).filter(shorten).length;
+        return shortened > 0
+          ? `why and summaries past ${SUMMARY_LIMIT} chars for ${plural(shortened, "lower-ranked concept")}`
+          : null;
+      },
+      (value) => {
+        const nodes = all(value);
+        const collapsed = nodes.filter((node) => [collapseChildren(node), collapseIncomingEdges(node)].some(Boolean)).length;
+        return collapsed > 0 ? `children and incoming edges of ${plural(collapsed, "concept")} (counts kept)` : null;
+      },
+      (value, fits) => {
+        const dropped: string[] = [];
+        while (!fits() && value.expanded && value.expanded.length > 0) {
+          dropped.push(value.expanded.pop()!.id);
+        }
+        while (!fits() && value.matches.length > 1) {
+          dropped.push(value.matches.pop()!.id);
+        }
+        return dropped.length > 0 ? `${plural(dropped.length, "lower-ranked concept")}: ${dropped.reverse().join(", ")}` : null;
+      },
+    ],
+    "Call get_concept with an ID for its full record, narrow the query, or raise max_tokens."
+  );
+}
+
+/**
+ * Compact a get_concept response, keeping the concept's own fields longest:
+ * edge descriptions, then incoming edges, children and outgoing edges
+ * (as counts), then why, then the summary.
+ */
+export function fitConcept(output: GetConceptOutput, maxTokens: number): GetConceptOutput {
+  return fitToBudget(
+    output,
+    maxTokens,
+    [
+      (value) => dropEdgeDescriptions([value]),
+      (value) => (collapseIncomingEdges(value) ? "incoming edges (count kept)" : null),
+      (value) => (collapseChildren(value) ? "children (count kept)" : null),
+      (value) => (collapseEdges(value) ? "outgoing edges (count kept)" : null),
+      (value) => {
+        if (!value.why) return null;
+        value.why = null;
+        return "why";
+      },
+      (value) => {
+        const summary = truncate(value.summary, SUMMARY_LIMIT);
+        if (summary === value.summary) return null;
+        value.summary = summary;
+        return `summary past ${SUMMARY_LIMIT} chars`;
+      },
+    ],
+    "Raise max_tokens for the full record; linked concepts and children can be fetched with get_concept."
+  );
+}
+
+/**
+ * Compact a list_roots response: shorten summaries, collapse child names
+ * to counts, then drop roots from the end of the list.
+ */
+export function fitRoots<T extends ListRootsOutput>(output: T, maxTokens: number): T {
+  return fitToBudget(
+    output,
+    maxTokens,
+    [
+      (value) => {
+        const shortened = value.roots.filter((root) => shorten(root)).length;
+        return shortened > 0 ? `summaries past ${SUMMARY_LIMIT} chars for ${plural(shortened, "root")}` : null;
+      },
+      (value) => {
+        let collapsed = 0;
+        for (const root of value.roots) {
+          if (root.children.length === 0) continue;
+          root.children_count = root.children.length;
+          root.children = [];
+          collapsed++;
+        }
+        return collapsed > 0 ? `child names of ${plural(collapsed, "root")} (counts kept)` : null;
+      },
+      (value, fits) => {
+        const dropped: string[] = [];
+        while (!fits() && value.roots.length > 1) {
+          dropped.push(value.roots.pop()!.id);
+        }
+        return dropped.length > 0 ? `${plural(dropped.length, "root")}: ${dropped.reverse().join(", ")}` : null;
+      },
+    ],
+    "Call get_concept on a root for its children, filter with tags, or raise max_tokens."
+  );
+}
@@ -0,0 +1,201 @@
+import { execFileSync } from "child_process";
+import { randomUUID } from "crypto";
+import fs from "fs";
+import path from "path";
+import { KnowledgeDB } from "./db.js";
+import { parseFileRef } from "./file-refs.js";
+import type { TimelineLogger } from "./timeline.js";
+import type { FileRefRow } from "./types.js";
+
+/** Renames followed in a row before giving up, e.g. a.ts → b.ts → c.ts. */
+const MAX_RENAME_HOPS = 10;
+
+/** Files added in a deleting commit that are checked as rename targets. */
+const MAX_RENAME_CANDIDATES = 20;
+
+export interface CheckRefsOptions {
+  /** Directory relative file_refs resolve against; git runs here too. */
+  root: string;
+}
+
+export type RefIssueKind = "missing" | "past_eof" | "renamed";
+
+export const ISSUE_LABELS: Record<RefIssueKind, string> = {
+  missing: "missing",
+  past_eof: "past EOF",
+  renamed: "renamed",
+};
+
+export interface RefIssue {
+  id: string;
+  ref: string;
+  issue: RefIssueKind;
+  detail: string;
+  /** Current path of a renamed file. */
+  renamed_to?: string;
+  /** The rewritten reference, when check_refs was asked to fix renames. */
+  fixed_ref?: string;
+}
+
+export interface CheckRefsOutput {
+  checked: number;
+  issues: RefIssue[];
+  fixed: number;
+  message: string;
+}
+
+/** Run git in `root`; null when it fails or git is unavailable. */
+function git(root: string, args: string[]): string | null {
+  try {
+    return execFileSync("git", args, { cwd: root, encoding: "utf8", stdio: ["ignore", "pipe", "ignore"] });
+  } catch {
+    return null;
+  }
+}
+
+function lines(output: string | null): string[] {
+  return output ? output.split("\n").filter(Boolean) : [];
+}
+
+/**
+ * Where a deleted file lives now, following renames through git history.
+ * The commit that deleted the path is found first; of the files it added,
+ * the one whose `git log --follow` history includes the old path is the new
+ * name. Repeats while the new name is gone too. Null if no rename is found.
+ */
+export function findRename(root: string, oldPath: string): string | null {
+  let current = oldPath;
+  for (let hop = 0; hop < MAX_RENAME_HOPS; hop++) {
+    const [commit] = lines(git(root, ["log", "-1", "--format=%H", "--diff-filter=D", "--", current]));
+    if (!commit) return null;
+
+    const base = path.posix.basename(current);
+    const added = lines(git(root, ["show", "--relative", "--no-renames", "--format=", "--name-only", "--diff-filter=A", commit]))
+      .sort((a, b) => Number(path.posix.basename(b) === base) - Number(path.posix.basename(a) === base))
+      .slice(0, MAX_RENAME_CANDIDATES);
+    const next = added.find((candidate) =>
+      lines(git(root, ["log", "--relative", "--follow", "--name-only", "--format=", "--", candidate])).includes(current)
+    );
+    if (!next) return null;
+    if (fs.existsSync(path.join(root, next))) return next;
+    current = next;
+  }
+  return null;
+}
+
+/** Whether something exists at `file`, and its line count if it is a file. */
+function inspectFile(file: string): { exists: boolean; lines: number | null } {
+  try {
+    if (!fs.statSync(file).isFile()) return { exists: true, lines: null };
+  } catch {
+    return { exists: false, lines: null };
+  }
+  const text = fs.readFileSync(file, "utf8");
+  const count = text.length === 0 ? 0 : text.split("\n").length - (text.endsWith("\n") ? 1 : 0);
+  return { exists: true, lines: count };
+}
+
+/** The reference with its path swapped, keeping the line range and symbol. */
+function replaceRefPath(ref: string, newPath: string): string {
+  const trimmed = ref.trim();
+  return `${newPath}${trimmed.slice(parseFileRef(trimmed).path.length)}`;
+}
+
+/**
+ * Check every file reference of active concepts against the working tree:
+ * the file must exist and its line range must fit. Missing files are looked
+ * up in git history, and reported as renamed when found. With `fix`, renamed
+ * paths are rewritten in the concepts' file_refs, keeping line ranges and
+ * symbols, in one transaction.
+ */
+export function checkRefs(
+  db: KnowledgeDB,
+  input: { fix?: boolean },
+  options: CheckRefsOptions
+): CheckRefsOutput {
+  const rows = db.getFileRefs();
+  const issues: Array<RefIssue & { row: FileRefRow }> = [];
+  const renames = new Map<string, string | null>();
+  const files = new Map<string, { exists: boolean; lines: number | null }>();
+
+  for (const row of rows) {
+    const file = path.isAbsolute(row.path) ? row.path : path.join(options.root, row.path);
+    if (!files.has(file)) files.set(file, inspectFile(file));
+    const { exists, lines: lineCount } = files.get(file)!;
+
+    if (!exists) {
+      if (!renames.has(row.path)) {
+        renames.set(row.path, path.isAbsolute(row.path) ? null : findRename(options.root, row.path));
+      }
+      const renamedTo = renames.get(row.path);
+      issues.push(
+        renamedTo
+          ? { row, id: row.node_id, ref: row.ref, issue: "renamed", detail: `${row.path} was renamed to ${renamedTo}`, renamed_to: renamedTo }
+          : { row, id: row.node_id, ref: row.ref, issue: "missing", detail: `${row.path} does not exist` }
+      );
+      continue;
+    }
+
+    const lastLine = row.end_line ?? row.start_line;
+    if (lineCount !== null && lastLine !== null && lastLine > lineCount) {
+      issues.push({
+        row,
+        id: row.node_id,
+        ref: row.ref,
+        issue: "past_eof",
+        detail: `line ${lastLine} is past the end of ${row.path} (${lineCount} lines)`,
+      });
+    }
+  }
+
+  let fixed = 0;
+  if (input.fix) {
+    const renamed = issues.filter((issue) => issue.renamed_to);
+    db.runInTransaction(() => {
+      for (const id of new Set(renamed.map((issue) => issue.id))) {
+        const node = db.getNode(id)!;
+        const refs = JSON.parse(node.file_refs!) as string[];
+        for (const issue of renamed.filter((i) => i.id === id)) {
+          issue.fixed_ref = replaceRefPath(refs[issue.row.position], issue.renamed_to!);
+          refs[issue.row.position] = issue.fixed_ref;
+          fixed++;
+        }
+        db.updateNode(id, { file_refs: refs });
+      }
+    });
+  }
+
+  const counts = (Object.keys(ISSUE_LABELS) as RefIssueKind[])
+    .map((kind) => [kind, issues.filter((issue) => issue.issue === kind).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([kind, count]) => `${count} ${ISSUE_LABELS[kind]}`);
+  return {
+    checked: rows.length,
+    issues: issues.map(({ row: _row, ...issue }) => issue),
+    fixed,
+    message:
+      issues.length === 0
+        ? `All ${rows.length} file refs resolve`
+        : `${issues.length} of ${rows.length} file refs need attention (${counts.join(", ")})${fixed > 0 ? `; fixed ${fixed}` : ""}`,
+  };
+}
+
+/**
+ * Log each reference a fix run rewrote as its own timeline entry, grouped
+ * like the operations of a batch.
+ */
+export function logRefFixes(timeline: TimelineLogger, result: CheckRefsOutput, params: Record<string, unknown> = {}): void {
+  const group_id = randomUUID();
+  for (const issue of result.issues) {
+    if (!issue.fixed_ref) continue;
+    timeline.log({
+      tool: "check_refs",
+      params: { ...params, id: issue.id, ref: issue.ref },
+      result_summary: `Rewrote file ref "${issue.ref}" to "${issue.fixed_ref}"`,
+      is_write: true,
+      is_error: false,
+      affected_ids: [issue.id],
+      group_id,
+    });
+  }
+}
@@ -1,5 +1,6 @@
 import pc from "picocolors";
 import { createInterface } from "readline";
+import { loadConfig, type ConfigFile, type Settings } from "./config.js";
 
 // ---- Styled output helpers ----
 
@@ -191,6 +192,19 @@ export async function askPort(currentPort: number): Promise<number | null> {
   }
 }
 
+/**
+ * Resolve settings for a CLI command, exiting with a readable error when a
+ * config file or environment variable is invalid.
+ */
+export function loadSettings(overrides: ConfigFile = {}): Settings {
+  try {
+    return loadConfig({ overrides }).settings;
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
 /**
  * Validate a port number. Returns an error message or null if valid.
  */
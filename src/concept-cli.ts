@@ -0,0 +1,137 @@
+import fs from "fs";
+import { KnowledgeDB } from "./db.js";
+import { restoreConcept, moveConcept } from "./tools.js";
+import { createTimelineLogger } from "./timeline.js";
+import { errorBold, success, info, loadSettings } from "./cli-utils.js";
+
+// ---- Flag parsing helpers ----
+
+const BOOLEAN_FLAGS = new Set(["--root"]);
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  let i = 0;
+  while (i < args.length) {
+    if (BOOLEAN_FLAGS.has(args[i])) {
+      i++;
+    } else if (args[i].startsWith("--")) {
+      // Value flag — skip the flag and its value
+      i += 2;
+    } else {
+      positional.push(args[i]);
+      i++;
+    }
+  }
+  return positional;
+}
+
+function openDb(args: string[]): KnowledgeDB {
+  const dbPath = getFlag(args, "--db") ?? getDefaultDbPath();
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+  return new KnowledgeDB(dbPath);
+}
+
+// ---- restore command ----
+
+export async function runRestore(args: string[]): Promise<void> {
+  const positional = getPositionalArgs(args);
+
+  if (positional.length < 1) {
+    errorBold("Usage: megamemory restore <concept-id> [--db <path>]");
+    process.exit(1);
+  }
+
+  const id = positional[0];
+  const db = openDb(args);
+  const timeline = createTimelineLogger(db);
+  try {
+    const result = restoreConcept(db, { id });
+    timeline.log({
+      tool: "restore_concept",
+      params: { id, source: "cli" },
+      result_summary: `restored ${id} (${result.restored_edges} edges)`,
+      is_write: true,
+      is_error: false,
+      affected_ids: [id],
+    });
+    success(result.message);
+    if (result.restored_edges === 0) {
+      info(`No edges restored. Relationships to concepts that are still removed stay hidden.`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    timeline.log({
+      tool: "restore_concept",
+      params: { id, source: "cli" },
+      result_summary: message,
+      is_write: true,
+      is_error: true,
+      affected_ids: [],
+    });
+    errorBold(message);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+// ---- move command ----
+
+export async function runMove(args: string[]): Promise<void> {
+  const positional = getPositionalArgs(args);
+  const toRoot = args.includes("--root");
+
+  if (positional.length < 1 || (!toRoot && positional.length < 2)) {
+    errorBold("Usage: megamemory move <concept-id> <new-parent-id> [--db <path>]");
+    errorBold("       megamemory move <concept-id> --root [--db <path>]");
+    process.exit(1);
+  }
+
+  const id = positional[0];
+  const newParentId = toRoot ? null : positional[1];
+  const db = openDb(args);
+  const timeline = createTimelineLogger(db);
+  try {
+    const result = moveConcept(db, { id, new_parent_id: newParentId }, { maxDepth: loadSettings().max_depth });
+    timeline.log({
+      tool: "move_concept",
+      params: { id, new_parent_id: newParentId, source: "cli" },
+      result_summary: `moved ${result.old_id} → ${result.new_id}`,
+      is_write: true,
+      is_error: false,
+      affected_ids: result.renamed.length > 0 ? result.renamed.map((r) => r.to) : [result.new_id],
+    });
+    success(result.message);
+    for (const { from, to } of result.renamed.slice(1)) {
+      info(`${from} → ${to}`);
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    timeline.log({
+      tool: "move_concept",
+      params: { id, new_parent_id: newParentId, source: "cli" },
+      result_summary: message,
+      is_write: true,
+      is_error: true,
+      affected_ids: [],
+    });
+    errorBold(message);
+    process.exit(1);
+  } finally {
+    db.close();
+  }
+}
+
+// ---- helpers ----
+
+function getDefaultDbPath(): string {
+  return loadSettings().db_path;
+}
@@ -0,0 +1,143 @@
+import pc from "picocolors";
+import {
+  SETTINGS,
+  findSetting,
+  getPath,
+  loadConfig,
+  parseSettingValue,
+  readConfigFile,
+  setPath,
+  writeConfigFile,
+  type LoadedConfig,
+} from "./config.js";
+import { errorBold, success, info, warn } from "./cli-utils.js";
+
+function getPositionalArgs(args: string[]): string[] {
+  return args.filter((a) => !a.startsWith("--"));
+}
+
+function loadOrExit(): LoadedConfig {
+  try {
+    return loadConfig();
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+}
+
+function formatValue(value: unknown, secret = false): string {
+  if (value === undefined) return "(unset)";
+  if (secret) return "********";
+  if (Array.isArray(value)) return value.length > 0 ? value.join(",") : "(none)";
+  return String(value);
+}
+
+function unknownKey(key: string): never {
+  errorBold(`Unknown setting "${key}".`);
+  if (key === "kinds" || key === "relations" || key.startsWith("kinds.") || key.startsWith("relations.")) {
+    info(`Edit kinds and relations directly in .megamemory/config.json.`);
+  } else {
+    info(`Settings: ${SETTINGS.map((s) => s.key).join(", ")}`);
+  }
+  process.exit(1);
+}
+
+// ---- config command ----
+
+export async function runConfig(args: string[]): Promise<void> {
+  const [action, ...rest] = getPositionalArgs(args);
+
+  switch (action) {
+    case "list":
+    case undefined:
+      return runList(args);
+    case "get":
+      return runGet(rest);
+    case "set":
+      return runSet(rest, args.includes("--user"));
+    default:
+      errorBold(`Unknown config action '${action}'.`);
+      info("Usage: megamemory config list | get <key> | set <key> <value> [--user]");
+      process.exit(1);
+  }
+}
+
+function runList(args: string[]): void {
+  const loaded = loadOrExit();
+
+  if (args.includes("--json")) {
+    const entries = SETTINGS.map((spec) => {
+      const value = getPath(loaded.settings as unknown as Record<string, unknown>, spec.key);
+      return {
+        key: spec.key,
+        value: spec.secret && value !== undefined ? "********" : value ?? null,
+        source: loaded.sources[spec.key],
+      };
+    });
+    console.log(JSON.stringify({ settings: entries, kinds: loaded.settings.kinds, relations: loaded.settings.relations }, null, 2));
+    return;
+  }
+
+  console.log(pc.bold(pc.cyan("megamemory config")));
+  console.log();
+  info(`Project config: ${loaded.projectRoot ? loaded.projectConfigPath : pc.dim("(none found)")}`);
+  info(`User config:    ${loaded.userConfigPath}`);
+  console.log();
+
+  const width = Math.max(...SETTINGS.map((s) => s.key.length)) + 2;
+  for (const spec of SETTINGS) {
+    const value = getPath(loaded.settings as unknown as Record<string, unknown>, spec.key);
+    const source = loaded.sources[spec.key];
+    const sourceLabel = source === "env" && spec.env ? `env ${spec.env}` : source;
+    console.log(
+      `    ${pc.cyan(spec.key.padEnd(width))}${pc.green(formatValue(value, spec.secret))} ${pc.dim(`(${sourceLabel})`)}`
+    );
+  }
+
+  const kinds = Object.keys(loaded.settings.kinds);
+  const relations = Object.keys(loaded.settings.relations);
+  if (kinds.length > 0 || relations.length > 0) {
+    console.log();
+    if (kinds.length > 0) info(`Custom kinds:     ${kinds.join(", ")}`);
+    if (relations.length > 0) info(`Custom relations: ${relations.join(", ")}`);
+  }
+}
+
+function runGet(rest: string[]): void {
+  const key = rest[0];
+  if (!key) {
+    errorBold("Usage: megamemory config get <key>");
+    process.exit(1);
+  }
+  const spec = findSetting(key) ?? unknownKey(key);
+
+  const loaded = loadOrExit();
+  console.log(formatValue(getPath(loaded.settings as unknown as Record<string, unknown>, key), spec.secret));
+}
+
+function runSet(rest: string[], user: boolean): void {
+  const [key, raw] = rest;
+  if (!key || raw === undefined) {
+    errorBold("Usage: megamemory config set <key> <value> [--user]");
+    process.exit(1);
+  }
+  const spec = findSetting(key) ?? unknownKey(key);
+
+  const loaded = loadOrExit();
+  const configPath = user ? loaded.userConfigPath : loaded.projectConfigPath;
+  try {
+    const file = readConfigFile(configPath) as Record<string, unknown>;
+    setPath(file, key, parseSettingValue(spec, raw));
+    writeConfigFile(configPath, file);
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  success(`Set ${key} = ${formatValue(parseSettingValue(spec, raw), spec.secret)} in ${configPath}`);
+  if (spec.env && process.env[spec.env]) {
+    warn(`${spec.env} is set in the environment and takes precedence.`);
+  } else if (user && loaded.sources[key] === "project") {
+    warn(`The project config also sets ${key} and takes precedence.`);
+  }
+}
@@ -0,0 +1,332 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { embeddingConfigFromEnv } from "./embedding-providers.js";
+import { OUTPUT_FORMATS, type OutputFormat } from "./format.js";
+
+export const CONFIG_DIRNAME = ".megamemory";
+export const CONFIG_FILENAME = "config.json";
+
+const VOCABULARY_NAME = /^[a-z][a-z0-9_]*$/;
+
+const VocabularyEntrySchema = z.object({
+  description: z.string().min(1),
+});
+
+const KindEntrySchema = VocabularyEntrySchema.extend({
+  color: z
+    .string()
+    .regex(/^#[0-9a-fA-F]{6}$/, "must be a #rrggbb hex color")
+    .optional(),
+});
+
+const vocabularyNames = z
+  .string()
+  .regex(VOCABULARY_NAME, "must be lowercase letters, digits and underscores, starting with a letter");
+
+const EmbeddingSchema = z
+  .object({
+    provider: z.enum(["transformers", "openai"]).optional(),
+    model: z.string().min(1).optional(),
+    url: z.string().url().optional(),
+    api_key: z.string().min(1).optional(),
+    dimensions: z.number().int().min(1).optional(),
+  })
+  .strict();
+
+/**
+ * Shape of .megamemory/config.json and the user-level config file.
+ * Every key is optional; unset keys fall through to the next layer.
+ */
+export const ConfigFileSchema = z
+  .object({
+    /** knowledge.db location; relative paths resolve against the project root. */
+    db_path: z.string().min(1).optional(),
+    /** Default number of understand results. */
+    top_k: z.number().int().min(1).max(50).optional(),
+    /** Web explorer port. */
+    port: z.number().int().min(1).max(65535).optional(),
+    /** How often the web explorer checks the database for changes. */
+    sse_poll_interval_ms: z.number().int().min(100).optional(),
+    /** Maximum concept nesting depth (roots are depth 1). */
+    max_depth: z.number().int().min(1).optional(),
+    /** Days after which an unverified concept is reported as stale. */
+    stale_after_days: z.number().int().min(1).optional(),
+    /** Prefilter vector search candidates by SimHash. */
+    approximate_search: z.boolean().optional(),
+    /** Default MCP tool response format. */
+    output_format: z.enum(OUTPUT_FORMATS).optional(),
+    /** Targets `megamemory install` configures without prompting. */
+    install_targets: z.array(z.enum(["opencode", "claudecode", "antigravity", "codex"])).optional(),
+    embedding: EmbeddingSchema.optional(),
+    /** Extra concept kinds, keyed by name. */
+    kinds: z.record(vocabularyNames, KindEntrySchema).optional(),
+    /** Extra relation types, keyed by name. */
+    relations: z.record(vocabularyNames, VocabularyEntrySchema).optional(),
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+/** Fully resolved settings: every scalar has a value, vocabularies may be empty. */
+export interface Settings {
+  db_path: string;
+  top_k: number;
+  port: number;
+  sse_poll_interval_ms: number;
+  max_depth: number;
+  stale_after_days: number;
+  approximate_search: boolean;
+  output_format: OutputFormat;
+  install_targets: NonNullable<ConfigFile["install_targets"]>;
+  embedding: NonNullable<ConfigFile["embedding"]>;
+  kinds: NonNullable<ConfigFile["kinds"]>;
+  relations: NonNullable<ConfigFile["relations"]>;
+}
+
+export type ConfigSource = "default" | "user" | "project" | "env" | "cli";
+
+// ---- Scalar settings (what `megamemory config` manages) ----
+
+type ValueType = "string" | "integer" | "boolean" | "list";
+
+interface SettingSpec {
+  key: string;
+  type: ValueType;
+  description: string;
+  env?: string;
+  secret?: boolean;
+}
+
+export const SETTINGS: readonly SettingSpec[] = [
+  { key: "db_path", type: "string", env: "MEGAMEMORY_DB_PATH", description: "knowledge.db location" },
+  { key: "top_k", type: "integer", env: "MEGAMEMORY_TOP_K", description: "Default number of understand results" },
+  { key: "port", type: "integer", env: "MEGAMEMORY_PORT", description: "Web explorer port" },
+  { key: "sse_poll_interval_ms", type: "integer", env: "MEGAMEMORY_SSE_POLL_MS", description: "Web explorer change polling interval" },
+  { key: "max_depth", type: "integer", env: "MEGAMEMORY_MAX_DEPTH", description: "Maximum concept nesting depth" },
+  { key: "stale_after_days", type: "integer", env: "MEGAMEMORY_STALE_AFTER_DAYS", description: "Days before an unverified concept counts as stale" },
+  { key: "approximate_search", type: "boolean", env: "MEGAMEMORY_APPROXIMATE_SEARCH", description: "SimHash prefilter for vector search" },
+  { key: "output_format", type: "string", env: "MEGAMEMORY_OUTPUT_FORMAT", description: "MCP response format: json or markdown" },
+  { key: "install_targets", type: "list", description: "Targets megamemory install uses without prompting" },
+  { key: "embedding.provider", type: "string", env: "MEGAMEMORY_EMBEDDING_PROVIDER", description: "transformers or openai" },
+  { key: "embedding.model", type: "string", env: "MEGAMEMORY_EMBEDDING_MODEL", description: "Embedding model" },
+  { key: "embedding.url", type: "string", env: "MEGAMEMORY_EMBEDDING_URL", description: "OpenAI-compatible API base URL" },
+  { key: "embedding.api_key", type: "string", env: "MEGAMEMORY_EMBEDDING_API_KEY", description: "API key for the embedding endpoint", secret: true },
+  { key: "embedding.dimensions", type: "integer", env: "MEGAMEMORY_EMBEDDING_DIM", description: "Embedding vector length" },
+];
+
+const DEFAULTS = {
+  top_k: 10,
+  port: 4321,
+  sse_poll_interval_ms: 1500,
+  max_depth: 3,
+  stale_after_days: 30,
+  approximate_search: false,
+  output_format: "json",
+  install_targets: [],
+  embedding: {},
+  kinds: {},
+  relations: {},
+} satisfies Omit<Settings, "db_path">;
+
+export function findSetting(key: string): SettingSpec | undefined {
+  return SETTINGS.find((s) => s.key === key);
+}
+
+/**
+ * Convert a string from the command line or environment to the setting's type.
+ * The result is validated against ConfigFileSchema by the caller.
+ */
+export function parseSettingValue(spec: SettingSpec, raw: string): unknown {
+  switch (spec.type) {
+    case "integer": {
+      const value = Number(raw);
+      return raw.trim() !== "" && Number.isInteger(value) ? value : raw;
+    }
+    case "boolean": {
+      const lower = raw.toLowerCase();
+      if (lower === "1" || lower === "true") return true;
+      if (lower === "0" || lower === "false" || lower === "") return false;
+      return raw;
+    }
+    case "list":
+      return raw.split(",").map((s) => s.trim()).filter(Boolean);
+    default:
+      return raw;
+  }
+}
+
+export function getPath(obj: Record<string, unknown>, key: string): unknown {
+  let current: unknown = obj;
+  for (const part of key.split(".")) {
+    if (typeof current !== "object" || current === null) return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+export function setPath(obj: Record<string, unknown>, key: string, value: unknown): void {
+  const parts = key.split(".");
+  let current = obj;
+  for (const part of parts.slice(0, -1)) {
+    if (typeof current[part] !== "object" || current[part] === null) current[part] = {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ");
+}
+
+// ---- Files ----
+
+/**
+ * Read and validate one config file. A missing file is an empty config;
+ * malformed JSON or schema violations throw with the file path and the offending keys.
+ */
+export function readConfigFile(configPath: string): ConfigFile {
+  if (!fs.existsSync(configPath)) return {};
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+  } catch (err) {
+    throw new Error(
+      `Invalid JSON in ${configPath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+
+  const parsed = ConfigFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config in ${configPath}: ${formatIssues(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+/** Validate and write a config file, creating its directory if needed. */
+export function writeConfigFile(configPath: string, config: ConfigFile): void {
+  const parsed = ConfigFileSchema.safeParse(config);
+  if (!parsed.success) {
+    throw new Error(`Invalid config: ${formatIssues(parsed.error)}`);
+  }
+  fs.mkdirSync(path.dirname(configPath), { recursive: true });
+  fs.writeFileSync(configPath, JSON.stringify(parsed.data, null, 2) + "\n");
+}
+
+/**
+ * Nearest directory at or above `cwd` that contains a .megamemory directory
+ * with a config.json or knowledge.db in it.
+ */
+export function findProjectRoot(cwd: string): string | null {
+  let dir = path.resolve(cwd);
+  for (;;) {
+    const candidate = path.join(dir, CONFIG_DIRNAME);
+    if (
+      fs.existsSync(path.join(candidate, CONFIG_FILENAME)) ||
+      fs.existsSync(path.join(candidate, "knowledge.db"))
+    ) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+export function userConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const base = env.XDG_CONFIG_HOME ?? path.join(os.homedir(), ".config");
+  return path.join(base, "megamemory", CONFIG_FILENAME);
+}
+
+// ---- Resolution ----
+
+export interface LoadConfigOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  /** Values from command-line flags; highest precedence. */
+  overrides?: ConfigFile;
+}
+
+export interface LoadedConfig {
+  settings: Settings;
+  /** Which layer supplied each scalar setting. */
+  sources: Record<string, ConfigSource>;
+  /** Directory containing .megamemory, or null if none was found. */
+  projectRoot: string | null;
+  /** Where the project config lives (or would be created). */
+  projectConfigPath: string;
+  userConfigPath: string;
+}
+
+function envLayer(env: NodeJS.ProcessEnv): ConfigFile {
+  const layer: Record<string, unknown> = {};
+  for (const spec of SETTINGS) {
+    if (!spec.env || spec.key.startsWith("embedding.")) continue;
+    const raw = env[spec.env];
+    if (raw === undefined || raw === "") continue;
+    setPath(layer, spec.key, parseSettingValue(spec, raw));
+  }
+
+  const parsed = ConfigFileSchema.safeParse(layer);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const spec = findSetting(issue.path.join("."));
+    throw new Error(`Invalid ${spec?.env ?? issue.path.join(".")}: ${issue.message}`);
+  }
+
+  const embedding = embeddingConfigFromEnv(env);
+  return Object.keys(embedding).length > 0 ? { ...parsed.data, embedding } : parsed.data;
+}
+
+/**
+ * Resolve settings from every layer. Precedence, highest first:
+ * command-line overrides, environment variables, the project's
+ * .megamemory/config.json (found by walking up from cwd), the user-level
+ * config ($XDG_CONFIG_HOME/megamemory/config.json), then built-in defaults.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): LoadedConfig {
+  const cwd = options.cwd ?? process.cwd();
+  const env = options.env ?? process.env;
+  const projectRoot = findProjectRoot(cwd);
+  const baseDir = projectRoot ?? cwd;
+  const projectConfigPath = path.join(baseDir, CONFIG_DIRNAME, CONFIG_FILENAME);
+  const userPath = userConfigPath(env);
+
+  const layers: Array<[ConfigSource, ConfigFile]> = [
+    ["user", readConfigFile(userPath)],
+    ["project", projectRoot ? readConfigFile(projectConfigPath) : {}],
+    ["env", envLayer(env)],
+    ["cli", options.overrides ?? {}],
+  ];
+
+  const settings: Settings = {
+    ...DEFAULTS,
+    embedding: {},
+    db_path: path.join(baseDir, CONFIG_DIRNAME, "knowledge.db"),
+  };
+  const sources: Record<string, ConfigSource> = {};
+  for (const spec of SETTINGS) sources[spec.key] = "default";
+
+  for (const [source, layer] of layers) {
+    for (const spec of SETTINGS) {
+      const value = getPath(layer, spec.key);
+      if (value === undefined) continue;
+      setPath(settings as unknown as Record<string, unknown>, spec.key, value);
+      sources[spec.key] = source;
+    }
+    // Vocabulary entries merge by name, so a project can add to user-level kinds
+    settings.kinds = { ...settings.kinds, ...layer.kinds };
+    settings.relations = { ...settings.relations, ...layer.relations };
+  }
+
+  // Project-level relative paths are anchored to the project, not the cwd
+  if (sources.db_path === "project" && !path.isAbsolute(settings.db_path)) {
+    settings.db_path = path.join(baseDir, settings.db_path);
+  }
+
+  return { settings, sources, projectRoot, projectConfigPath, userConfigPath: userPath };
+}
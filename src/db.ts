@@ -1,13 +1,15 @@
 import Database from "libsql";
 import path from "path";
 import fs from "fs";
-import type { NodeRow, EdgeRow } from "./types.js";
+import { normalizeRefPath, parseFileRef } from "./file-refs.js";
+import type { NodeRow, EdgeRow, NodeRevisionRow, AliasRow, AttributeRow, AttributeType, PendingEdgeRow, FileRefRow } from "./types.js";
 
-const SCHEMA_VERSION = 4;
+const SCHEMA_VERSION = 15;
 
 export class KnowledgeDB {
   private db: Database.Database;
   private _txDepth = 0;
+  private nodeListeners = new Set<(ids: string[]) => void>();
 
   constructor(dbPath: string) {
     // Ensure directory exists
@@ -34,6 +36,36 @@ export class KnowledgeDB {
     ) as number;
   }
 
+  /**
+   * Counter that changes whenever another connection commits to this database.
+   * Commits made through this connection leave it unchanged.
+   */
+  getDataVersion(): number {
+    const pragmaResult = this.db.pragma("data_version", { simple: true });
+    return (
+      typeof pragmaResult === "object" && pragmaResult !== null
+        ? (pragmaResult as Record<string, unknown>).data_version
+        : pragmaResult
+    ) as number;
+  }
+
+  /**
+   * Subscribe to node writes made through this connection (inserts, updates,
+   * removals, restores, renames, deletes). Returns an unsubscribe function.
+   */
+  onNodesChanged(listener: (ids: string[]) => void): () => void {
+    this.nodeListeners.add(listener);
+    return () => {
+      this.nodeListeners.delete(listener);
+    };
+  }
+
+  private notifyNodesChanged(...ids: string[]): void {
+    for (const listener of this.nodeListeners) {
+      listener(ids);
+    }
+  }
+
   private migrate(): void {
     const version = this.getUserVersion();
     if (version >= SCHEMA_VERSION) return;
@@ -169,6 +201,184 @@ export class KnowledgeDB {
         `);
       }
 
+      if (currentVersion < 5) {
+        // Prior versions of each concept, written before updateNode overwrites them
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS node_revisions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            node_id TEXT NOT NULL,
+            revision INTEGER NOT NULL,
+            name TEXT NOT NULL,
+            kind TEXT NOT NULL,
+            summary TEXT NOT NULL,
+            why TEXT,
+            file_refs TEXT,
+            recorded_at TEXT DEFAULT (datetime('now')),
+            FOREIGN KEY (node_id) REFERENCES nodes(id) ON DELETE CASCADE
+          );
+
+          CREATE UNIQUE INDEX IF NOT EXISTS idx_node_revisions_node
+          ON node_revisions(node_id, revision);
+        `);
+      }
+
+      if (currentVersion < 6) {
+        // Edges are tombstoned alongside their soft-deleted endpoint so a restore can bring them back
+        const edgeColumns = this.db
+          .prepare("PRAGMA table_info(edges)")
+          .all() as Array<{ name: string }>;
+        if (!edgeColumns.some((c) => c.name === "removed_at")) {
+          this.db.exec(`ALTER TABLE edges ADD COLUMN removed_at TEXT`);
+        }
+        this.db.exec(`CREATE INDEX IF NOT EXISTS idx_edges_removed ON edges(removed_at)`);
+      }
+
+      if (currentVersion < 7) {
+        // Former IDs and alternate names that should keep resolving to a concept.
+        // An alias may point at several concepts (e.g. after a merge keeps both sides).
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS aliases (
+            alias TEXT NOT NULL,
+            node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+            kind TEXT NOT NULL,
+            created_at TEXT NOT NULL DEFAULT (datetime('now')),
+            PRIMARY KEY (alias, node_id)
+          );
+          CREATE INDEX IF NOT EXISTS idx_aliases_node ON aliases(node_id);
+        `);
+      }
+
+      if (currentVersion < 8) {
+        // Full-text index for keyword search, kept in sync with nodes by triggers
+        // so raw inserts, renames, and merges never leave it stale.
+        this.db.exec(`
+          CREATE VIRTUAL TABLE IF NOT EXISTS nodes_fts USING fts5(
+            node_id UNINDEXED,
+            name,
+            summary,
+            why,
+            file_refs,
+            tokenize = 'unicode61'
+          );
+
+          CREATE TRIGGER IF NOT EXISTS nodes_fts_insert AFTER INSERT ON nodes BEGIN
+            INSERT INTO nodes_fts (node_id, name, summary, why, file_refs)
+            VALUES (new.id, new.name, new.summary, coalesce(new.why, ''), coalesce(new.file_refs, ''));
+          END;
+
+          CREATE TRIGGER IF NOT EXISTS nodes_fts_update
+          AFTER UPDATE OF id, name, summary, why, file_refs ON nodes BEGIN
+            DELETE FROM nodes_fts WHERE node_id = old.id;
+            INSERT INTO nodes_fts (node_id, name, summary, why, file_refs)
+            VALUES (new.id, new.name, new.summary, coalesce(new.why, ''), coalesce(new.file_refs, ''));
+          END;
+
+          CREATE TRIGGER IF NOT EXISTS nodes_fts_delete AFTER DELETE ON nodes BEGIN
+            DELETE FROM nodes_fts WHERE node_id = old.id;
+          END;
+
+          DELETE FROM nodes_fts;
+          INSERT INTO nodes_fts (node_id, name, summary, why, file_refs)
+          SELECT id, name, summary, coalesce(why, ''), coalesce(file_refs, '') FROM nodes;
+        `);
+      }
+
+      if (currentVersion < 9) {
+        // Key/value settings about the database itself (embedding model, reindex progress)
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS meta (
+            key TEXT PRIMARY KEY,
+            value TEXT NOT NULL
+          );
+        `);
+      }
+
+      if (currentVersion < 10) {
+        // Free-form labels on concepts, normalized to lowercase before insert
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS node_tags (
+            node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+            tag TEXT NOT NULL,
+            PRIMARY KEY (node_id, tag)
+          );
+          CREATE INDEX IF NOT EXISTS idx_node_tags_tag ON node_tags(tag);
+        `);
+      }
+
+      if (currentVersion < 11) {
+        // Typed key/value facts about a concept; values are stored as canonical text
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS node_attributes (
+            node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+            key TEXT NOT NULL,
+            type TEXT NOT NULL CHECK (type IN ('string', 'number', 'boolean', 'date')),
+            value TEXT NOT NULL,
+            PRIMARY KEY (node_id, key)
+          );
+          CREATE INDEX IF NOT EXISTS idx_node_attributes_key ON node_attributes(key, value);
+        `);
+      }
+
+      if (currentVersion < 12) {
+        // When an agent last confirmed the concept still matches the code
+        const cols = this.db.prepare("PRAGMA table_info(nodes)").all() as Array<{ name: string }>;
+        const colNames = new Set(cols.map((c) => c.name));
+        if (!colNames.has("last_verified_at")) {
+          this.db.exec(`ALTER TABLE nodes ADD COLUMN last_verified_at TEXT`);
+        }
+        if (!colNames.has("verified_by")) {
+          this.db.exec(`ALTER TABLE nodes ADD COLUMN verified_by TEXT`);
+        }
+      }
+
+      if (currentVersion < 13) {
+        // Entries written by one batch call share a group
+        const cols = this.db.prepare("PRAGMA table_info(timeline)").all() as Array<{ name: string }>;
+        if (!cols.some((c) => c.name === "group_id")) {
+          this.db.exec(`ALTER TABLE timeline ADD COLUMN group_id TEXT`);
+        }
+        this.db.exec(`CREATE INDEX IF NOT EXISTS idx_timeline_group_id ON timeline(group_id)`);
+      }
+
+      if (currentVersion < 14) {
+        // Edges whose target did not exist yet, created once it does
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS pending_edges (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            from_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+            to_id TEXT NOT NULL,
+            relation TEXT NOT NULL,
+            description TEXT,
+            created_at TEXT DEFAULT (datetime('now')),
+            UNIQUE(from_id, to_id, relation)
+          );
+          CREATE INDEX IF NOT EXISTS idx_pending_edges_to ON pending_edges(to_id);
+        `);
+      }
+
+      if (currentVersion < 15) {
+        // nodes.file_refs parsed into one row per reference, for lookups by path
+        this.db.exec(`
+          CREATE TABLE IF NOT EXISTS file_refs (
+            node_id TEXT NOT NULL REFERENCES nodes(id) ON DELETE CASCADE,
+            position INTEGER NOT NULL,
+            ref TEXT NOT NULL,
+            path TEXT NOT NULL,
+            start_line INTEGER,
+            end_line INTEGER,
+            symbol TEXT,
+            PRIMARY KEY (node_id, position)
+          );
+          CREATE INDEX IF NOT EXISTS idx_file_refs_path ON file_refs(path);
+        `);
+        const rows = this.db
+          .prepare("SELECT id, file_refs FROM nodes WHERE file_refs IS NOT NULL")
+          .all() as Array<{ id: string; file_refs: string }>;
+        for (const row of rows) {
+          this.syncFileRefs(row.id, row.file_refs);
+        }
+      }
+
       this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
       this.db.exec("COMMIT");
     } catch (err) {
@@ -252,6 +462,8 @@ export class KnowledgeDB {
       created_by_task: node.created_by_task ?? null,
       embedding: node.embedding ?? null,
     });
+    this.syncFileRefs(node.id, node.file_refs ?? null);
+    this.notifyNodesChanged(node.id);
   }
 
   insertNodeAndEdges(
@@ -267,8 +479,8 @@ export class KnowledgeDB {
       embedding: Buffer | null;
     },
     edges: Array<{ to_id: string; relation: string; description: string | null }>
-  ): void {
-    this.runInTransaction(() => {
+  ): { pending: PendingEdgeRow[]; materialized: PendingEdgeRow[] } {
+    return this.runInTransaction(() => {
       this.insertNode({
         id: node.id,
         name: node.name,
@@ -283,6 +495,7 @@ export class KnowledgeDB {
         embedding: node.embedding,
       });
 
+      const pending: PendingEdgeRow[] = [];
       for (const edge of edges) {
         if (this.nodeExists(edge.to_id)) {
           this.insertEdge({
@@ -291,8 +504,12 @@ export class KnowledgeDB {
             relation: edge.relation,
             description: edge.description,
           });
+        } else {
+          pending.push(this.addPendingEdge({ from_id: node.id, ...edge }));
         }
       }
+
+      return { pending, materialized: this.materializePendingEdges(node.id) };
     });
   }
 
@@ -314,8 +531,8 @@ export class KnowledgeDB {
       name?: string;
       kind?: string;
       summary?: string;
-      why?: string;
-      file_refs?: string[];
+      why?: string | null;
+      file_refs?: string[] | null;
       embedding?: Buffer;
     }
   ): boolean {
@@ -340,7 +557,8 @@ export class KnowledgeDB {
     }
     if (changes.file_refs !== undefined) {
       fields.push("file_refs = @file_refs");
-      values.file_refs = JSON.stringify(changes.file_refs);
+      values.file_refs =
+        changes.file_refs === null ? null : JSON.stringify(changes.file_refs);
     }
     if (changes.embedding !== undefined) {
       fields.push("embedding = @embedding");
@@ -351,11 +569,31 @@ export class KnowledgeDB {
 
     fields.push("updated_at = datetime('now')");
 
-    const stmt = this.db.prepare(
-      `UPDATE nodes SET ${fields.join(", ")} WHERE id = @id AND removed_at IS NULL`
+    return this.runInTransaction(() => {
+      // Snapshot the current version before any content field is overwritten,
+      // so a worse summary never destroys the previous one.
+      const current = this.getNode(id);
+      if (current && this.contentDiffers(current, values)) {
+        this.insertRevision(current);
+      }
+
+      const stmt = this.db.prepare(
+        `UPDATE nodes SET ${fields.join(", ")} WHERE id = @id AND removed_at IS NULL`
+      );
+      const result = stmt.run(values);
+      if (result.changes > 0) {
+        if (changes.file_refs !== undefined) this.syncFileRefs(id, changes.file_refs);
+        this.notifyNodesChanged(id);
+      }
+      return result.changes > 0;
+    });
+  }
+
+  private contentDiffers(current: NodeRow, values: Record<string, unknown>): boolean {
+    const contentFields = ["name", "kind", "summary", "why", "file_refs"] as const;
+    return contentFields.some(
+      (field) => field in values && (values[field] ?? null) !== (current[field] ?? null)
     );
-    const result = stmt.run(values);
-    return result.changes > 0;
   }
 
   softDeleteNode(id: string, reason: string): boolean {
@@ -370,13 +608,115 @@ export class KnowledgeDB {
       if (result.changes > 0) {
         changed = true;
         this.db
-          .prepare("DELETE FROM edges WHERE from_id = ? OR to_id = ?")
+          .prepare(
+            `UPDATE edges SET removed_at = datetime('now')
+             WHERE (from_id = ? OR to_id = ?) AND removed_at IS NULL`
+          )
           .run(id, id);
+        this.notifyNodesChanged(id);
       }
     });
     return changed;
   }
 
+  /**
+   * Undo a soft delete. Tombstoned edges come back only when their other
+   * endpoint is still active; the rest stay tombstoned until that endpoint
+   * is restored too. Edges left pending while the concept was removed are
+   * created as well, and counted with the restored ones.
+   */
+  restoreNode(id: string): { restored: boolean; edgesRestored: number } {
+    return this.runInTransaction(() => {
+      const result = this.db
+        .prepare(
+          `UPDATE nodes SET removed_at = NULL, removed_reason = NULL, updated_at = datetime('now')
+           WHERE id = ? AND removed_at IS NOT NULL`
+        )
+        .run(id);
+
+      if (result.changes === 0) {
+        return { restored: false, edgesRestored: 0 };
+      }
+      this.notifyNodesChanged(id);
+
+      const edges = this.db
+        .prepare(
+          `UPDATE edges SET removed_at = NULL
+           WHERE removed_at IS NOT NULL
+             AND (from_id = @id OR to_id = @id)
+             AND from_id IN (SELECT id FROM nodes WHERE removed_at IS NULL)
+             AND to_id IN (SELECT id FROM nodes WHERE removed_at IS NULL)`
+        )
+        .run({ id });
+      const materialized = this.materializePendingEdges(id);
+
+      return { restored: true, edgesRestored: edges.changes + materialized.length };
+    });
+  }
+
+  /**
+   * Record that a concept was checked against the code. Leaves updated_at
+   * alone: verification is not a content change.
+   */
+  markVerified(id: string, verifiedBy: string | null): boolean {
+    const result = this.db
+      .prepare(
+        `UPDATE nodes SET last_verified_at = datetime('now'), verified_by = @verifiedBy
+         WHERE id = @id AND removed_at IS NULL`
+      )
+      .run({ id, verifiedBy });
+    return result.changes > 0;
+  }
+
+  // ---- Revision history ----
+
+  private insertRevision(node: NodeRow): void {
+    this.db
+      .prepare(
+        `INSERT INTO node_revisions (node_id, revision, name, kind, summary, why, file_refs)
+         VALUES (
+           @node_id,
+           COALESCE((SELECT MAX(revision) FROM node_revisions WHERE node_id = @node_id), 0) + 1,
+           @name, @kind, @summary, @why, @file_refs
+         )`
+      )
+      .run({
+        node_id: node.id,
+        name: node.name,
+        kind: node.kind,
+        summary: node.summary,
+        why: node.why,
+        file_refs: node.file_refs,
+      });
+  }
+
+  getNodeRevisions(nodeId: string): NodeRevisionRow[] {
+    return this.db
+      .prepare("SELECT * FROM node_revisions WHERE node_id = ? ORDER BY revision")
+      .all(nodeId) as NodeRevisionRow[];
+  }
+
+  getNodeRevision(nodeId: string, revision: number): NodeRevisionRow | undefined {
+    return this.db
+      .prepare("SELECT * FROM node_revisions WHERE node_id = ? AND revision = ?")
+      .get(nodeId, revision) as NodeRevisionRow | undefined;
+  }
+
+  getAllRevisionsRaw(): NodeRevisionRow[] {
+    return this.db
+      .prepare("SELECT * FROM node_revisions ORDER BY node_id, revision")
+      .all() as NodeRevisionRow[];
+  }
+
+  insertRevisionRaw(row: Omit<NodeRevisionRow, "id">): void {
+    this.db
+      .prepare(
+        `INSERT INTO node_revisions (node_id, revision, name, kind, summary, why, file_refs, recorded_at)
+         VALUES (@node_id, @revision, @name, @kind, @summary, @why, @file_refs, @recorded_at)`
+      )
+      .run(row);
+  }
+
   // ---- Edge CRUD ----
 
   insertEdge(edge: {
@@ -385,9 +725,13 @@ export class KnowledgeDB {
     relation: string;
     description?: string | null;
   }): { id: number; inserted: boolean } {
+    // A tombstoned edge with the same key is revived rather than ignored.
     const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO edges (from_id, to_id, relation, description)
+      INSERT INTO edges (from_id, to_id, relation, description)
       VALUES (@from_id, @to_id, @relation, @description)
+      ON CONFLICT(from_id, to_id, relation) DO UPDATE
+        SET removed_at = NULL, description = excluded.description
+        WHERE edges.removed_at IS NOT NULL
     `);
     const result = stmt.run({
       from_id: edge.from_id,
@@ -395,12 +739,65 @@ export class KnowledgeDB {
       relation: edge.relation,
       description: edge.description ?? null,
     });
+    const row = this.db
+      .prepare("SELECT id FROM edges WHERE from_id = ? AND to_id = ? AND relation = ?")
+      .get(edge.from_id, edge.to_id, edge.relation) as { id: number };
     return {
-      id: Number(result.lastInsertRowid),
+      id: Number(row.id),
       inserted: result.changes > 0,
     };
   }
 
+  getEdge(fromId: string, toId: string, relation: string): EdgeRow | undefined {
+    return this.db
+      .prepare(
+        "SELECT * FROM edges WHERE from_id = ? AND to_id = ? AND relation = ? AND removed_at IS NULL"
+      )
+      .get(fromId, toId, relation) as EdgeRow | undefined;
+  }
+
+  updateEdge(
+    fromId: string,
+    toId: string,
+    relation: string,
+    changes: { relation?: string; description?: string | null }
+  ): boolean {
+    const fields: string[] = [];
+    const values: Record<string, unknown> = { fromId, toId, relation };
+
+    if (changes.relation !== undefined) {
+      fields.push("relation = @newRelation");
+      values.newRelation = changes.relation;
+    }
+    if (changes.description !== undefined) {
+      fields.push("description = @description");
+      values.description = changes.description;
+    }
+
+    if (fields.length === 0) return false;
+
+    return this.runInTransaction(() => {
+      if (changes.relation !== undefined && changes.relation !== relation) {
+        // A tombstone under the new relation would collide with the live edge; the live edge wins.
+        this.db
+          .prepare(
+            `DELETE FROM edges
+             WHERE from_id = @fromId AND to_id = @toId AND relation = @newRelation AND removed_at IS NOT NULL
+               AND EXISTS (SELECT 1 FROM edges
+                           WHERE from_id = @fromId AND to_id = @toId AND relation = @relation AND removed_at IS NULL)`
+          )
+          .run(values);
+      }
+      const result = this.db
+        .prepare(
+          `UPDATE edges SET ${fields.join(", ")}
+           WHERE from_id = @fromId AND to_id = @toId AND relation = @relation AND removed_at IS NULL`
+        )
+        .run(values);
+      return result.changes > 0;
+    });
+  }
+
   deleteEdge(fromId: string, toId: string, relation: string): boolean {
     const result = this.db
       .prepare(
@@ -429,7 +826,7 @@ export class KnowledgeDB {
       SELECT e.*, n.name as to_name, n.summary as to_summary
       FROM edges e
       JOIN nodes n ON e.to_id = n.id
-      WHERE e.from_id = ? AND n.removed_at IS NULL
+      WHERE e.from_id = ? AND e.removed_at IS NULL AND n.removed_at IS NULL
     `
       )
       .all(nodeId) as Array<EdgeRow & { to_name: string; to_summary: string }>;
@@ -444,7 +841,7 @@ export class KnowledgeDB {
       SELECT e.*, n.name as from_name, n.summary as from_summary
       FROM edges e
       JOIN nodes n ON e.from_id = n.id
-      WHERE e.to_id = ? AND n.removed_at IS NULL
+      WHERE e.to_id = ? AND e.removed_at IS NULL AND n.removed_at IS NULL
     `
       )
       .all(nodeId) as Array<
@@ -466,6 +863,22 @@ export class KnowledgeDB {
       .all() as NodeRow[];
   }
 
+  /**
+   * Embeddings of active nodes, optionally restricted to the given IDs.
+   */
+  getActiveEmbeddings(ids?: string[]): Array<{ id: string; embedding: Buffer }> {
+    const sql =
+      "SELECT id, embedding FROM nodes WHERE removed_at IS NULL AND embedding IS NOT NULL";
+    const rows = (
+      ids === undefined
+        ? this.db.prepare(sql).all()
+        : this.db
+            .prepare(`${sql} AND id IN (SELECT value FROM json_each(?))`)
+            .all(JSON.stringify(ids))
+    ) as Array<{ id: string; embedding: Buffer }>;
+    return rows.map((row) => ({ id: row.id, embedding: Buffer.from(row.embedding) }));
+  }
+
   getAllActiveNodesWithEmbeddings(): Array<{
     id: string;
     name: string;
@@ -500,7 +913,8 @@ export class KnowledgeDB {
     return this.db
       .prepare(
         `SELECT id, name, kind, summary, why, file_refs, parent_id,
-                created_by_task, created_at, updated_at, removed_at, removed_reason
+                created_by_task, created_at, updated_at, removed_at, removed_reason,
+                last_verified_at, verified_by
          FROM nodes WHERE removed_at IS NULL ORDER BY name`
       )
       .all() as Array<Omit<NodeRow, "embedding">>;
@@ -513,7 +927,7 @@ export class KnowledgeDB {
          FROM edges e
          JOIN nodes n1 ON e.from_id = n1.id
          JOIN nodes n2 ON e.to_id = n2.id
-         WHERE n1.removed_at IS NULL AND n2.removed_at IS NULL`
+         WHERE e.removed_at IS NULL AND n1.removed_at IS NULL AND n2.removed_at IS NULL`
       )
       .all() as EdgeRow[];
   }
@@ -538,9 +952,9 @@ export class KnowledgeDB {
         .get() as { count: number }
     ).count;
     const edges = (
-      this.db.prepare("SELECT COUNT(*) as count FROM edges").get() as {
-        count: number;
-      }
+      this.db
+        .prepare("SELECT COUNT(*) as count FROM edges WHERE removed_at IS NULL")
+        .get() as { count: number }
     ).count;
     const removed = (
       this.db
@@ -552,6 +966,15 @@ export class KnowledgeDB {
     return { nodes, edges, removed };
   }
 
+  /** Every kind and relation stored, including on removed concepts and edges. */
+  getUsedVocabulary(): { kinds: string[]; relations: string[] } {
+    const kinds = this.db.prepare("SELECT DISTINCT kind FROM nodes ORDER BY kind").all() as Array<{ kind: string }>;
+    const relations = this.db
+      .prepare("SELECT DISTINCT relation FROM edges ORDER BY relation")
+      .all() as Array<{ relation: string }>;
+    return { kinds: kinds.map((r) => r.kind), relations: relations.map((r) => r.relation) };
+  }
+
   // ---- Merge-related methods ----
 
   getConflictNodes(): NodeRow[] {
@@ -602,11 +1025,14 @@ export class KnowledgeDB {
   renameNodeId(oldId: string, newId: string): boolean {
     // Temporarily disable foreign keys for the rename operation,
     // since self-referencing FKs (parent_id → id) would block the update.
-    // Wrapped in a transaction so all 4 updates succeed or none do.
+    // Wrapped in a transaction so all updates succeed or none do.
     this.db.pragma("foreign_keys = OFF");
     try {
       let changed = false;
       this.runInTransaction(() => {
+        // foreign_keys cannot be toggled inside an enclosing transaction, so
+        // also defer the checks to COMMIT for callers that batch several renames.
+        this.db.pragma("defer_foreign_keys = ON");
         const result = this.db
           .prepare("UPDATE nodes SET id = @newId, updated_at = datetime('now') WHERE id = @oldId")
           .run({ oldId, newId });
@@ -624,6 +1050,29 @@ export class KnowledgeDB {
           this.db
             .prepare("UPDATE edges SET to_id = @newId WHERE to_id = @oldId")
             .run({ oldId, newId });
+          this.db
+            .prepare("UPDATE node_revisions SET node_id = @newId WHERE node_id = @oldId")
+            .run({ oldId, newId });
+          this.db
+            .prepare("UPDATE aliases SET node_id = @newId WHERE node_id = @oldId")
+            .run({ oldId, newId });
+          // A real ID always wins over an alias of the same name
+          this.db.prepare("DELETE FROM aliases WHERE alias = ?").run(newId);
+          this.db
+            .prepare("UPDATE node_tags SET node_id = @newId WHERE node_id = @oldId")
+            .run({ oldId, newId });
+          this.db
+            .prepare("UPDATE node_attributes SET node_id = @newId WHERE node_id = @oldId")
+            .run({ oldId, newId });
+          this.db
+            .prepare("UPDATE pending_edges SET from_id = @newId WHERE from_id = @oldId")
+            .run({ oldId, newId });
+          this.db
+            .prepare("UPDATE file_refs SET node_id = @newId WHERE node_id = @oldId")
+            .run({ oldId, newId });
+          // Edges that were waiting for the new ID can now be created
+          this.materializePendingEdges(newId);
+          this.notifyNodesChanged(oldId, newId);
         }
       });
       return changed;
@@ -632,6 +1081,31 @@ export class KnowledgeDB {
     }
   }
 
+  setParent(id: string, parentId: string | null): boolean {
+    const result = this.db
+      .prepare("UPDATE nodes SET parent_id = @parentId, updated_at = datetime('now') WHERE id = @id")
+      .run({ id, parentId });
+    return result.changes > 0;
+  }
+
+  /**
+   * All nodes below the given one in the parent hierarchy, including removed
+   * ones, with their depth relative to it (children are depth 1).
+   */
+  getDescendants(id: string): Array<{ id: string; depth: number }> {
+    return this.db
+      .prepare(
+        `WITH RECURSIVE subtree(id, depth) AS (
+           SELECT id, 1 FROM nodes WHERE parent_id = @id
+           UNION
+           SELECT n.id, s.depth + 1 FROM nodes n JOIN subtree s ON n.parent_id = s.id
+           WHERE s.depth < 100
+         )
+         SELECT id, MIN(depth) AS depth FROM subtree GROUP BY id ORDER BY depth, id`
+      )
+      .all({ id }) as Array<{ id: string; depth: number }>;
+  }
+
   getAllNodesRaw(): NodeRow[] {
     return this.db.prepare("SELECT * FROM nodes").all() as NodeRow[];
   }
@@ -646,14 +1120,413 @@ export class KnowledgeDB {
       .run(nodeId, nodeId);
   }
 
+  // ---- Meta ----
+
+  getMeta(key: string): string | undefined {
+    const row = this.db.prepare("SELECT value FROM meta WHERE key = ?").get(key) as
+      | { value: string }
+      | undefined;
+    return row?.value;
+  }
+
+  setMeta(key: string, value: string): void {
+    this.db
+      .prepare(
+        "INSERT INTO meta (key, value) VALUES (@key, @value) ON CONFLICT(key) DO UPDATE SET value = excluded.value"
+      )
+      .run({ key, value });
+  }
+
+  deleteMeta(key: string): void {
+    this.db.prepare("DELETE FROM meta WHERE key = ?").run(key);
+  }
+
+  // ---- Embedding maintenance ----
+
+  /**
+   * How many stored embeddings (active and removed nodes) have each dimension.
+   */
+  getEmbeddingDimensionCounts(): Record<number, number> {
+    const rows = this.db
+      .prepare(
+        `SELECT length(embedding) / 4 AS dim, COUNT(*) AS count FROM nodes
+         WHERE embedding IS NOT NULL AND length(embedding) > 0
+         GROUP BY dim ORDER BY dim`
+      )
+      .all() as Array<{ dim: number; count: number }>;
+    return Object.fromEntries(rows.map((r) => [r.dim, r.count]));
+  }
+
+  /**
+   * Nodes (including removed ones) in ID order after the given ID, for batched reindexing.
+   */
+  getNodesForReindex(
+    afterId: string | null,
+    limit: number
+  ): Array<{ id: string; name: string; kind: string; summary: string }> {
+    return this.db
+      .prepare(
+        `SELECT id, name, kind, summary FROM nodes
+         WHERE @afterId IS NULL OR id > @afterId
+         ORDER BY id LIMIT @limit`
+      )
+      .all({ afterId, limit }) as Array<{ id: string; name: string; kind: string; summary: string }>;
+  }
+
+  countNodesForReindex(afterId: string | null): number {
+    const row = this.db
+      .prepare("SELECT COUNT(*) AS count FROM nodes WHERE @afterId IS NULL OR id > @afterId")
+      .get({ afterId }) as { count: number };
+    return row.count;
+  }
+
+  /**
+   * Overwrite embeddings without touching updated_at or revision history.
+   */
+  setEmbeddings(rows: Array<{ id: string; embedding: Buffer }>): void {
+    this.runInTransaction(() => {
+      const stmt = this.db.prepare("UPDATE nodes SET embedding = @embedding WHERE id = @id");
+      for (const row of rows) {
+        stmt.run(row);
+      }
+    });
+    this.notifyNodesChanged(...rows.map((r) => r.id));
+  }
+
+  // ---- Keyword search ----
+
+  /**
+   * BM25-ranked keyword matches over active nodes. The query must already be
+   * valid FTS5 syntax (see buildFtsQuery in tools.ts). Scores are positive,
+   * higher is better.
+   */
+  searchKeyword(ftsQuery: string, limit: number): Array<{ id: string; score: number }> {
+    return this.db
+      .prepare(
+        `SELECT f.node_id AS id, -bm25(nodes_fts, 0.0, 10.0, 4.0, 2.0, 3.0) AS score
+         FROM nodes_fts f
+         JOIN nodes n ON n.id = f.node_id
+         WHERE nodes_fts MATCH @query AND n.removed_at IS NULL
+         ORDER BY score DESC, f.node_id
+         LIMIT @limit`
+      )
+      .all({ query: ftsQuery, limit }) as Array<{ id: string; score: number }>;
+  }
+
+  // ---- Aliases ----
+
+  addAlias(alias: string, nodeId: string, kind: string): boolean {
+    const result = this.db
+      .prepare("INSERT OR IGNORE INTO aliases (alias, node_id, kind) VALUES (@alias, @nodeId, @kind)")
+      .run({ alias, nodeId, kind });
+    return result.changes > 0;
+  }
+
+  getAliasesForNode(nodeId: string): AliasRow[] {
+    return this.db
+      .prepare("SELECT * FROM aliases WHERE node_id = ? ORDER BY created_at, alias")
+      .all(nodeId) as AliasRow[];
+  }
+
+  /**
+   * Active concepts an alias points at.
+   */
+  resolveAlias(alias: string): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT a.node_id FROM aliases a
+         JOIN nodes n ON n.id = a.node_id
+         WHERE a.alias = ? AND n.removed_at IS NULL
+         ORDER BY a.node_id`
+      )
+      .all(alias) as Array<{ node_id: string }>;
+    return rows.map((r) => r.node_id);
+  }
+
+  getAllAliases(): AliasRow[] {
+    return this.db.prepare("SELECT * FROM aliases ORDER BY alias, node_id").all() as AliasRow[];
+  }
+
+  insertAliasRaw(alias: AliasRow): void {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO aliases (alias, node_id, kind, created_at)
+         VALUES (@alias, @node_id, @kind, @created_at)`
+      )
+      .run(alias);
+  }
+
+  // ---- Tags ----
+
+  getTagsForNode(nodeId: string): string[] {
+    const rows = this.db
+      .prepare("SELECT tag FROM node_tags WHERE node_id = ? ORDER BY tag")
+      .all(nodeId) as Array<{ tag: string }>;
+    return rows.map((r) => r.tag);
+  }
+
+  /**
+   * Replace a concept's tags. Returns true if the set changed.
+   */
+  setTags(nodeId: string, tags: string[]): boolean {
+    const before = this.getTagsForNode(nodeId);
+    const after = [...new Set(tags)].sort();
+    if (before.length === after.length && before.every((t, i) => t === after[i])) {
+      return false;
+    }
+    this.runInTransaction(() => {
+      this.db.prepare("DELETE FROM node_tags WHERE node_id = ?").run(nodeId);
+      const insert = this.db.prepare("INSERT INTO node_tags (node_id, tag) VALUES (?, ?)");
+      for (const tag of after) insert.run(nodeId, tag);
+      this.touchNode(nodeId);
+    });
+    return true;
+  }
+
+  /**
+   * Tags of every node, keyed by node ID. Includes removed nodes.
+   */
+  getTagsByNode(): Map<string, string[]> {
+    const rows = this.db
+      .prepare("SELECT node_id, tag FROM node_tags ORDER BY node_id, tag")
+      .all() as Array<{ node_id: string; tag: string }>;
+    const byNode = new Map<string, string[]>();
+    for (const row of rows) {
+      const tags = byNode.get(row.node_id);
+      if (tags) tags.push(row.tag);
+      else byNode.set(row.node_id, [row.tag]);
+    }
+    return byNode;
+  }
+
+  insertTagRaw(nodeId: string, tag: string): void {
+    this.db
+      .prepare("INSERT OR IGNORE INTO node_tags (node_id, tag) VALUES (?, ?)")
+      .run(nodeId, tag);
+  }
+
+  // ---- Attributes ----
+
+  getAttributesForNode(nodeId: string): AttributeRow[] {
+    return this.db
+      .prepare("SELECT * FROM node_attributes WHERE node_id = ? ORDER BY key")
+      .all(nodeId) as AttributeRow[];
+  }
+
+  /**
+   * Set or replace one attribute. Returns true if the stored value changed.
+   */
+  setAttribute(nodeId: string, key: string, type: AttributeType, value: string): boolean {
+    const result = this.db
+      .prepare(
+        `INSERT INTO node_attributes (node_id, key, type, value) VALUES (@nodeId, @key, @type, @value)
+         ON CONFLICT (node_id, key) DO UPDATE SET type = excluded.type, value = excluded.value
+         WHERE type != excluded.type OR value != excluded.value`
+      )
+      .run({ nodeId, key, type, value });
+    if (result.changes > 0) this.touchNode(nodeId);
+    return result.changes > 0;
+  }
+
+  deleteAttribute(nodeId: string, key: string): boolean {
+    const result = this.db
+      .prepare("DELETE FROM node_attributes WHERE node_id = ? AND key = ?")
+      .run(nodeId, key);
+    if (result.changes > 0) this.touchNode(nodeId);
+    return result.changes > 0;
+  }
+
+  /**
+   * Attributes of every node, keyed by node ID. Includes removed nodes.
+   */
+  getAttributesByNode(): Map<string, AttributeRow[]> {
+    const rows = this.db
+      .prepare("SELECT * FROM node_attributes ORDER BY node_id, key")
+      .all() as AttributeRow[];
+    const byNode = new Map<string, AttributeRow[]>();
+    for (const row of rows) {
+      const attributes = byNode.get(row.node_id);
+      if (attributes) attributes.push(row);
+      else byNode.set(row.node_id, [row]);
+    }
+    return byNode;
+  }
+
+  insertAttributeRaw(row: AttributeRow): void {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO node_attributes (node_id, key, type, value)
+         VALUES (@node_id, @key, @type, @value)`
+      )
+      .run(row);
+  }
+
+  // ---- Pending edges ----
+
+  /** Record an edge to a concept that does not exist yet; repeats update the description. */
+  addPendingEdge(edge: {
+    from_id: string;
+    to_id: string;
+    relation: string;
+    description: string | null;
+  }): PendingEdgeRow {
+    return this.db
+      .prepare(
+        `INSERT INTO pending_edges (from_id, to_id, relation, description)
+         VALUES (@from_id, @to_id, @relation, @description)
+         ON CONFLICT(from_id, to_id, relation) DO UPDATE SET description = excluded.description
+         RETURNING *`
+      )
+      .get(edge) as PendingEdgeRow;
+  }
+
+  /** Pending edges from active concepts, oldest first. */
+  getPendingEdges(): PendingEdgeRow[] {
+    return this.db
+      .prepare(
+        `SELECT p.* FROM pending_edges p
+         JOIN nodes n ON n.id = p.from_id
+         WHERE n.removed_at IS NULL
+         ORDER BY p.created_at, p.id`
+      )
+      .all() as PendingEdgeRow[];
+  }
+
+  /**
+   * Turn the pending edges waiting for `toId` into real edges. Edges from
+   * removed concepts stay pending. Returns the edges that were created.
+   */
+  materializePendingEdges(toId: string): PendingEdgeRow[] {
+    return this.runInTransaction(() => {
+      const ready = this.db
+        .prepare(
+          `SELECT p.* FROM pending_edges p
+           JOIN nodes n ON n.id = p.from_id
+           WHERE p.to_id = ? AND n.removed_at IS NULL
+           ORDER BY p.id`
+        )
+        .all(toId) as PendingEdgeRow[];
+      for (const edge of ready) {
+        this.insertEdge({
+          from_id: edge.from_id,
+          to_id: edge.to_id,
+          relation: edge.relation,
+          description: edge.description,
+        });
+        this.db.prepare("DELETE FROM pending_edges WHERE id = ?").run(edge.id);
+      }
+      return ready;
+    });
+  }
+
+  getAllPendingEdgesRaw(): PendingEdgeRow[] {
+    return this.db.prepare("SELECT * FROM pending_edges ORDER BY id").all() as PendingEdgeRow[];
+  }
+
+  insertPendingEdgeRaw(row: Omit<PendingEdgeRow, "id">): void {
+    this.db
+      .prepare(
+        `INSERT OR IGNORE INTO pending_edges (from_id, to_id, relation, description, created_at)
+         VALUES (@from_id, @to_id, @relation, @description, @created_at)`
+      )
+      .run(row);
+  }
+
+  // ---- File refs ----
+
+  /**
+   * Replace the parsed rows for a concept's file_refs. Accepts the list or
+   * the JSON stored on the node; unreadable JSON leaves no rows.
+   */
+  private syncFileRefs(nodeId: string, fileRefs: string[] | string | null): void {
+    let refs: unknown = fileRefs;
+    if (typeof fileRefs === "string") {
+      try {
+        refs = JSON.parse(fileRefs);
+      } catch {
+        refs = null;
+      }
+    }
+
+    this.db.prepare("DELETE FROM file_refs WHERE node_id = ?").run(nodeId);
+    if (!Array.isArray(refs)) return;
+    const insert = this.db.prepare(
+      `INSERT INTO file_refs (node_id, position, ref, path, start_line, end_line, symbol)
+       VALUES (@node_id, @position, @ref, @path, @start_line, @end_line, @symbol)`
+    );
+    for (const [position, ref] of refs.entries()) {
+      if (typeof ref !== "string") continue;
+      const parsed = parseFileRef(ref);
+      insert.run({
+        node_id: nodeId,
+        position,
+        ref,
+        path: normalizeRefPath(parsed.path),
+        start_line: parsed.startLine ?? null,
+        end_line: parsed.endLine ?? null,
+        symbol: parsed.symbol ?? null,
+      });
+    }
+  }
+
+  /** Every distinct path referenced by an active concept, sorted. */
+  getFileRefPaths(): string[] {
+    const rows = this.db
+      .prepare(
+        `SELECT DISTINCT f.path FROM file_refs f
+         JOIN nodes n ON n.id = f.node_id
+         WHERE n.removed_at IS NULL
+         ORDER BY f.path`
+      )
+      .all() as Array<{ path: string }>;
+    return rows.map((r) => r.path);
+  }
+
+  /** Every reference from an active concept, grouped by concept. */
+  getFileRefs(): FileRefRow[] {
+    return this.db
+      .prepare(
+        `SELECT f.* FROM file_refs f
+         JOIN nodes n ON n.id = f.node_id
+         WHERE n.removed_at IS NULL
+         ORDER BY f.node_id, f.position`
+      )
+      .all() as FileRefRow[];
+  }
+
+  /** References from active concepts to any of the given normalized paths. */
+  getFileRefsForPaths(paths: string[]): FileRefRow[] {
+    if (paths.length === 0) return [];
+    return this.db
+      .prepare(
+        `SELECT f.* FROM file_refs f
+         JOIN nodes n ON n.id = f.node_id
+         WHERE n.removed_at IS NULL AND f.path IN (SELECT value FROM json_each(?))
+         ORDER BY f.node_id, f.position`
+      )
+      .all(JSON.stringify(paths)) as FileRefRow[];
+  }
+
+  /** Bump updated_at so the web explorer's change polling sees the edit. */
+  private touchNode(nodeId: string): void {
+    this.db.prepare("UPDATE nodes SET updated_at = datetime('now') WHERE id = ?").run(nodeId);
+  }
+
   hardDeleteNode(id: string): boolean {
     let changed = false;
     this.runInTransaction(() => {
       this.deleteEdgesForNode(id);
+      this.db.prepare("DELETE FROM node_revisions WHERE node_id = ?").run(id);
+      this.db.prepare("DELETE FROM aliases WHERE node_id = ?").run(id);
+      this.db.prepare("DELETE FROM node_tags WHERE node_id = ?").run(id);
+      this.db.prepare("DELETE FROM node_attributes WHERE node_id = ?").run(id);
+      this.db.prepare("DELETE FROM pending_edges WHERE from_id = ?").run(id);
+      this.db.prepare("DELETE FROM file_refs WHERE node_id = ?").run(id);
       const result = this.db
         .prepare("DELETE FROM nodes WHERE id = ?")
         .run(id);
       changed = result.changes > 0;
+      if (changed) this.notifyNodesChanged(id);
     });
     return changed;
   }
@@ -671,6 +1544,8 @@ export class KnowledgeDB {
     updated_at?: string | null;
     removed_at?: string | null;
     removed_reason?: string | null;
+    last_verified_at?: string | null;
+    verified_by?: string | null;
     embedding?: Buffer | null;
     merge_group?: string | null;
     needs_merge?: number;
@@ -679,10 +1554,10 @@ export class KnowledgeDB {
   }): void {
     const stmt = this.db.prepare(`
       INSERT INTO nodes (id, name, kind, summary, why, file_refs, parent_id, created_by_task,
-        created_at, updated_at, removed_at, removed_reason, embedding,
+        created_at, updated_at, removed_at, removed_reason, last_verified_at, verified_by, embedding,
         merge_group, needs_merge, source_branch, merge_timestamp)
       VALUES (@id, @name, @kind, @summary, @why, @file_refs, @parent_id, @created_by_task,
-        @created_at, @updated_at, @removed_at, @removed_reason, @embedding,
+        @created_at, @updated_at, @removed_at, @removed_reason, @last_verified_at, @verified_by, @embedding,
         @merge_group, @needs_merge, @source_branch, @merge_timestamp)
     `);
     stmt.run({
@@ -698,12 +1573,16 @@ export class KnowledgeDB {
       updated_at: node.updated_at ?? null,
       removed_at: node.removed_at ?? null,
       removed_reason: node.removed_reason ?? null,
+      last_verified_at: node.last_verified_at ?? null,
+      verified_by: node.verified_by ?? null,
       embedding: node.embedding ?? null,
       merge_group: node.merge_group ?? null,
       needs_merge: node.needs_merge ?? 0,
       source_branch: node.source_branch ?? null,
       merge_timestamp: node.merge_timestamp ?? null,
     });
+    this.syncFileRefs(node.id, node.file_refs ?? null);
+    this.notifyNodesChanged(node.id);
   }
 
   insertEdgeRaw(edge: {
@@ -712,15 +1591,16 @@ export class KnowledgeDB {
     relation: string;
     description?: string | null;
     created_at?: string | null;
+    removed_at?: string | null;
     merge_group?: string | null;
     needs_merge?: number;
     source_branch?: string | null;
     merge_timestamp?: string | null;
   }): number {
     const stmt = this.db.prepare(`
-      INSERT OR IGNORE INTO edges (from_id, to_id, relation, description, created_at,
+      INSERT OR IGNORE INTO edges (from_id, to_id, relation, description, created_at, removed_at,
         merge_group, needs_merge, source_branch, merge_timestamp)
-      VALUES (@from_id, @to_id, @relation, @description, @created_at,
+      VALUES (@from_id, @to_id, @relation, @description, @created_at, @removed_at,
         @merge_group, @needs_merge, @source_branch, @merge_timestamp)
     `);
     const result = stmt.run({
@@ -729,6 +1609,7 @@ export class KnowledgeDB {
       relation: edge.relation,
       description: edge.description ?? null,
       created_at: edge.created_at ?? null,
+      removed_at: edge.removed_at ?? null,
       merge_group: edge.merge_group ?? null,
       needs_merge: edge.needs_merge ?? 0,
       source_branch: edge.source_branch ?? null,
@@ -746,10 +1627,11 @@ export class KnowledgeDB {
     is_write: boolean;
     is_error: boolean;
     affected_ids: string[];
+    group_id?: string | null;
   }): number {
     const stmt = this.db.prepare(`
-      INSERT INTO timeline (tool, params, result_summary, is_write, is_error, affected_ids)
-      VALUES (@tool, @params, @result_summary, @is_write, @is_error, @affected_ids)
+      INSERT INTO timeline (tool, params, result_summary, is_write, is_error, affected_ids, group_id)
+      VALUES (@tool, @params, @result_summary, @is_write, @is_error, @affected_ids, @group_id)
     `);
     const result = stmt.run({
       tool: entry.tool,
@@ -758,6 +1640,7 @@ export class KnowledgeDB {
       is_write: entry.is_write ? 1 : 0,
       is_error: entry.is_error ? 1 : 0,
       affected_ids: JSON.stringify(entry.affected_ids),
+      group_id: entry.group_id ?? null,
     });
     return Number(result.lastInsertRowid);
   }
@@ -793,6 +1676,7 @@ export class KnowledgeDB {
     is_write: number;
     is_error: number;
     affected_ids: string;
+    group_id: string | null;
   }> {
     let query = `SELECT * FROM timeline WHERE 1=1`;
     const params: Record<string, unknown> = {};
@@ -833,6 +1717,7 @@ export class KnowledgeDB {
       is_write: number;
       is_error: number;
       affected_ids: string;
+      group_id: string | null;
     }>;
   }
 
@@ -845,6 +1730,7 @@ export class KnowledgeDB {
     is_write: number;
     is_error: number;
     affected_ids: string;
+    group_id: string | null;
   }> {
     const totalCount = this.getTimelineBounds().count;
     
@@ -885,6 +1771,7 @@ export class KnowledgeDB {
       is_write: number;
       is_error: number;
       affected_ids: string;
+      group_id: string | null;
     }>;
   }
 
@@ -903,6 +1790,7 @@ export class KnowledgeDB {
       INNER JOIN nodes nf ON e.from_id = nf.id
       INNER JOIN nodes nt ON e.to_id = nt.id
       WHERE e.created_at <= @timestamp
+        AND (e.removed_at IS NULL OR e.removed_at > @timestamp)
         AND nf.created_at <= @timestamp
         AND nt.created_at <= @timestamp
         AND (nf.removed_at IS NULL OR nf.removed_at > @timestamp)
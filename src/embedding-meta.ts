@@ -0,0 +1,205 @@
+import type { KnowledgeDB } from "./db.js";
+import type { EmbeddingProvider } from "./embedding-providers.js";
+import { LOCAL_MODELS, DEFAULT_LOCAL_MODEL } from "./embedding-providers.js";
+import {
+  embedBatch,
+  embeddingText,
+  getEmbeddingProvider,
+  EMBEDDING_TEXT_VERSION,
+} from "./embeddings.js";
+
+const META_MODEL = "embedding_model";
+const META_DIM = "embedding_dim";
+const META_TEXT_VERSION = "embedding_text_version";
+const META_REINDEX_CURSOR = "reindex_cursor";
+const META_REINDEX_TARGET = "reindex_target";
+
+export const DEFAULT_REINDEX_BATCH_SIZE = 32;
+
+export interface EmbeddingStatus {
+  /** What the meta table says produced the stored vectors. */
+  stored: { model: string | null; dimensions: number | null; text_version: number | null };
+  /** The provider this process would embed with, or null when the embedding config is invalid. */
+  active: { model: string; dimensions: number | null; text_version: number } | null;
+  /** Stored vector count per dimension. */
+  stored_dimensions: Record<number, number>;
+  /** A reindex started but did not finish. */
+  reindex_pending: boolean;
+  /** Human-readable description of any mismatch, or null when consistent. */
+  mismatch: string | null;
+}
+
+function parseIntOrNull(value: string | undefined): number | null {
+  if (value === undefined) return null;
+  const parsed = Number.parseInt(value, 10);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Compare the recorded embedding metadata with the stored vectors and the active provider.
+ *
+ * Without an explicit provider, an invalid embedding config is reported in
+ * `mismatch` rather than thrown, so status reports still work.
+ */
+export function getEmbeddingStatus(db: KnowledgeDB, provider?: EmbeddingProvider): EmbeddingStatus {
+  let providerError: string | null = null;
+  if (!provider) {
+    try {
+      provider = getEmbeddingProvider();
+    } catch (err) {
+      providerError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const stored = {
+    model: db.getMeta(META_MODEL) ?? null,
+    dimensions: parseIntOrNull(db.getMeta(META_DIM)),
+    text_version: parseIntOrNull(db.getMeta(META_TEXT_VERSION)),
+  };
+  const active = provider
+    ? { model: provider.id, dimensions: provider.dimensions, text_version: EMBEDDING_TEXT_VERSION }
+    : null;
+  const storedDimensions = db.getEmbeddingDimensionCounts();
+  const dims = Object.keys(storedDimensions).map(Number);
+  const reindexPending = db.getMeta(META_REINDEX_CURSOR) !== undefined;
+
+  const problems: string[] = [];
+  if (dims.length > 0 && stored.model === null) {
+    problems.push("stored embeddings have no recorded model");
+  }
+  if (active && stored.model !== null && stored.model !== active.model) {
+    problems.push(`stored embeddings come from ${stored.model} but the active provider is ${active.model}`);
+  }
+  if (active && active.dimensions !== null) {
+    // Search only compares vectors of the active provider's dimension
+    for (const dim of dims.filter((d) => d !== active.dimensions)) {
+      const count = storedDimensions[dim];
+      problems.push(
+        `${count} stored embedding${count !== 1 ? "s have" : " has"} ${dim} dimensions but the active provider produces ${active.dimensions}, so search skips ${count !== 1 ? "them" : "it"}`
+      );
+    }
+  } else if (dims.length > 1) {
+    problems.push(`stored embeddings mix dimensions ${dims.join(", ")}`);
+  }
+  if (stored.text_version !== null && stored.text_version !== EMBEDDING_TEXT_VERSION) {
+    problems.push(
+      `stored embeddings use embedding text v${stored.text_version}, current is v${EMBEDDING_TEXT_VERSION}`
+    );
+  }
+  if (reindexPending) {
+    problems.push("a reindex was interrupted");
+  }
+
+  const messages: string[] = [];
+  if (providerError) {
+    messages.push(`Embedding provider unavailable: ${providerError} Check the embedding settings with "megamemory config list".`);
+  }
+  if (problems.length > 0) {
+    messages.push(`Embedding mismatch: ${problems.join("; ")}. Run "megamemory reindex" to recompute embeddings.`);
+  }
+
+  return {
+    stored,
+    active,
+    stored_dimensions: storedDimensions,
+    reindex_pending: reindexPending,
+    mismatch: messages.length > 0 ? messages.join(" ") : null,
+  };
+}
+
+/**
+ * Fill in missing embedding metadata at startup, then report the status.
+ *
+ * An empty graph is stamped with the active provider. A graph from before
+ * metadata existed is stamped with the default model when every stored vector
+ * has its dimension, since that was the only model megamemory used then.
+ */
+export function recordEmbeddingMeta(
+  db: KnowledgeDB,
+  provider: EmbeddingProvider = getEmbeddingProvider()
+): EmbeddingStatus {
+  if (db.getMeta(META_MODEL) === undefined) {
+    const dims = Object.keys(db.getEmbeddingDimensionCounts()).map(Number);
+    const legacy = LOCAL_MODELS[DEFAULT_LOCAL_MODEL];
+    if (dims.length === 0) {
+      stampMeta(db, provider.id, provider.dimensions);
+    } else if (dims.length === 1 && dims[0] === legacy.dimensions) {
+      stampMeta(db, `transformers:${legacy.model}`, legacy.dimensions);
+    }
+  }
+  return getEmbeddingStatus(db, provider);
+}
+
+function stampMeta(db: KnowledgeDB, model: string, dimensions: number | null): void {
+  db.runInTransaction(() => {
+    db.setMeta(META_MODEL, model);
+    if (dimensions !== null) {
+      db.setMeta(META_DIM, String(dimensions));
+    } else {
+      db.deleteMeta(META_DIM);
+    }
+    db.setMeta(META_TEXT_VERSION, String(EMBEDDING_TEXT_VERSION));
+  });
+}
+
+/**
+ * Recompute every node's embedding with the active provider, in ID order.
+ *
+ * Progress is checkpointed in the meta table after each batch, so an
+ * interrupted run resumes where it stopped (unless `restart` is set or the
+ * provider changed in between). Metadata is updated once all nodes are done.
+ */
+export async function reindexEmbeddings(
+  db: KnowledgeDB,
+  options: {
+    batchSize?: number;
+    restart?: boolean;
+    onProgress?: (progress: { done: number; total: number }) => void;
+  } = {}
+): Promise<{ reindexed: number; total: number; resumed: boolean }> {
+  const provider = getEmbeddingProvider();
+  const batchSize = options.batchSize ?? DEFAULT_REINDEX_BATCH_SIZE;
+  const target = `${provider.id}|text-v${EMBEDDING_TEXT_VERSION}`;
+
+  let cursor: string | null = null;
+  if (!options.restart && db.getMeta(META_REINDEX_TARGET) === target) {
+    cursor = db.getMeta(META_REINDEX_CURSOR) ?? null;
+  }
+  const resumed = cursor !== null;
+  db.runInTransaction(() => {
+    db.setMeta(META_REINDEX_TARGET, target);
+    if (!resumed) db.deleteMeta(META_REINDEX_CURSOR);
+  });
+
+  const total = db.countNodesForReindex(null);
+  let done = total - db.countNodesForReindex(cursor);
+  let reindexed = 0;
+  let dimensions = provider.dimensions;
+  options.onProgress?.({ done, total });
+
+  for (;;) {
+    const batch = db.getNodesForReindex(cursor, batchSize);
+    if (batch.length === 0) break;
+
+    const embeddings = await embedBatch(batch.map((n) => embeddingText(n.name, n.kind, n.summary)));
+    dimensions ??= embeddings[0].byteLength / Float32Array.BYTES_PER_ELEMENT;
+    cursor = batch[batch.length - 1].id;
+    const checkpoint = cursor;
+    db.runInTransaction(() => {
+      db.setEmbeddings(batch.map((n, i) => ({ id: n.id, embedding: embeddings[i] })));
+      db.setMeta(META_REINDEX_CURSOR, checkpoint);
+    });
+
+    done += batch.length;
+    reindexed += batch.length;
+    options.onProgress?.({ done, total });
+  }
+
+  db.runInTransaction(() => {
+    stampMeta(db, provider.id, dimensions);
+    db.deleteMeta(META_REINDEX_CURSOR);
+    db.deleteMeta(META_REINDEX_TARGET);
+  });
+
+  return { reindexed, total, resumed };
+}
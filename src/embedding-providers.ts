@@ -0,0 +1,197 @@
+import type { FeatureExtractionPipeline } from "@xenova/transformers";
+
+/**
+ * Something that turns text into embedding vectors.
+ */
+export interface EmbeddingProvider {
+  /** Stable identifier, e.g. "transformers:Xenova/all-MiniLM-L6-v2". */
+  readonly id: string;
+  /** Vector length, or null until the provider has produced its first vector. */
+  readonly dimensions: number | null;
+  /** Load models or check connectivity ahead of the first embed call. */
+  initialize(): Promise<void>;
+  /** One vector per input text, in input order. */
+  embed(texts: string[]): Promise<Float32Array[]>;
+}
+
+export interface EmbeddingConfig {
+  provider?: "transformers" | "openai";
+  /** Local model key (see LOCAL_MODELS) or a Hugging Face model ID; remote model name for openai. */
+  model?: string;
+  /** Base URL of an OpenAI-compatible API, e.g. http://localhost:11434/v1. */
+  url?: string;
+  api_key?: string;
+  /** Expected vector length; required for unlisted local models, optional for openai. */
+  dimensions?: number;
+}
+
+/** Local ONNX models that work with transformers.js out of the box. */
+export const LOCAL_MODELS: Record<string, { model: string; dimensions: number }> = {
+  minilm: { model: "Xenova/all-MiniLM-L6-v2", dimensions: 384 },
+  "bge-small": { model: "Xenova/bge-small-en-v1.5", dimensions: 384 },
+  "multilingual-minilm": { model: "Xenova/paraphrase-multilingual-MiniLM-L12-v2", dimensions: 384 },
+};
+
+export const DEFAULT_LOCAL_MODEL = "minilm";
+
+const HTTP_TIMEOUT_MS = 30_000;
+
+// ---- transformers.js ----
+
+export class TransformersProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly dimensions: number;
+  private extractor: Promise<FeatureExtractionPipeline> | null = null;
+
+  constructor(private readonly model: string, dimensions: number) {
+    this.id = `transformers:${model}`;
+    this.dimensions = dimensions;
+  }
+
+  async initialize(): Promise<void> {
+    await this.getExtractor();
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    if (texts.length === 0) return [];
+    const extractor = await this.getExtractor();
+    // One model call for the whole batch; the output is an [n, dim] tensor
+    const output = await extractor(texts, { pooling: "mean", normalize: true });
+    const data = output.data as Float32Array;
+    const dim = data.length / texts.length;
+    return texts.map((_, i) => data.slice(i * dim, (i + 1) * dim));
+  }
+
+  private getExtractor(): Promise<FeatureExtractionPipeline> {
+    if (!this.extractor) {
+      // Imported lazily so keyword-only and HTTP setups never load onnxruntime
+      this.extractor = import("@xenova/transformers")
+        .then(({ pipeline }) => pipeline("feature-extraction", this.model, { quantized: true }))
+        .catch((err) => {
+          this.extractor = null;
+          throw err;
+        });
+    }
+    return this.extractor;
+  }
+}
+
+// ---- OpenAI-compatible HTTP ----
+
+export class OpenAICompatibleProvider implements EmbeddingProvider {
+  readonly id: string;
+  private _dimensions: number | null;
+
+  constructor(
+    private readonly url: string,
+    private readonly model: string,
+    private readonly apiKey?: string,
+    dimensions?: number
+  ) {
+    this.id = `openai:${model}`;
+    this._dimensions = dimensions ?? null;
+  }
+
+  get dimensions(): number | null {
+    return this._dimensions;
+  }
+
+  async initialize(): Promise<void> {
+    if (this._dimensions === null) {
+      await this.embed(["megamemory"]);
+    }
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const endpoint = `${this.url.replace(/\/+$/, "")}/embeddings`;
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => "");
+      throw new Error(
+        `Embedding request to ${endpoint} failed: HTTP ${response.status}${body ? ` — ${body.slice(0, 200)}` : ""}`
+      );
+    }
+
+    const payload = (await response.json()) as {
+      data?: Array<{ embedding: number[]; index?: number }>;
+    };
+    if (!Array.isArray(payload.data) || payload.data.length !== texts.length) {
+      throw new Error(
+        `Embedding response from ${endpoint} has ${payload.data?.length ?? 0} vectors for ${texts.length} inputs`
+      );
+    }
+
+    const vectors = [...payload.data]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map((d) => Float32Array.from(d.embedding));
+    if (this._dimensions === null) {
+      this._dimensions = vectors[0].length;
+    }
+    return vectors;
+  }
+}
+
+// ---- Selection ----
+
+/**
+ * Read embedding settings from the environment:
+ * MEGAMEMORY_EMBEDDING_PROVIDER, MEGAMEMORY_EMBEDDING_MODEL, MEGAMEMORY_EMBEDDING_URL,
+ * MEGAMEMORY_EMBEDDING_API_KEY (falls back to OPENAI_API_KEY), MEGAMEMORY_EMBEDDING_DIM.
+ */
+export function embeddingConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingConfig {
+  const config: EmbeddingConfig = {};
+  const provider = env.MEGAMEMORY_EMBEDDING_PROVIDER;
+  if (provider) {
+    if (provider !== "transformers" && provider !== "openai") {
+      throw new Error(
+        `Unknown embedding provider "${provider}". Use "transformers" or "openai".`
+      );
+    }
+    config.provider = provider;
+  }
+  if (env.MEGAMEMORY_EMBEDDING_MODEL) config.model = env.MEGAMEMORY_EMBEDDING_MODEL;
+  if (env.MEGAMEMORY_EMBEDDING_URL) config.url = env.MEGAMEMORY_EMBEDDING_URL;
+  const apiKey = env.MEGAMEMORY_EMBEDDING_API_KEY ?? env.OPENAI_API_KEY;
+  if (apiKey) config.api_key = apiKey;
+  if (env.MEGAMEMORY_EMBEDDING_DIM) {
+    const dimensions = Number.parseInt(env.MEGAMEMORY_EMBEDDING_DIM, 10);
+    if (!Number.isFinite(dimensions) || dimensions < 1) {
+      throw new Error(`Invalid MEGAMEMORY_EMBEDDING_DIM "${env.MEGAMEMORY_EMBEDDING_DIM}".`);
+    }
+    config.dimensions = dimensions;
+  }
+  return config;
+}
+
+export function createEmbeddingProvider(config: EmbeddingConfig = {}): EmbeddingProvider {
+  if (config.provider === "openai") {
+    if (!config.url) {
+      throw new Error("The openai embedding provider needs a url (MEGAMEMORY_EMBEDDING_URL).");
+    }
+    if (!config.model) {
+      throw new Error("The openai embedding provider needs a model (MEGAMEMORY_EMBEDDING_MODEL).");
+    }
+    return new OpenAICompatibleProvider(config.url, config.model, config.api_key, config.dimensions);
+  }
+
+  const key = config.model ?? DEFAULT_LOCAL_MODEL;
+  const known = LOCAL_MODELS[key] ?? Object.values(LOCAL_MODELS).find((m) => m.model === key);
+  if (known) {
+    return new TransformersProvider(known.model, config.dimensions ?? known.dimensions);
+  }
+  if (!config.dimensions) {
+    throw new Error(
+      `Unknown local embedding model "${key}". Use one of ${Object.keys(LOCAL_MODELS).join(", ")}, or set its dimensions (MEGAMEMORY_EMBEDDING_DIM).`
+    );
+  }
+  return new TransformersProvider(key, config.dimensions);
+}
@@ -1,24 +1,42 @@
-import { pipeline, type FeatureExtractionPipeline } from "@xenova/transformers";
+import {
+  createEmbeddingProvider,
+  LOCAL_MODELS,
+  DEFAULT_LOCAL_MODEL,
+  type EmbeddingProvider,
+} from "./embedding-providers.js";
+import { loadConfig } from "./config.js";
 
-const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
-const EMBEDDING_DIM = 384;
+/** Dimension of the default local model (all-MiniLM-L6-v2). */
+const EMBEDDING_DIM = LOCAL_MODELS[DEFAULT_LOCAL_MODEL].dimensions;
 
-let extractor: FeatureExtractionPipeline | null = null;
+/**
+ * Version of the embeddingText() format. Bump it whenever the format changes
+ * so stored vectors are reported as stale until `megamemory reindex` runs.
+ */
+export const EMBEDDING_TEXT_VERSION = 1;
+
+let provider: EmbeddingProvider | null = null;
 
 /**
- * Initialize the embedding model. Called lazily on first use.
+ * The active embedding provider. Chosen from the resolved config on first use
+ * unless one was set explicitly with setEmbeddingProvider.
  */
-async function getExtractor(): Promise<FeatureExtractionPipeline> {
-  if (!extractor) {
-    extractor = await pipeline("feature-extraction", MODEL_NAME, {
-      quantized: true,
-    });
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!provider) {
+    provider = createEmbeddingProvider(loadConfig().settings.embedding);
   }
-  return extractor;
+  return provider;
+}
+
+/**
+ * Replace the active provider (null resets to the environment default).
+ */
+export function setEmbeddingProvider(next: EmbeddingProvider | null): void {
+  provider = next;
 }
 
 export async function initializeEmbeddings(): Promise<void> {
-  await getExtractor();
+  await getEmbeddingProvider().initialize();
 }
 
 /**
@@ -26,24 +44,38 @@ export async function initializeEmbeddings(): Promise<void> {
  * Returns a Buffer containing float32 values.
  */
 export async function embed(text: string): Promise<Buffer> {
-  // Validate input text
-  if (!text || text.trim().length === 0) {
-    throw new Error(`Cannot embed empty text`);
-  }
-
-  const ext = await getExtractor();
-  const output = await ext(text, { pooling: "mean", normalize: true });
-  const data = output.data as Float32Array;
-  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  const [buffer] = await embedBatch([text]);
+  return buffer;
+}
 
-  // Validate embedding has correct dimensions
-  if (buffer.length !== EMBEDDING_DIM * Float32Array.BYTES_PER_ELEMENT) {
-    throw new Error(
-      `Invalid embedding dimension: expected ${EMBEDDING_DIM} floats (${EMBEDDING_DIM * Float32Array.BYTES_PER_ELEMENT} bytes), got ${data.length} floats (${buffer.length} bytes). Text: "${text.substring(0, 50)}..."`
-    );
+/**
+ * Generate embeddings for several texts in one provider call.
+ * Returns one Buffer of float32 values per text, in input order.
+ */
+export async function embedBatch(texts: string[]): Promise<Buffer[]> {
+  // Validate input text
+  for (const text of texts) {
+    if (!text || text.trim().length === 0) {
+      throw new Error(`Cannot embed empty text`);
+    }
   }
-
-  return buffer;
+  if (texts.length === 0) return [];
+
+  const active = getEmbeddingProvider();
+  const vectors = await active.embed(texts);
+
+  return vectors.map((data, i) => {
+    const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+
+    // Validate embedding has the dimension the provider reports
+    const expected = active.dimensions;
+    if (expected !== null && data.length !== expected) {
+      throw new Error(
+        `Invalid embedding dimension: expected ${expected} floats (${expected * Float32Array.BYTES_PER_ELEMENT} bytes), got ${data.length} floats (${buffer.length} bytes). Text: "${texts[i].substring(0, 50)}..."`
+      );
+    }
+    return buffer;
+  });
 }
 
 /**
@@ -96,6 +128,7 @@ export function cosineSimilarity(a: Buffer, b: Buffer): number {
 
 /**
  * Find the top-K most similar nodes from a list of candidates.
+ * Candidates embedded with a different dimension (another model) are skipped.
  */
 export function findTopK(
   queryEmbedding: Buffer,
@@ -109,7 +142,12 @@ export function findTopK(
   topK: number
 ): Array<{ id: string; similarity: number }> {
   const scored = candidates
-    .filter((c) => c.embedding !== null && c.embedding.length > 0)
+    .filter(
+      (c) =>
+        c.embedding !== null &&
+        c.embedding.length > 0 &&
+        c.embedding.byteLength === queryEmbedding.byteLength
+    )
     .map((c) => ({
       id: c.id,
       similarity: cosineSimilarity(queryEmbedding, c.embedding!),
@@ -0,0 +1,147 @@
+import fs from "fs";
+import pc from "picocolors";
+import { KnowledgeDB } from "./db.js";
+import { defaultFileRefRoot } from "./file-refs.js";
+import { checkRefs, logRefFixes, ISSUE_LABELS } from "./check-refs.js";
+import { conceptsForFile } from "./tools.js";
+import { createTimelineLogger } from "./timeline.js";
+import { errorBold, success, info, loadSettings } from "./cli-utils.js";
+
+const BOOLEAN_FLAGS = new Set(["--json", "--fix"]);
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  let i = 0;
+  while (i < args.length) {
+    if (BOOLEAN_FLAGS.has(args[i])) {
+      i++;
+    } else if (args[i].startsWith("--")) {
+      // Value flag — skip the flag and its value
+      i += 2;
+    } else {
+      positional.push(args[i]);
+      i++;
+    }
+  }
+  return positional;
+}
+
+function parsePositiveInt(args: string[], flag: string): number | undefined {
+  const raw = getFlag(args, flag);
+  if (raw === undefined) return undefined;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isInteger(value) || value < 1) {
+    errorBold(`Invalid ${flag} "${raw}". Use a positive integer.`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// ---- for-file command ----
+
+export async function runForFile(args: string[]): Promise<void> {
+  const positional = getPositionalArgs(args);
+  if (positional.length < 1) {
+    errorBold("Usage: megamemory for-file <path|glob>[:line] [--line N] [--limit N] [--db <path>] [--json]");
+    process.exit(1);
+  }
+
+  const settings = loadSettings();
+  const dbPath = getFlag(args, "--db") ?? settings.db_path;
+  const json = args.includes("--json");
+  const line = parsePositiveInt(args, "--line");
+  const limit = parsePositiveInt(args, "--limit");
+
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const target = positional[0];
+    const result = conceptsForFile(db, { path: target, line, limit }, { root: defaultFileRefRoot() });
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    const location = line !== undefined ? `${target}:${line}` : target;
+    if (result.total === 0) {
+      info(`No concepts reference ${location}.`);
+      return;
+    }
+
+    console.log(
+      pc.bold(`\n  ${result.total} concept${result.total !== 1 ? "s" : ""} reference ${location}:\n`)
+    );
+    for (const match of result.matches) {
+      console.log(`  ${pc.cyan("●")} ${pc.bold(match.id)} ${pc.dim(`[${match.kind}] ${match.specificity}`)}`);
+      console.log(pc.dim(`      ${match.refs.join(", ")}`));
+      console.log(`      ${match.summary}`);
+    }
+    if (result.matches.length < result.total) {
+      console.log(pc.dim(`\n  ${result.total - result.matches.length} more; raise --limit to see them.`));
+    }
+    console.log();
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
+
+// ---- check-refs command ----
+
+export async function runCheckRefs(args: string[]): Promise<void> {
+  const settings = loadSettings();
+  const dbPath = getFlag(args, "--db") ?? settings.db_path;
+  const json = args.includes("--json");
+  const fix = args.includes("--fix");
+
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const result = checkRefs(db, { fix }, { root: defaultFileRefRoot() });
+    if (result.fixed > 0) {
+      logRefFixes(createTimelineLogger(db), result, { source: "cli" });
+    }
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.issues.length === 0) {
+      success(`${result.message}.`);
+      return;
+    }
+
+    console.log(pc.bold(`\n  ${result.message}:\n`));
+    for (const issue of result.issues) {
+      const marker = issue.fixed_ref ? pc.green("✔") : issue.issue === "renamed" ? pc.yellow("●") : pc.red("●");
+      console.log(`  ${marker} ${pc.bold(issue.id)} ${pc.dim(`[${ISSUE_LABELS[issue.issue]}]`)} ${issue.ref}`);
+      console.log(pc.dim(`      ${issue.fixed_ref ? `rewritten to ${issue.fixed_ref}` : issue.detail}`));
+    }
+    console.log();
+    if (!fix && result.issues.some((issue) => issue.issue === "renamed")) {
+      info(`Run with --fix to rewrite renamed paths.`);
+    }
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { findProjectRoot } from "./config.js";
+
+export interface FileRef {
+  /** The reference as stored on the concept. */
+  raw: string;
+  /** File path without the line range, relative to the project root unless absolute. */
+  path: string;
+  startLine?: number;
+  endLine?: number;
+  /** Function, class or other named thing the reference points at. */
+  symbol?: string;
+}
+
+/**
+ * Split a stored reference such as `src/db.ts:10-42` or `src/db.ts#L10-L42`
+ * into its path and optional line range. A trailing `#name`, as in
+ * `src/db.ts#KnowledgeDB.getNode` or `src/db.ts:10-42#getNode`, names a symbol.
+ */
+export function parseFileRef(raw: string): FileRef {
+  const trimmed = raw.trim();
+  const match =
+    /^(.*?)(?::(\d+)(?:-(\d+))?|#L(\d+)(?:-L?(\d+))?)?(?:#([^#:\s/]+))?$/.exec(trimmed);
+  if (!match || !match[1]) return { raw, path: trimmed };
+
+  const start = match[2] ?? match[4];
+  const end = match[3] ?? match[5];
+  return {
+    raw,
+    path: match[1],
+    ...(start ? { startLine: Number(start) } : {}),
+    ...(end ? { endLine: Number(end) } : {}),
+    ...(match[6] ? { symbol: match[6] } : {}),
+  };
+}
+
+/**
+ * Canonical spelling of a reference path, so `./src\\db.ts` and `src/db.ts`
+ * are looked up as the same file.
+ */
+export function normalizeRefPath(refPath: string): string {
+  const normalized = path.posix.normalize(refPath.trim().replace(/\\/g, "/"));
+  return normalized === "." ? "" : normalized.replace(/^\.\//, "").replace(/\/$/, "");
+}
+
+export function isGlob(pattern: string): boolean {
+  return /[*?[{]/.test(pattern);
+}
+
+/**
+ * Compile a glob to a regular expression over normalized paths: `*` and `?`
+ * stay within one directory, `**` crosses directories, and `{a,b}` and
+ * `[abc]` match alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let braces = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "*" && pattern[i + 1] === "*") {
+      const slash = pattern[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else if (char === "[") {
+      const close = pattern.indexOf("]", i + 1);
+      if (close === -1) {
+        source += "\\[";
+      } else {
+        source += `[${pattern.slice(i + 1, close).replace(/^!/, "^").replace(/\\/g, "\\\\")}]`;
+        i = close;
+      }
+    } else if (char === "{") {
+      braces++;
+      source += "(?:";
+    } else if (char === "}" && braces > 0) {
+      braces--;
+      source += ")";
+    } else if (char === "," && braces > 0) {
+      source += "|";
+    } else {
+      source += char.replace(/[.+^$()|\\\]]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Directory file references are resolved against: the project containing
+ * .megamemory, or the working directory outside a project.
+ */
+export function defaultFileRefRoot(cwd: string = process.cwd()): string {
+  return findProjectRoot(cwd) ?? cwd;
+}
+
+export function resolveFileRef(root: string, raw: string): string {
+  const ref = parseFileRef(raw);
+  return path.isAbsolute(ref.path) ? ref.path : path.join(root, ref.path);
+}
+
+/**
+ * Last modification time of the referenced file in milliseconds,
+ * or null if it does not exist.
+ */
+export function fileRefMtime(root: string, raw: string): number | null {
+  try {
+    return fs.statSync(resolveFileRef(root, raw)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,255 @@
+import { coerceAttributeValue } from "./attributes.js";
+import type { AttributeRow, NodeRow } from "./types.js";
+
+/**
+ * Filter expressions for find_concepts, e.g.
+ *
+ *   owner=payments AND kind=module
+ *   (tag=security OR tag=pci) AND NOT legacy_flag=true
+ *   port>=8000 AND reviewed_at<2025-01-01
+ *
+ * A comparison is `field op value`, where op is one of = != < <= > >= ~
+ * (~ is a case-insensitive substring match). A bare field tests that the
+ * attribute is set. Built-in fields are id, name, kind, summary, parent and
+ * tag; anything else is an attribute. Values containing spaces or operator
+ * characters go in double quotes. AND binds tighter than OR.
+ */
+
+export type ComparisonOperator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "~";
+
+export type FilterExpression =
+  | { type: "and" | "or"; left: FilterExpression; right: FilterExpression }
+  | { type: "not"; operand: FilterExpression }
+  | { type: "compare"; field: string; operator: ComparisonOperator; value: string }
+  | { type: "exists"; field: string };
+
+/** What a filter is evaluated against. */
+export interface FilterSubject {
+  node: Pick<NodeRow, "id" | "name" | "kind" | "summary" | "parent_id">;
+  tags: string[];
+  attributes: AttributeRow[];
+}
+
+const NODE_FIELDS = ["id", "name", "kind", "summary", "parent"] as const;
+type NodeField = (typeof NODE_FIELDS)[number];
+
+const OPERATORS: ComparisonOperator[] = ["!=", "<=", ">=", "=", "<", ">", "~"];
+
+type Token =
+  | { kind: "word"; text: string; pos: number }
+  | { kind: "string"; text: string; pos: number }
+  | { kind: "op"; text: ComparisonOperator; pos: number }
+  | { kind: "paren"; text: "(" | ")"; pos: number };
+
+function filterError(message: string, pos?: number): Error {
+  return new Error(`Invalid filter: ${message}${pos !== undefined ? ` (at position ${pos + 1})` : ""}.`);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: "paren", text: ch, pos: i });
+      i++;
+    } else if (ch === '"') {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) i++;
+        value += text[i];
+        i++;
+      }
+      if (i >= text.length) throw filterError("unterminated quoted value", start);
+      i++;
+      tokens.push({ kind: "string", text: value, pos: start });
+    } else {
+      const op = OPERATORS.find((o) => text.startsWith(o, i));
+      if (op) {
+        tokens.push({ kind: "op", text: op, pos: i });
+        i += op.length;
+        continue;
+      }
+      const start = i;
+      while (i < text.length && !/[\s()"=!<>~]/.test(text[i])) i++;
+      if (i === start) throw filterError(`unexpected "${ch}"`, i);
+      tokens.push({ kind: "word", text: text.slice(start, i), pos: start });
+    }
+  }
+  return tokens;
+}
+
+function isKeyword(token: Token | undefined, keyword: string): boolean {
+  return token?.kind === "word" && token.text.toUpperCase() === keyword;
+}
+
+/**
+ * Parse a filter expression. Throws with the position of the first problem.
+ */
+export function parseFilter(text: string): FilterExpression {
+  const tokens = tokenize(text);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const end = (): number => (tokens.length > 0 ? tokens[tokens.length - 1].pos + 1 : 0);
+
+  function parseOr(): FilterExpression {
+    let left = parseAnd();
+    while (isKeyword(peek(), "OR")) {
+      pos++;
+      left = { type: "or", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): FilterExpression {
+    let left = parseNot();
+    while (isKeyword(peek(), "AND")) {
+      pos++;
+      left = { type: "and", left, right: parseNot() };
+    }
+    return left;
+  }
+
+  function parseNot(): FilterExpression {
+    if (isKeyword(peek(), "NOT")) {
+      pos++;
+      return { type: "not", operand: parseNot() };
+    }
+    return parsePrimary();
+  }
+
+  function parsePrimary(): FilterExpression {
+    const token = peek();
+    if (!token) throw filterError("expected a condition", end());
+
+    if (token.kind === "paren" && token.text === "(") {
+      pos++;
+      const inner = parseOr();
+      const close = peek();
+      if (close?.kind !== "paren" || close.text !== ")") {
+        throw filterError('expected ")"', close?.pos ?? end());
+      }
+      pos++;
+      return inner;
+    }
+
+    if (token.kind !== "word" || isKeyword(token, "AND") || isKeyword(token, "OR")) {
+      throw filterError(`expected a field name, found "${token.text}"`, token.pos);
+    }
+    pos++;
+    const field = token.text;
+
+    const opToken = peek();
+    if (opToken?.kind !== "op") {
+      if (field === "tag") throw filterError('"tag" needs a value, e.g. tag=security', token.pos);
+      return { type: "exists", field };
+    }
+    pos++;
+
+    const valueToken = peek();
+    if (!valueToken || (valueToken.kind !== "word" && valueToken.kind !== "string")) {
+      throw filterError(`expected a value after "${field}${opToken.text}"`, valueToken?.pos ?? end());
+    }
+    pos++;
+
+    if (field === "tag" && !["=", "!=", "~"].includes(opToken.text)) {
+      throw filterError(`"${opToken.text}" cannot be used with tag`, opToken.pos);
+    }
+    return { type: "compare", field, operator: opToken.text, value: valueToken.text };
+  }
+
+  const expression = parseOr();
+  const extra = peek();
+  if (extra) throw filterError(`unexpected "${extra.text}"`, extra.pos);
+  return expression;
+}
+
+function compareValues(left: string | number, right: string | number, operator: ComparisonOperator): boolean {
+  switch (operator) {
+    case "=":
+      return left === right;
+    case "!=":
+      return left !== right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "~":
+      return String(left).toLowerCase().includes(String(right).toLowerCase());
+  }
+}
+
+function nodeFieldValue(subject: FilterSubject, field: NodeField): string {
+  return field === "parent" ? subject.node.parent_id ?? "" : subject.node[field];
+}
+
+function evaluateAttribute(
+  attribute: AttributeRow | undefined,
+  operator: ComparisonOperator,
+  literal: string
+): boolean {
+  if (!attribute) return operator === "!=";
+  if (operator === "~") return compareValues(attribute.value, literal, "~");
+
+  const expected = coerceAttributeValue(attribute.type, literal);
+  // A literal that doesn't fit the attribute's type never equals it
+  if (expected === undefined) return operator === "!=";
+
+  switch (attribute.type) {
+    case "number":
+      return compareValues(Number(attribute.value), expected as number, operator);
+    case "date":
+      return compareValues(Date.parse(attribute.value), Date.parse(expected as string), operator);
+    case "boolean":
+      if (operator !== "=" && operator !== "!=") return false;
+      return compareValues(attribute.value, String(expected), operator);
+    default:
+      return compareValues(attribute.value, expected as string, operator);
+  }
+}
+
+export function evaluateFilter(expression: FilterExpression, subject: FilterSubject): boolean {
+  switch (expression.type) {
+    case "and":
+      return evaluateFilter(expression.left, subject) && evaluateFilter(expression.right, subject);
+    case "or":
+      return evaluateFilter(expression.left, subject) || evaluateFilter(expression.right, subject);
+    case "not":
+      return !evaluateFilter(expression.operand, subject);
+    case "exists": {
+      if ((NODE_FIELDS as readonly string[]).includes(expression.field)) {
+        return nodeFieldValue(subject, expression.field as NodeField) !== "";
+      }
+      return subject.attributes.some((a) => a.key === expression.field);
+    }
+    case "compare": {
+      const { field, operator, value } = expression;
+      if (field === "tag") {
+        if (operator === "~") return subject.tags.some((t) => compareValues(t, value, "~"));
+        const has = subject.tags.includes(value.toLowerCase());
+        return operator === "=" ? has : !has;
+      }
+      if ((NODE_FIELDS as readonly string[]).includes(field)) {
+        return compareValues(nodeFieldValue(subject, field as NodeField), value, operator);
+      }
+      return evaluateAttribute(subject.attributes.find((a) => a.key === field), operator, value);
+    }
+  }
+}
+
+/**
+ * Parse once and return a predicate for repeated evaluation.
+ */
+export function compileFilter(text: string): (subject: FilterSubject) => boolean {
+  const expression = parseFilter(text);
+  return (subject) => evaluateFilter(expression, subject);
+}
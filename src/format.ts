@@ -0,0 +1,168 @@
+export const OUTPUT_FORMATS = ["json", "markdown"] as const;
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+type JsonObject = { [key: string]: Json };
+
+/**
+ * Serialize a tool result. JSON is the pretty-printed object; markdown
+ * carries the same values with less punctuation: concepts become headed
+ * sections with bullets for their fields, edges and children.
+ */
+export function formatResult(result: unknown, format: OutputFormat): string {
+  if (format === "json") return JSON.stringify(result, null, 2);
+  const lines: string[] = [];
+  const value = JSON.parse(JSON.stringify(result)) as Json;
+  if (isConcept(value)) renderConcept(value, 1, lines);
+  else if (isObject(value)) renderObject(value, 1, lines);
+  else lines.push(inline(value));
+  return lines.join("\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+// ---- Shapes ----
+
+function isObject(value: Json): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isConcept(value: Json): value is JsonObject {
+  return (
+    isObject(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.kind === "string" &&
+    typeof value.summary === "string"
+  );
+}
+
+/** Fits on one bullet: a scalar, a list of scalars, or an object of those. */
+function isInline(value: Json): boolean {
+  if (Array.isArray(value)) return value.every((item) => !isObject(item) && !Array.isArray(item));
+  if (isObject(value)) return Object.values(value).every((item) => !isObject(item) && isInline(item));
+  return true;
+}
+
+function isEmpty(value: Json): boolean {
+  return value === null || (Array.isArray(value) && value.length === 0);
+}
+
+function isBlank(value: Json): boolean {
+  return isEmpty(value) || (isObject(value) && Object.keys(value).length === 0);
+}
+
+// ---- Rendering ----
+
+function heading(level: number, text: string): string {
+  return `${"#".repeat(Math.min(level, 6))} ${text}`;
+}
+
+function inline(value: Json): string {
+  if (Array.isArray(value)) return value.map(inline).join(", ");
+  if (isObject(value)) {
+    return Object.entries(value)
+      .filter(([, item]) => !isEmpty(item))
+      .map(([key, item]) => `${key}=${inline(item)}`)
+      .join(", ");
+  }
+  return String(value);
+}
+
+function ref(name: Json, id: Json): string {
+  return name === id ? `\`${id}\`` : `${name} (\`${id}\`)`;
+}
+
+/**
+ * Fields of an object that is not a concept: scalars first as bullets, then
+ * nested objects and lists under their own headings. Empty lists show as
+ * "none" unless `skip` is given, which is how concepts render their fields.
+ */
+function renderObject(obj: JsonObject, level: number, lines: string[], skip?: string[]): void {
+  const entries = Object.entries(obj).filter(
+    ([key, value]) => value !== null && !(skip && (skip.includes(key) || isBlank(value)))
+  );
+
+  const message = entries.find(([key, value]) => key === "message" && typeof value === "string");
+  if (message) lines.push(String(message[1]), "");
+
+  for (const [key, value] of entries) {
+    if (key === "message" && value === message?.[1]) continue;
+    if (isInline(value)) lines.push(`- **${key}:** ${isBlank(value) ? "none" : inline(value)}`);
+  }
+  lines.push("");
+
+  for (const [key, value] of entries) {
+    if (isInline(value)) continue;
+    if (isConcept(value)) {
+      renderConcept(value, level, lines);
+    } else if (isObject(value)) {
+      lines.push(heading(level, key), "");
+      renderObject(value, level + 1, lines);
+    } else if (Array.isArray(value)) {
+      lines.push(heading(level, `${key} (${value.length})`), "");
+      renderList(value, level + 1, lines);
+    }
+  }
+}
+
+function renderList(items: Json[], level: number, lines: string[]): void {
+  for (const [index, item] of items.entries()) {
+    if (isConcept(item)) {
+      renderConcept(item, level, lines);
+    } else if (isObject(item) && !isInline(item)) {
+      lines.push(heading(level, `${index + 1}.`), "");
+      renderObject(item, level + 1, lines);
+    } else {
+      lines.push(`- ${inline(item)}`);
+    }
+  }
+  lines.push("");
+}
+
+const CONCEPT_FIELDS = ["id", "name", "kind", "summary", "edges", "incoming_edges", "children", "parent", "expansion"];
+
+function renderConcept(concept: JsonObject, level: number, lines: string[]): void {
+  lines.push(heading(level, `${ref(concept.name, concept.id)} · ${concept.kind}`), "", String(concept.summary), "");
+
+  if (isObject(concept.parent)) {
+    lines.push(`- **parent:** ${ref(concept.parent.name, concept.parent.id)}`);
+  }
+  if (isObject(concept.expansion)) {
+    const { path, ...rest } = concept.expansion;
+    const steps = Array.isArray(path)
+      ? path.filter(isObject).map((step) => `${step.from} -${step.relation}-> ${step.to}`)
+      : [];
+    lines.push(`- **expansion:** ${inline(rest)}`, `- **path:** ${steps.join(", ")}`);
+  }
+  renderObject(concept, level + 1, lines, CONCEPT_FIELDS);
+
+  const edges = Array.isArray(concept.edges) ? concept.edges.filter(isObject) : [];
+  if (edges.length > 0) {
+    lines.push("**Edges:**");
+    for (const edge of edges) {
+      lines.push(`- ${edge.relation} → ${ref(edge.to_name, edge.to)}${edge.description ? `: ${edge.description}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  const incoming = Array.isArray(concept.incoming_edges) ? concept.incoming_edges.filter(isObject) : [];
+  if (incoming.length > 0) {
+    lines.push("**Incoming:**");
+    for (const edge of incoming) {
+      lines.push(`- ${edge.relation} ← ${ref(edge.from_name, edge.from)}${edge.description ? `: ${edge.description}` : ""}`);
+    }
+    lines.push("");
+  }
+
+  const children = Array.isArray(concept.children) ? concept.children : [];
+  if (children.length > 0) {
+    lines.push("**Children:**");
+    for (const child of children) {
+      lines.push(
+        isObject(child)
+          ? `- ${ref(child.name, child.id)} · ${child.kind}: ${child.summary}`
+          : `- ${inline(child)}`
+      );
+    }
+    lines.push("");
+  }
+}
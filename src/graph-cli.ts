@@ -0,0 +1,92 @@
+import fs from "fs";
+import pc from "picocolors";
+import { KnowledgeDB } from "./db.js";
+import { whatDependsOn } from "./tools.js";
+import { errorBold, success, warn, loadSettings } from "./cli-utils.js";
+
+const BOOLEAN_FLAGS = new Set(["--json"]);
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  let i = 0;
+  while (i < args.length) {
+    if (BOOLEAN_FLAGS.has(args[i])) {
+      i++;
+    } else if (args[i].startsWith("--")) {
+      // Value flag — skip the flag and its value
+      i += 2;
+    } else {
+      positional.push(args[i]);
+      i++;
+    }
+  }
+  return positional;
+}
+
+// ---- what-depends-on command ----
+
+export async function runWhatDependsOn(args: string[]): Promise<void> {
+  const positional = getPositionalArgs(args);
+  if (positional.length < 1) {
+    errorBold("Usage: megamemory what-depends-on <concept-id> [--depth N] [--db <path>] [--json]");
+    process.exit(1);
+  }
+
+  const settings = loadSettings();
+  const dbPath = getFlag(args, "--db") ?? settings.db_path;
+  const json = args.includes("--json");
+
+  let maxDepth: number | undefined;
+  const rawDepth = getFlag(args, "--depth");
+  if (rawDepth !== undefined) {
+    maxDepth = Number.parseInt(rawDepth, 10);
+    if (!Number.isInteger(maxDepth) || maxDepth < 1) {
+      errorBold(`Invalid --depth "${rawDepth}". Use a positive integer.`);
+      process.exit(1);
+    }
+  }
+
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const result = whatDependsOn(db, { id: positional[0], max_depth: maxDepth });
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.total === 0) {
+      success(`Nothing depends on ${result.id}.`);
+    } else {
+      console.log(pc.bold(`\n  ${result.message}:\n`));
+      for (const group of result.groups) {
+        console.log(`  ${pc.cyan(group.root.id)}${group.root.name !== group.root.id ? ` ${pc.dim(group.root.name)}` : ""}`);
+        for (const dependent of group.dependents) {
+          const via = `${dependent.via.relation} ${dependent.via.to}`;
+          console.log(`    ${pc.bold(dependent.id)} ${pc.dim(`[${dependent.kind}] hop ${dependent.depth}, ${via}`)}`);
+        }
+      }
+      console.log();
+    }
+
+    for (const cycle of result.cycles) {
+      warn(`Cycle: ${[...cycle, cycle[0]].join(" → ")}`);
+    }
+    if (result.cycles.length > 0) console.log();
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,359 @@
+import { KnowledgeDB } from "./db.js";
+import type { EdgeRow, ExpansionStep, PathStep, SubgraphDirection } from "./types.js";
+
+/** Edge relations understand follows when expanding matches. */
+export const EXPANSION_RELATIONS = ["depends_on", "calls", "implements"] as const;
+
+/** Edge relations followed backwards to the concepts relying on a changed one. */
+export const DEPENDENT_RELATIONS = ["depends_on", "calls"] as const;
+
+/** Edge relations what_depends_on follows backwards: a concept relies on what it depends on, calls or implements. */
+export const RELIANCE_RELATIONS = ["depends_on", "calls", "implements"] as const;
+
+type ExpansionRelation = (typeof EXPANSION_RELATIONS)[number] | "parent";
+
+/** Longest path find_path looks for, in hops. */
+export const DEFAULT_PATH_DEPTH = 6;
+
+/** Shortest paths find_path returns when several tie. */
+export const DEFAULT_MAX_PATHS = 5;
+
+/** How far get_subgraph walks from its root, in hops. */
+export const DEFAULT_SUBGRAPH_DEPTH = 2;
+
+/** Concepts get_subgraph collects before it stops walking. */
+export const DEFAULT_SUBGRAPH_NODES = 100;
+
+/** Score multiplier applied per hop, before the relation weight. */
+export const HOP_DECAY = 0.5;
+
+/** How strongly each kind of step carries relevance from one concept to the next. */
+const STEP_WEIGHTS: Record<ExpansionRelation, number> = {
+  depends_on: 1,
+  calls: 0.9,
+  implements: 0.8,
+  parent: 0.7,
+};
+
+export interface Expansion {
+  id: string;
+  score: number;
+  hops: number;
+  seed: string;
+  path: ExpansionStep[];
+}
+
+/** A concept one hop away and the edge (or parent link) that leads to it. */
+interface Neighbour {
+  id: string;
+  step: ExpansionStep;
+}
+
+function expansionSteps(db: KnowledgeDB, id: string): ExpansionStep[] {
+  const steps: ExpansionStep[] = db
+    .getOutgoingEdges(id)
+    .filter((edge) => (EXPANSION_RELATIONS as readonly string[]).includes(edge.relation))
+    .map((edge) => ({ from: id, relation: edge.relation as ExpansionStep["relation"], to: edge.to_id }));
+  const parentId = db.getNode(id)?.parent_id;
+  if (parentId && db.nodeExists(parentId)) {
+    steps.push({ from: id, relation: "parent", to: parentId });
+  }
+  return steps;
+}
+
+/**
+ * Walk out from the seeds one hop at a time through `neighbours`, scoring
+ * each concept reached by the seed's score times HOP_DECAY and the step
+ * weight for every hop, and keeping its best path. Seeds themselves are
+ * never returned.
+ */
+function walk(
+  seeds: Array<{ id: string; score: number }>,
+  maxHops: number,
+  neighbours: (id: string) => Neighbour[]
+): Expansion[] {
+  const seedIds = new Set(seeds.map((seed) => seed.id));
+  const neighbourCache = new Map<string, Neighbour[]>();
+  const best = new Map<string, Expansion>();
+
+  let frontier: Expansion[] = seeds.map((seed) => ({ ...seed, hops: 0, seed: seed.id, path: [] }));
+  for (let hop = 1; hop <= maxHops && frontier.length > 0; hop++) {
+    const next: Expansion[] = [];
+    for (const from of frontier) {
+      let around = neighbourCache.get(from.id);
+      if (!around) {
+        around = neighbours(from.id);
+        neighbourCache.set(from.id, around);
+      }
+      for (const { id, step } of around) {
+        if (seedIds.has(id)) continue;
+        const score = from.score * HOP_DECAY * STEP_WEIGHTS[step.relation as ExpansionRelation];
+        const known = best.get(id);
+        // Only an improvement can change anything downstream, which also ends cycles
+        if (known && known.score >= score) continue;
+        const expansion = { id, score, hops: hop, seed: from.seed, path: [...from.path, step] };
+        best.set(id, expansion);
+        next.push(expansion);
+      }
+    }
+    frontier = next;
+  }
+
+  return [...best.values()].sort(
+    (a, b) => b.score - a.score || a.hops - b.hops || a.id.localeCompare(b.id)
+  );
+}
+
+/**
+ * Concepts within `maxHops` of the seeds along outgoing depends_on, calls and
+ * implements edges and up the parent chain. Each is scored by the seed's
+ * score times HOP_DECAY and the step weight for every hop, keeping its best
+ * path. Seeds themselves are never returned.
+ */
+export function expandFromSeeds(
+  db: KnowledgeDB,
+  seeds: Array<{ id: string; score: number }>,
+  maxHops: number
+): Expansion[] {
+  return walk(seeds, maxHops, (id) => expansionSteps(db, id).map((step) => ({ id: step.to, step })));
+}
+
+/**
+ * Concepts that reach the seeds within `maxHops` through depends_on or calls
+ * edges: whatever relies on them, directly or transitively. Scored like
+ * expandFromSeeds. Path steps are listed from the seed outward but keep each
+ * edge's own direction, so the first step's `to` is the seed.
+ */
+export function expandToDependents(
+  db: KnowledgeDB,
+  seeds: Array<{ id: string; score: number }>,
+  maxHops: number
+): Expansion[] {
+  return walk(seeds, maxHops, (id) =>
+    db
+      .getIncomingEdges(id)
+      .filter((edge) => (DEPENDENT_RELATIONS as readonly string[]).includes(edge.relation))
+      .map((edge) => ({
+        id: edge.from_id,
+        step: { from: edge.from_id, relation: edge.relation as ExpansionStep["relation"], to: id },
+      }))
+  );
+}
+
+export interface PathOptions {
+  relations?: string[];
+  include_hierarchy?: boolean;
+  max_depth?: number;
+  max_paths?: number;
+}
+
+/**
+ * Every hop out of a concept for path finding: its edges in both directions,
+ * plus its parent and children when the hierarchy counts. Sorted so ties
+ * between equally short paths always resolve the same way.
+ */
+function pathSteps(db: KnowledgeDB, id: string, options: PathOptions): PathStep[] {
+  const allowed = (relation: string) => !options.relations || options.relations.includes(relation);
+  const steps: PathStep[] = [
+    ...db
+      .getOutgoingEdges(id)
+      .filter((edge) => allowed(edge.relation))
+      .map((edge) => ({ from: id, to: edge.to_id, relation: edge.relation, reversed: false, description: edge.description })),
+    ...db
+      .getIncomingEdges(id)
+      .filter((edge) => allowed(edge.relation))
+      .map((edge) => ({ from: id, to: edge.from_id, relation: edge.relation, reversed: true, description: edge.description })),
+  ];
+  if (options.include_hierarchy) {
+    const parentId = db.getNode(id)?.parent_id;
+    if (parentId && db.nodeExists(parentId)) {
+      steps.push({ from: id, to: parentId, relation: "parent", reversed: false, description: null });
+    }
+    for (const child of db.getChildren(id)) {
+      steps.push({ from: id, to: child.id, relation: "child", reversed: false, description: null });
+    }
+  }
+  return steps.sort(
+    (a, b) => a.to.localeCompare(b.to) || a.relation.localeCompare(b.relation) || Number(a.reversed) - Number(b.reversed)
+  );
+}
+
+/**
+ * The shortest paths from one concept to another within `max_depth` hops,
+ * walking edges in either direction. Breadth-first, remembering every hop
+ * that reaches a concept at its shortest distance, so all equally short
+ * paths can be listed (up to `max_paths`). Empty when none exists.
+ */
+export function shortestPaths(db: KnowledgeDB, from: string, to: string, options: PathOptions = {}): PathStep[][] {
+  if (from === to) return [[]];
+  const maxDepth = options.max_depth ?? DEFAULT_PATH_DEPTH;
+  const maxPaths = options.max_paths ?? DEFAULT_MAX_PATHS;
+
+  const depth = new Map<string, number>([[from, 0]]);
+  const arrivals = new Map<string, PathStep[]>();
+  let frontier = [from];
+  for (let hop = 1; hop <= maxDepth && frontier.length > 0 && !depth.has(to); hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const step of pathSteps(db, id, options)) {
+        const known = depth.get(step.to);
+        if (known !== undefined && known < hop) continue;
+        if (known === undefined) {
+          depth.set(step.to, hop);
+          arrivals.set(step.to, []);
+          next.push(step.to);
+        }
+        arrivals.get(step.to)!.push(step);
+      }
+    }
+    frontier = next;
+  }
+  if (!depth.has(to)) return [];
+
+  // Walk the recorded arrivals back from the target; each branch is one path
+  const pathsTo = (id: string): PathStep[][] => {
+    if (id === from) return [[]];
+    const paths: PathStep[][] = [];
+    for (const step of arrivals.get(id)!) {
+      for (const prefix of pathsTo(step.from)) {
+        paths.push([...prefix, step]);
+        if (paths.length >= maxPaths) return paths;
+      }
+    }
+    return paths;
+  };
+  return pathsTo(to);
+}
+
+export interface SubgraphOptions {
+  depth?: number;
+  direction?: SubgraphDirection;
+  relations?: string[];
+  max_nodes?: number;
+}
+
+/**
+ * The neighbourhood of a concept: everything within `depth` hops along edges
+ * in `direction`, breadth-first so nearer concepts are kept when `max_nodes`
+ * cuts the walk short. Edges are every active edge between the collected
+ * concepts that passes the relation filter, whichever way it points.
+ */
+export function collectSubgraph(
+  db: KnowledgeDB,
+  root: string,
+  options: SubgraphOptions = {}
+): { nodes: Array<{ id: string; depth: number }>; edges: EdgeRow[]; truncated: boolean } {
+  const maxDepth = options.depth ?? DEFAULT_SUBGRAPH_DEPTH;
+  const maxNodes = options.max_nodes ?? DEFAULT_SUBGRAPH_NODES;
+  const direction = options.direction ?? "both";
+  const allowed = (relation: string) => !options.relations || options.relations.includes(relation);
+
+  const depth = new Map<string, number>([[root, 0]]);
+  let truncated = false;
+  let frontier = [root];
+  for (let hop = 1; hop <= maxDepth && frontier.length > 0 && !truncated; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      const neighbours = [
+        ...(direction !== "in" ? db.getOutgoingEdges(id).filter((e) => allowed(e.relation)).map((e) => e.to_id) : []),
+        ...(direction !== "out" ? db.getIncomingEdges(id).filter((e) => allowed(e.relation)).map((e) => e.from_id) : []),
+      ].sort();
+      for (const neighbour of neighbours) {
+        if (depth.has(neighbour)) continue;
+        if (depth.size >= maxNodes) {
+          truncated = true;
+          break;
+        }
+        depth.set(neighbour, hop);
+        next.push(neighbour);
+      }
+      if (truncated) break;
+    }
+    frontier = next;
+  }
+
+  const edges = [...depth.keys()].flatMap((id) =>
+    db.getOutgoingEdges(id).filter((e) => allowed(e.relation) && depth.has(e.to_id))
+  );
+  return { nodes: [...depth.entries()].map(([id, d]) => ({ id, depth: d })), edges, truncated };
+}
+
+export interface Dependent {
+  id: string;
+  /** Hops from the target along the shortest chain of reliance. */
+  depth: number;
+  /** The edge that first reached this concept; its `to` is one hop closer to the target. */
+  via: ExpansionStep;
+}
+
+/**
+ * Everything that transitively relies on `target` through incoming
+ * depends_on, calls and implements edges, breadth-first so each concept
+ * carries its shortest depth. Cycles are found with a depth-first pass over
+ * the same edges, one per edge that loops back onto the current chain. Each
+ * is listed once, as IDs where every concept relies on the next and the last
+ * relies on the first, starting at the smallest ID.
+ */
+export function dependentsClosure(
+  db: KnowledgeDB,
+  target: string,
+  maxDepth = Infinity
+): { dependents: Dependent[]; cycles: string[][] } {
+  const relianceCache = new Map<string, ExpansionStep[]>();
+  const reliantOn = (id: string): ExpansionStep[] => {
+    let steps = relianceCache.get(id);
+    if (!steps) {
+      steps = db
+        .getIncomingEdges(id)
+        .filter((edge) => (RELIANCE_RELATIONS as readonly string[]).includes(edge.relation))
+        .map((edge) => ({ from: edge.from_id, relation: edge.relation as ExpansionStep["relation"], to: id }))
+        .sort((a, b) => a.from.localeCompare(b.from) || a.relation.localeCompare(b.relation));
+      relianceCache.set(id, steps);
+    }
+    return steps;
+  };
+
+  const depth = new Map<string, number>([[target, 0]]);
+  const dependents: Dependent[] = [];
+  let frontier = [target];
+  for (let hop = 1; hop <= maxDepth && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const id of frontier) {
+      for (const step of reliantOn(id)) {
+        if (depth.has(step.from)) continue;
+        depth.set(step.from, hop);
+        dependents.push({ id: step.from, depth: hop, via: step });
+        next.push(step.from);
+      }
+    }
+    frontier = next;
+  }
+
+  // A reliance edge back onto the current chain closes a cycle
+  const cycles = new Map<string, string[]>();
+  const chain: string[] = [];
+  const onChain = new Set<string>();
+  const done = new Set<string>();
+  const visit = (id: string) => {
+    chain.push(id);
+    onChain.add(id);
+    for (const { from } of reliantOn(id)) {
+      if (!depth.has(from)) continue;
+      if (onChain.has(from)) {
+        // chain[i + 1] relies on chain[i], so reverse to list each concept before what it relies on
+        const cycle = chain.slice(chain.indexOf(from)).reverse();
+        const start = cycle.indexOf([...cycle].sort()[0]);
+        const canonical = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(JSON.stringify(canonical), canonical);
+      } else if (!done.has(from)) {
+        visit(from);
+      }
+    }
+    chain.pop();
+    onChain.delete(id);
+    done.add(id);
+  };
+  visit(target);
+
+  return { dependents, cycles: [...cycles.values()] };
+}
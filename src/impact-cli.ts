@@ -0,0 +1,103 @@
+import fs from "fs";
+import pc from "picocolors";
+import { KnowledgeDB } from "./db.js";
+import { defaultFileRefRoot } from "./file-refs.js";
+import { impactOfChanges } from "./impact.js";
+import { errorBold, success, info, loadSettings } from "./cli-utils.js";
+
+const BOOLEAN_FLAGS = new Set(["--json"]);
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+function getPositionalArgs(args: string[]): string[] {
+  const positional: string[] = [];
+  let i = 0;
+  while (i < args.length) {
+    if (BOOLEAN_FLAGS.has(args[i])) {
+      i++;
+    } else if (args[i].startsWith("--")) {
+      // Value flag — skip the flag and its value
+      i += 2;
+    } else {
+      positional.push(args[i]);
+      i++;
+    }
+  }
+  return positional;
+}
+
+function parseIntFlag(args: string[], flag: string, min: number, max: number): number | undefined {
+  const raw = getFlag(args, flag);
+  if (raw === undefined) return undefined;
+  const value = Number.parseInt(raw, 10);
+  if (!Number.isInteger(value) || value < min || value > max) {
+    errorBold(`Invalid ${flag} "${raw}". Use an integer from ${min} to ${max}.`);
+    process.exit(1);
+  }
+  return value;
+}
+
+// ---- impact command ----
+
+export async function runImpact(args: string[]): Promise<void> {
+  const positional = getPositionalArgs(args);
+  if (positional.length < 1) {
+    errorBold("Usage: megamemory impact <git-range> [--hops N] [--limit N] [--db <path>] [--json]");
+    process.exit(1);
+  }
+
+  const settings = loadSettings();
+  const dbPath = getFlag(args, "--db") ?? settings.db_path;
+  const json = args.includes("--json");
+  const hops = parseIntFlag(args, "--hops", 0, 3);
+  const limit = parseIntFlag(args, "--limit", 1, 500);
+
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const result = impactOfChanges(
+      db,
+      { range: positional[0], max_hops: hops, limit },
+      { root: defaultFileRefRoot() }
+    );
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+      return;
+    }
+
+    if (result.total === 0) {
+      success(`${result.message}.`);
+    } else {
+      console.log(pc.bold(`\n  ${result.message}:\n`));
+      for (const concept of result.concepts) {
+        const marker = concept.impact === "direct" ? pc.yellow("●") : pc.dim("○");
+        console.log(`  ${marker} ${pc.bold(concept.id)} ${pc.dim(`[${concept.kind}] ${concept.score}`)}`);
+        const why = concept.refs
+          ? concept.refs.join(", ")
+          : concept.path!.map((step) => `${step.from} ${step.relation} ${step.to}`).join(", ");
+        console.log(pc.dim(`      ${why}`));
+      }
+      if (result.concepts.length < result.total) {
+        console.log(pc.dim(`\n  ${result.total - result.concepts.length} more; raise --limit to see them.`));
+      }
+      console.log();
+    }
+
+    if (result.unreferenced_files.length > 0) {
+      info(`No concept references ${result.unreferenced_files.length} changed file${result.unreferenced_files.length !== 1 ? "s" : ""}: ${result.unreferenced_files.join(", ")}`);
+    }
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,178 @@
+import { execFileSync } from "child_process";
+import { KnowledgeDB } from "./db.js";
+import { normalizeRefPath } from "./file-refs.js";
+import { expandToDependents } from "./graph.js";
+import type { ExpansionStep, FileRefRow, NodeKind } from "./types.js";
+
+/**
+ * How strongly a changed file implicates a concept referencing it: a line
+ * range the diff touches, a symbol or the whole file (the diff may or may not
+ * touch it), or a line range elsewhere in the file.
+ */
+const REF_WEIGHTS = { touched: 1, file: 0.8, untouched: 0.4 };
+
+export const DEFAULT_IMPACT_HOPS = 2;
+
+export interface ImpactInput {
+  /** Anything `git diff` accepts: `main...HEAD`, `HEAD~3..HEAD`, or a commit for the working tree against it. */
+  range: string;
+  max_hops?: number;
+  limit?: number;
+}
+
+export interface ImpactOptions {
+  /** Directory git runs in; changed paths are relative to it like file_refs. */
+  root: string;
+}
+
+export interface ImpactedConcept {
+  id: string;
+  name: string;
+  kind: NodeKind;
+  summary: string;
+  score: number;
+  /** direct: references a changed file; indirect: depends on or calls a concept that does. */
+  impact: "direct" | "indirect";
+  /** For direct impact, the concept's references to changed files. */
+  refs?: string[];
+  /** For indirect impact, the edges from the directly affected concept. */
+  path?: ExpansionStep[];
+}
+
+export interface ImpactOutput {
+  range: string;
+  changed_files: string[];
+  /** Changed files no concept references. */
+  unreferenced_files: string[];
+  concepts: ImpactedConcept[];
+  total: number;
+  message: string;
+}
+
+/** Lines a diff touched in one file, on either side; null when it has no line hunks (binary, mode change). */
+type ChangedLines = Array<[number, number]> | null;
+
+function git(root: string, args: string[]): string {
+  try {
+    return execFileSync("git", ["-c", "core.quotePath=false", ...args], {
+      cwd: root,
+      encoding: "utf8",
+      stdio: ["ignore", "pipe", "pipe"],
+      maxBuffer: 64 * 1024 * 1024,
+    });
+  } catch (err) {
+    const stderr = (err as { stderr?: string }).stderr?.trim();
+    throw new Error(`git ${args[0]} failed: ${stderr || (err instanceof Error ? err.message : String(err))}`);
+  }
+}
+
+/**
+ * Files changed in `range` with the line ranges their hunks cover, old and
+ * new side both, so references written before or after the change match.
+ * Renames count as a deletion plus an addition, so refs to either name match.
+ */
+export function changedLines(root: string, range: string): Map<string, ChangedLines> {
+  if (range.trim() === "" || range.startsWith("-")) {
+    throw new Error(`Invalid git range "${range}". Use something like main...HEAD or HEAD~1.`);
+  }
+  const files = new Map<string, ChangedLines>();
+  for (const file of git(root, ["diff", "--name-only", "--no-renames", "--relative", range, "--"]).split("\n")) {
+    if (file) files.set(normalizeRefPath(file), null);
+  }
+
+  let current: string | null = null;
+  let inHeader = false;
+  const diff = git(root, [
+    "diff", "-U0", "--no-color", "--no-renames", "--no-ext-diff", "--src-prefix=a/", "--dst-prefix=b/", "--relative", range, "--",
+  ]);
+  for (const line of diff.split("\n")) {
+    if (line.startsWith("diff --git ")) {
+      inHeader = true;
+      continue;
+    }
+    // File names only come before the first hunk; later "---" lines are removed content
+    const header = inHeader ? /^(?:---|\+\+\+) (?:a|b)\/(.+)$/.exec(line) : null;
+    if (header) {
+      current = normalizeRefPath(header[1]);
+      continue;
+    }
+    const hunk = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/.exec(line);
+    if (hunk) inHeader = false;
+    if (hunk && current && files.has(current)) {
+      const ranges = files.get(current) ?? [];
+      for (const [start, count] of [[hunk[1], hunk[2]], [hunk[3], hunk[4]]]) {
+        const length = count === undefined ? 1 : Number(count);
+        // A zero-length side is an insertion or deletion after that line
+        ranges.push(length === 0 ? [Number(start), Number(start)] : [Number(start), Number(start) + length - 1]);
+      }
+      files.set(current, ranges);
+    }
+  }
+  return files;
+}
+
+function refWeight(row: FileRefRow, lines: ChangedLines): number {
+  if (row.start_line === null) return REF_WEIGHTS.file;
+  if (lines === null) return REF_WEIGHTS.touched;
+  const end = row.end_line ?? row.start_line;
+  return lines.some(([start, last]) => start <= end && last >= row.start_line!) ? REF_WEIGHTS.touched : REF_WEIGHTS.untouched;
+}
+
+function round(score: number): number {
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Concepts a git diff affects, ranked for review. Concepts whose file_refs
+ * point at a changed file are affected directly, scored by whether the diff
+ * touches their line range. Concepts that depend on or call those, up to
+ * `max_hops` edges away, are affected indirectly with a decaying score.
+ */
+export function impactOfChanges(db: KnowledgeDB, input: ImpactInput, options: ImpactOptions): ImpactOutput {
+  const changed = changedLines(options.root, input.range);
+  const rows = db.getFileRefsForPaths([...changed.keys()]);
+
+  const direct = new Map<string, { score: number; refs: string[] }>();
+  for (const row of rows) {
+    const weight = refWeight(row, changed.get(row.path)!);
+    const entry = direct.get(row.node_id) ?? { score: 0, refs: [] };
+    entry.score = Math.max(entry.score, weight);
+    entry.refs.push(row.ref);
+    direct.set(row.node_id, entry);
+  }
+
+  const seeds = [...direct.entries()].map(([id, { score }]) => ({ id, score }));
+  const indirect = expandToDependents(db, seeds, input.max_hops ?? DEFAULT_IMPACT_HOPS);
+
+  const concepts: ImpactedConcept[] = [];
+  for (const [id, { score, refs }] of direct) {
+    const node = db.getNode(id)!;
+    concepts.push({ id, name: node.name, kind: node.kind as NodeKind, summary: node.summary, score: round(score), impact: "direct", refs });
+  }
+  for (const expansion of indirect) {
+    const node = db.getNode(expansion.id)!;
+    concepts.push({
+      id: expansion.id,
+      name: node.name,
+      kind: node.kind as NodeKind,
+      summary: node.summary,
+      score: round(expansion.score),
+      impact: "indirect",
+      path: expansion.path,
+    });
+  }
+  concepts.sort(
+    (a, b) => b.score - a.score || Number(a.impact === "indirect") - Number(b.impact === "indirect") || a.id.localeCompare(b.id)
+  );
+
+  const referenced = new Set(rows.map((row) => row.path));
+  const changedFiles = [...changed.keys()];
+  return {
+    range: input.range,
+    changed_files: changedFiles,
+    unreferenced_files: changedFiles.filter((file) => !referenced.has(file)),
+    concepts: concepts.slice(0, input.limit ?? 50),
+    total: concepts.length,
+    message: `Changes to ${changedFiles.length} file${changedFiles.length !== 1 ? "s" : ""} affect ${direct.size} concept${direct.size !== 1 ? "s" : ""} directly and ${indirect.length} through dependencies`,
+  };
+}
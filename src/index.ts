@@ -1,5 +1,6 @@
 #!/usr/bin/env node
 
+import { randomUUID } from "crypto";
 import { readFileSync } from "fs";
 import { dirname, resolve } from "path";
 import { fileURLToPath } from "url";
@@ -27,6 +28,15 @@ ${pc.bold("Commands:")}
   ${pc.cyan("merge")}           Merge two knowledge.db files
   ${pc.cyan("conflicts")}       List unresolved merge conflicts
   ${pc.cyan("resolve")}         Resolve a merge conflict
+  ${pc.cyan("restore")}         Restore a removed concept and its edges
+  ${pc.cyan("move")}            Move a concept under a new parent (renames its subtree)
+  ${pc.cyan("reindex")}         Recompute all embeddings with the configured model
+  ${pc.cyan("config")}          Show or change settings (list, get, set)
+  ${pc.cyan("stale")}           List concepts due for re-verification
+  ${pc.cyan("for-file")}        List concepts that reference a file, glob or line
+  ${pc.cyan("check-refs")}      Find file_refs to missing, shortened or renamed files
+  ${pc.cyan("impact")}          Rank the concepts a git diff affects, for review
+  ${pc.cyan("what-depends-on")} List every concept that transitively relies on one
 
 ${pc.bold("Options:")}
   ${pc.cyan("--target")} ${pc.dim("NAME")}    Install target (opencode, claudecode, antigravity, codex)
@@ -35,8 +45,18 @@ ${pc.bold("Options:")}
   ${pc.cyan("--left-label")}    Label for left side in merge ${pc.dim("(default: left)")}
   ${pc.cyan("--right-label")}   Label for right side in merge ${pc.dim("(default: right)")}
   ${pc.cyan("--keep")}          Resolution strategy: left, right, or both
-  ${pc.cyan("--json")}          Machine-readable output for conflicts
-  ${pc.cyan("--db")} ${pc.dim("PATH")}       Database path for stats/conflicts/resolve
+  ${pc.cyan("--json")}          Machine-readable output for conflicts/config list/stale/for-file/check-refs/impact/what-depends-on
+  ${pc.cyan("--root")}          Move a concept to the top level
+  ${pc.cyan("--batch-size")} ${pc.dim("N")}  Concepts per embedding batch for reindex ${pc.dim("(default: 32)")}
+  ${pc.cyan("--restart")}       Start reindex over instead of resuming
+  ${pc.cyan("--user")}          Write config to the user-level file instead of the project
+  ${pc.cyan("--days")} ${pc.dim("N")}        Staleness threshold for stale ${pc.dim("(default: 30)")}
+  ${pc.cyan("--line")} ${pc.dim("N")}        Line for for-file; references covering it rank first
+  ${pc.cyan("--limit")} ${pc.dim("N")}       Maximum concepts for for-file/impact ${pc.dim("(default: 50)")}
+  ${pc.cyan("--fix")}           Rewrite file_refs to renamed files in check-refs
+  ${pc.cyan("--hops")} ${pc.dim("N")}        Dependency hops impact follows, 0-3 ${pc.dim("(default: 2)")}
+  ${pc.cyan("--depth")} ${pc.dim("N")}       Hops what-depends-on follows ${pc.dim("(default: all)")}
+  ${pc.cyan("--db")} ${pc.dim("PATH")}       Database path for stats/conflicts/resolve/restore/move/reindex/stale/for-file/check-refs/impact/what-depends-on
   ${pc.cyan("--help, -h")}      Show this help
   ${pc.cyan("--version, -v")}   Show version
 
@@ -48,9 +68,19 @@ ${pc.bold("Examples:")}
   ${pc.dim("$")} megamemory merge main.db feature.db --into merged.db ${pc.dim("Merge two knowledge DBs")}
   ${pc.dim("$")} megamemory conflicts                                 ${pc.dim("View unresolved conflicts")}
   ${pc.dim("$")} megamemory resolve <group-id> --keep left            ${pc.dim("Resolve a conflict")}
+  ${pc.dim("$")} megamemory restore auth-module                       ${pc.dim("Undo a remove_concept")}
+  ${pc.dim("$")} megamemory move auth/tokens billing                  ${pc.dim("Reparent to billing/tokens")}
+  ${pc.dim("$")} megamemory reindex                                   ${pc.dim("Re-embed after changing models")}
+  ${pc.dim("$")} megamemory config set top_k 20                       ${pc.dim("Change a project setting")}
+  ${pc.dim("$")} megamemory stale --days 14                           ${pc.dim("Concepts unchecked for two weeks")}
+  ${pc.dim("$")} megamemory for-file src/db.ts:120                    ${pc.dim("What the graph knows about a line")}
+  ${pc.dim("$")} megamemory for-file "src/auth/**/*.ts"               ${pc.dim("Concepts across a directory")}
+  ${pc.dim("$")} megamemory check-refs --fix                          ${pc.dim("Follow git renames in file_refs")}
+  ${pc.dim("$")} megamemory impact main...HEAD --json                 ${pc.dim("Concepts to review before a PR")}
+  ${pc.dim("$")} megamemory what-depends-on db-layer                  ${pc.dim("Everything a refactor would touch")}
 `.trim();
 
-const KNOWN_COMMANDS = new Set(["install", "serve", "stats", "merge", "conflicts", "resolve", "--help", "-h", "--version", "-v"]);
+const KNOWN_COMMANDS = new Set(["install", "serve", "stats", "merge", "conflicts", "resolve", "restore", "move", "reindex", "config", "stale", "for-file", "check-refs", "impact", "what-depends-on", "--help", "-h", "--version", "-v"]);
 
 function parseFlags(args: string[]): { port?: number; rawPort?: string } {
   const portIdx = args.indexOf("--port");
@@ -71,16 +101,18 @@ switch (cmd) {
 
   case "serve": {
     const flags = parseFlags(process.argv.slice(3));
-    const port = flags.port ?? 4321;
 
-    const portError = validatePort(port, flags.rawPort);
-    if (portError) {
-      errorBold(portError);
-      process.exit(1);
+    // Without --port, the port comes from MEGAMEMORY_PORT or the config files
+    if (flags.rawPort !== undefined) {
+      const portError = validatePort(flags.port, flags.rawPort);
+      if (portError) {
+        errorBold(portError);
+        process.exit(1);
+      }
     }
 
     const { runServe } = await import("./web.js");
-    await runServe(port);
+    await runServe(flags.port);
     break;
   }
 
@@ -112,6 +144,69 @@ switch (cmd) {
     break;
   }
 
+  case "restore": {
+    const { runRestore } = await import("./concept-cli.js");
+    await runRestore(process.argv.slice(3));
+    process.exit(0);
+    break;
+  }
+
+  case "move": {
+    const { runMove } = await import("./concept-cli.js");
+    await runMove(process.argv.slice(3));
+    process.exit(0);
+    break;
+  }
+
+  case "reindex": {
+    const { runReindex } = await import("./reindex.js");
+    await runReindex(process.argv.slice(3));
+    process.exit();
+    break;
+  }
+
+  case "config": {
+    const { runConfig } = await import("./config-cli.js");
+    await runConfig(process.argv.slice(3));
+    process.exit(0);
+    break;
+  }
+
+  case "stale": {
+    const { runStale } = await import("./stale-cli.js");
+    await runStale(process.argv.slice(3));
+    process.exit(0);
+    break;
+  }
+
+  case "for-file": {
+    const { runForFile } = await import("./file-refs-cli.js");
+    await runForFile(process.argv.slice(3));
+    process.exit();
+    break;
+  }
+
+  case "check-refs": {
+    const { runCheckRefs } = await import("./file-refs-cli.js");
+    await runCheckRefs(process.argv.slice(3));
+    process.exit();
+    break;
+  }
+
+  case "impact": {
+    const { runImpact } = await import("./impact-cli.js");
+    await runImpact(process.argv.slice(3));
+    process.exit();
+    break;
+  }
+
+  case "what-depends-on": {
+    const { runWhatDependsOn } = await import("./graph-cli.js");
+    await runWhatDependsOn(process.argv.slice(3));
+    process.exit();
+    break;
+  }
+
   case "--help":
   case "-h":
     console.log(HELP);
@@ -152,21 +247,42 @@ async function startMcpServer() {
     "@modelcontextprotocol/sdk/server/stdio.js"
   );
   const { z } = await import("zod");
-  const path = await import("path");
   const { KnowledgeDB } = await import("./db.js");
-  const { understand, getConcept, createConcept, updateConcept, link, removeConcept, listRoots, listConflicts, resolveConflict, formatError } =
+  const { VectorIndex } = await import("./vector-index.js");
+  const { recordEmbeddingMeta } = await import("./embedding-meta.js");
+  const { loadConfig } = await import("./config.js");
+  const { buildVocabulary, customVocabulary, recordVocabulary, kindNames, relationNames, describeKinds, describeRelations } =
+    await import("./vocabulary.js");
+  const { understand, getConcept, findPath, getSubgraph, whatDependsOn, findConcepts, conceptsForFile, createConcept, updateConcept, setAttribute, verifyConcept, link, unlink, updateLink, removeConcept, restoreConcept, moveConcept, getConceptHistory, revertConcept, listRoots, listPendingEdges, listConflicts, resolveConflict, formatError } =
     await import("./tools.js");
+  const { batch } = await import("./batch.js");
+  const { formatResult, OUTPUT_FORMATS } = await import("./format.js");
+  const { defaultFileRefRoot } = await import("./file-refs.js");
+  const { checkRefs, logRefFixes } = await import("./check-refs.js");
+  const { impactOfChanges, DEFAULT_IMPACT_HOPS } = await import("./impact.js");
+  const { DEFAULT_PATH_DEPTH, DEFAULT_MAX_PATHS, DEFAULT_SUBGRAPH_DEPTH, DEFAULT_SUBGRAPH_NODES } = await import("./graph.js");
 
   type NodeKind = import("./types.js").NodeKind;
   type RelationType = import("./types.js").RelationType;
+  type BatchOperation = import("./types.js").BatchOperation;
+  const { ATTRIBUTE_TYPES } = await import("./types.js");
 
   // ---- Configuration ----
-  const DB_PATH =
-    process.env.MEGAMEMORY_DB_PATH ??
-    path.join(process.cwd(), ".megamemory", "knowledge.db");
+  const { settings } = loadConfig();
+  const DB_PATH = settings.db_path;
+
+  const vocabulary = buildVocabulary(settings);
+  const staleness = { staleAfterDays: settings.stale_after_days, root: defaultFileRefRoot() };
 
   const db = new KnowledgeDB(DB_PATH);
+  recordVocabulary(db, customVocabulary(vocabulary));
   const timeline = createTimelineLogger(db);
+  const vectorIndex = new VectorIndex(db, { approximate: settings.approximate_search });
+
+  const embeddingStatus = recordEmbeddingMeta(db);
+  if (embeddingStatus.mismatch) {
+    console.error(`MEGAMEMORY_WARNING: ${embeddingStatus.mismatch}`);
+  }
 
   let dbClosed = false;
   function shutdown() {
@@ -192,39 +308,88 @@ async function startMcpServer() {
     version: VERSION,
   });
 
-  // ---- Zod schemas ----
-  const NodeKindEnum = z.enum([
-    "feature", "module", "pattern", "config", "decision", "component",
-  ]);
-  const RelationEnum = z.enum([
-    "connects_to", "depends_on", "implements", "calls", "configured_by",
-  ]);
+  // ---- Zod schemas (built-in vocabulary plus project config) ----
+  const NodeKindEnum = z.enum(kindNames(vocabulary));
+  const RelationEnum = z.enum(relationNames(vocabulary));
+  const FormatParam = z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(`Response format: json or markdown (compact headed sections) (default: ${settings.output_format})`);
+  function respond(result: unknown, format: (typeof OUTPUT_FORMATS)[number] | undefined) {
+    return { content: [{ type: "text" as const, text: formatResult(result, format ?? settings.output_format) }] };
+  }
+  const MaxTokens = z
+    .number()
+    .int()
+    .min(100)
+    .optional()
+    .describe("Approximate response size limit (4 chars per token). Over it, detail is compacted and the response's budget field lists what was left out");
+  const AttributeScalar = z.union([z.string(), z.number(), z.boolean()]);
+  const AttributesSchema = z
+    .record(
+      z.union([
+        AttributeScalar,
+        z.null(),
+        z.object({ type: z.enum(ATTRIBUTE_TYPES), value: AttributeScalar }),
+      ])
+    )
+    .describe(
+      "Typed facts such as owner, sla, feature_flag, port, env_var. Values are strings, numbers, booleans, or ISO dates; use {type, value} to force a type and null to remove a key."
+    );
 
   // ---- Register tools ----
 
   server.tool(
     "understand",
-    "Query the project knowledge graph. Call this before starting any task to load relevant context about concepts, features, and architecture. Returns matched concepts with their children, edges, and parent context.",
+    "Query the project knowledge graph. Call this before starting any task to load relevant context about concepts, features, and architecture. Returns matched concepts with their children, edges, and parent context. Hybrid mode (the default) fuses semantic similarity with keyword matching, so exact identifiers, env vars, and file paths in the query rank well. Matches carrying a `stale` field have not been verified recently or reference files changed since; re-check them against the code, then call verify_concept or update_concept. With expand, related concepts reached over edges are listed separately under `expanded`, each with the path from the match it was reached from.",
     {
       query: z.string().describe("Natural language query describing what you want to understand about the project"),
-      top_k: z.number().int().min(1).max(50).optional().describe("Number of top results to return (default: 10)"),
+      top_k: z.number().int().min(1).max(50).optional().describe(`Number of top results to return (default: ${settings.top_k})`),
+      mode: z
+        .enum(["semantic", "keyword", "hybrid"])
+        .optional()
+        .describe("Ranking: semantic (embeddings), keyword (full-text), or hybrid fusion of both (default: hybrid)"),
+      tags: z.array(z.string()).optional().describe("Only return concepts carrying at least one of these tags"),
+      exclude_tags: z.array(z.string()).optional().describe("Skip concepts carrying any of these tags"),
+      expand: z
+        .number()
+        .int()
+        .min(0)
+        .max(3)
+        .optional()
+        .describe("Also return concepts up to this many hops from the matches along depends_on/calls/implements edges and the parent chain (default: 0)"),
+      max_tokens: MaxTokens,
+      format: FormatParam,
     },
     async (params) => {
       try {
-        const result = await understand(db, { query: params.query, top_k: params.top_k });
+        const result = await understand(
+          db,
+          {
+            query: params.query,
+            top_k: params.top_k ?? settings.top_k,
+            mode: params.mode,
+            tags: params.tags,
+            exclude_tags: params.exclude_tags,
+            expand: params.expand,
+            max_tokens: params.max_tokens,
+          },
+          { vectorIndex, staleness }
+        );
+        const expanded = result.expanded ?? [];
         timeline.log({
           tool: "understand",
-          params: { query: params.query, top_k: params.top_k },
-          result_summary: `${result.matches.length} matches`,
+          params: { query: params.query, top_k: params.top_k, mode: params.mode, tags: params.tags, exclude_tags: params.exclude_tags, expand: params.expand },
+          result_summary: `${result.matches.length} matches${expanded.length > 0 ? `, ${expanded.length} expanded` : ""}`,
           is_write: false,
           is_error: false,
-          affected_ids: result.matches.map((match) => match.id),
+          affected_ids: [...result.matches, ...expanded].map((match) => match.id),
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "understand",
-          params: { query: params.query, top_k: params.top_k },
+          params: { query: params.query, top_k: params.top_k, mode: params.mode, tags: params.tags, exclude_tags: params.exclude_tags, expand: params.expand },
           result_summary: err instanceof Error ? err.message : String(err),
           is_write: false,
           is_error: true,
@@ -237,13 +402,15 @@ async function startMcpServer() {
 
   server.tool(
     "get_concept",
-    "Look up a concept by its exact ID. Returns the concept with its full context including children, edges, incoming edges, and parent. Unlike 'understand' which uses semantic search, this does exact ID matching. Use this when you know the specific concept ID.",
+    "Look up a concept by its exact ID. Returns the concept with its full context including children, edges, incoming edges, and parent. Unlike 'understand' which uses semantic search, this does exact ID matching. Use this when you know the specific concept ID. Former IDs and alternate names (aliases) also resolve; the response then includes resolved_alias.",
     {
       id: z.string().describe("Exact concept ID to look up (e.g., 'auth-module' or 'database-config')"),
+      max_tokens: MaxTokens,
+      format: FormatParam,
     },
     async (params) => {
       try {
-        const result = getConcept(db, { id: params.id });
+        const result = getConcept(db, { id: params.id, max_tokens: params.max_tokens });
         timeline.log({
           tool: "get_concept",
           params: { id: params.id },
@@ -252,7 +419,7 @@ async function startMcpServer() {
           is_error: false,
           affected_ids: [result.id],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "get_concept",
@@ -267,22 +434,187 @@ async function startMcpServer() {
     }
   );
 
+  server.tool(
+    "find_path",
+    "Explain how two concepts are connected: returns the shortest relationship path(s) between them, with each edge's relation, direction and description along the way. Edges are walked in both directions (reversed marks a step taken against the edge). Use this instead of chaining get_concept calls for questions like 'how does the web explorer relate to the merge engine?'.",
+    {
+      from: z.string().describe("Concept ID the path starts at"),
+      to: z.string().describe("Concept ID the path ends at"),
+      relations: z.array(RelationEnum).optional().describe("Only follow edges of these relation types (default: all)"),
+      include_hierarchy: z.boolean().optional().describe("Also step between a concept and its parent or children (default: false)"),
+      max_depth: z.number().int().min(1).max(10).optional().describe(`Longest path to look for, in hops (default: ${DEFAULT_PATH_DEPTH})`),
+      max_paths: z.number().int().min(1).max(20).optional().describe(`Maximum number of equally short paths to return (default: ${DEFAULT_MAX_PATHS})`),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = findPath(db, {
+          from: params.from,
+          to: params.to,
+          relations: params.relations as RelationType[] | undefined,
+          include_hierarchy: params.include_hierarchy,
+          max_depth: params.max_depth,
+          max_paths: params.max_paths,
+        });
+        timeline.log({
+          tool: "find_path",
+          params: { from: params.from, to: params.to, relations: params.relations, include_hierarchy: params.include_hierarchy },
+          result_summary: result.message,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.concepts.map((concept) => concept.id),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "find_path",
+          params: { from: params.from, to: params.to, relations: params.relations, include_hierarchy: params.include_hierarchy },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "get_subgraph",
+    "Get the neighbourhood of a concept as flat node and edge lists: every concept within depth hops along edges in the given direction, each listed once with its distance from the root, plus the edges between them. Use this for 'everything within 2 hops of db-layer' instead of repeated get_concept calls; it is not a search.",
+    {
+      root: z.string().describe("Concept ID to start from"),
+      depth: z.number().int().min(1).max(5).optional().describe(`Hops to walk from the root (default: ${DEFAULT_SUBGRAPH_DEPTH})`),
+      direction: z.enum(["in", "out", "both"]).optional().describe("Follow outgoing edges, incoming edges, or both (default: both)"),
+      relations: z.array(RelationEnum).optional().describe("Only follow edges of these relation types (default: all)"),
+      max_nodes: z.number().int().min(1).max(1000).optional().describe(`Stop after collecting this many concepts, nearest first (default: ${DEFAULT_SUBGRAPH_NODES})`),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = getSubgraph(db, {
+          root: params.root,
+          depth: params.depth,
+          direction: params.direction,
+          relations: params.relations as RelationType[] | undefined,
+          max_nodes: params.max_nodes,
+        });
+        timeline.log({
+          tool: "get_subgraph",
+          params: { root: params.root, depth: params.depth, direction: params.direction, relations: params.relations, max_nodes: params.max_nodes },
+          result_summary: result.message,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.nodes.map((node) => node.id),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "get_subgraph",
+          params: { root: params.root, depth: params.depth, direction: params.direction, relations: params.relations, max_nodes: params.max_nodes },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "find_concepts",
+    "Find concepts by exact criteria instead of meaning. The filter compares attributes and built-in fields (id, name, kind, summary, parent, tag) with = != < <= > >= or ~ (contains), combined with AND, OR, NOT and parentheses, e.g. 'owner=payments AND kind=module' or 'port>=8000 AND NOT tag=legacy'. A bare attribute name matches concepts that have it set.",
+    {
+      filter: z.string().describe("Filter expression, e.g. owner=payments AND kind=module"),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of matches to return (default: 50)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = findConcepts(db, { filter: params.filter, limit: params.limit });
+        timeline.log({
+          tool: "find_concepts",
+          params: { filter: params.filter, limit: params.limit },
+          result_summary: `${result.total} matches`,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.matches.map((match) => match.id),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "find_concepts",
+          params: { filter: params.filter, limit: params.limit },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "concepts_for_file",
+    "Find the concepts that reference a source file, for questions like 'what do we know about src/db.ts?' before editing it. Accepts a path or glob (src/auth/**/*.ts), optionally with a line (src/db.ts:120) or symbol (src/db.ts#getNode). Concepts whose line range covers the location come first, narrowest range first, then those naming a symbol, then those referencing the whole file.",
+    {
+      path: z.string().describe("File path or glob relative to the project root, optionally with :line or #symbol"),
+      line: z.number().int().min(1).optional().describe("Only references covering this line, plus whole-file references"),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of concepts to return (default: 50)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = conceptsForFile(
+          db,
+          { path: params.path, line: params.line, limit: params.limit },
+          { root: staleness.root }
+        );
+        timeline.log({
+          tool: "concepts_for_file",
+          params: { path: params.path, line: params.line, limit: params.limit },
+          result_summary: `${result.total} concepts`,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.matches.map((match) => match.id),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "concepts_for_file",
+          params: { path: params.path, line: params.line, limit: params.limit },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
   server.tool(
     "create_concept",
     "Add a new concept to the knowledge graph. Call this after completing a task to record new features, components, patterns, or decisions you built. Include specific details: parameter names, defaults, file locations, and rationale.",
     {
       name: z.string().describe("Human-readable name for the concept"),
-      kind: NodeKindEnum.describe("Type of concept: feature, module, pattern, config, decision, component"),
+      kind: NodeKindEnum.describe(`Type of concept: ${describeKinds(vocabulary)}`),
       summary: z.string().describe("What this concept is. Be specific: include parameter names, defaults, file paths, behavior details."),
       why: z.string().optional().describe("Why this exists or was built this way"),
       parent_id: z.string().optional().describe("Parent concept ID for nesting; empty string is treated as omitted"),
       file_refs: z.array(z.string()).optional().describe("Relevant file paths + optional line ranges"),
+      aliases: z.array(z.string()).optional().describe("Alternate IDs or names that should also resolve to this concept"),
+      tags: z.array(z.string()).optional().describe("Free-form labels such as security, perf-critical, legacy (lowercased)"),
+      attributes: AttributesSchema.optional(),
       edges: z.array(z.object({
         to: z.string().describe("Target concept ID"),
-        relation: RelationEnum.describe("Relationship type"),
+        relation: RelationEnum.describe(`Relationship type: ${describeRelations(vocabulary)}`),
         description: z.string().optional().describe("Why this relationship exists"),
-      })).optional().describe("Relationships to other existing concepts"),
+      })).optional().describe("Relationships to other concepts; edges to concepts that don't exist yet stay pending until they are created"),
       created_by_task: z.string().optional().describe("Description of the task that created this concept"),
+      format: FormatParam,
     },
     async (params) => {
       try {
@@ -293,6 +625,9 @@ async function startMcpServer() {
           why: params.why,
           parent_id: params.parent_id,
           file_refs: params.file_refs,
+          aliases: params.aliases,
+          tags: params.tags,
+          attributes: params.attributes,
           edges: params.edges?.map((e) => ({ ...e, relation: e.relation as RelationType })),
           created_by_task: params.created_by_task,
         });
@@ -304,7 +639,7 @@ async function startMcpServer() {
           is_error: false,
           affected_ids: [result.id],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "create_concept",
@@ -321,7 +656,7 @@ async function startMcpServer() {
 
   server.tool(
     "update_concept",
-    "Update an existing concept in the knowledge graph. Call this after completing a task that changed existing features or components. Only include fields that changed.",
+    "Update an existing concept in the knowledge graph. Call this after completing a task that changed existing features or components. Only include fields that changed. The ID never changes; renaming adds the new name's slug as an alias.",
     {
       id: z.string().describe("The concept ID to update"),
       changes: z.object({
@@ -330,7 +665,11 @@ async function startMcpServer() {
         summary: z.string().optional().describe("Updated summary"),
         why: z.string().optional().describe("Updated rationale"),
         file_refs: z.array(z.string()).optional().describe("Updated file references"),
+        aliases: z.array(z.string()).optional().describe("Alternate IDs or names to add"),
+        tags: z.array(z.string()).optional().describe("Replacement tag list (pass [] to clear)"),
+        attributes: AttributesSchema.optional().describe("Attributes to set; keys not listed are kept, null removes a key"),
       }),
+      format: FormatParam,
     },
     async (params) => {
       try {
@@ -341,12 +680,12 @@ async function startMcpServer() {
         timeline.log({
           tool: "update_concept",
           params: { id: params.id, changed_fields: Object.keys(params.changes) },
-          result_summary: `updated ${params.id}`,
+          result_summary: `updated ${result.resolved_alias?.id ?? params.id}`,
           is_write: true,
           is_error: false,
-          affected_ids: [params.id],
+          affected_ids: [result.resolved_alias?.id ?? params.id],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "update_concept",
@@ -361,14 +700,87 @@ async function startMcpServer() {
     }
   );
 
+  server.tool(
+    "verify_concept",
+    "Record that a concept's summary was checked against the current code and still holds. Call this after confirming a concept flagged as stale (or any concept you re-read the code for) is accurate; if it is not, call update_concept instead.",
+    {
+      id: z.string().describe("The concept ID that was verified"),
+      verified_by: z.string().optional().describe("Who or what verified it, e.g. the task being worked on"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = verifyConcept(db, { id: params.id, verified_by: params.verified_by });
+        const id = result.resolved_alias?.id ?? params.id;
+        timeline.log({
+          tool: "verify_concept",
+          params: { id: params.id, verified_by: params.verified_by },
+          result_summary: `verified ${id}`,
+          is_write: true,
+          is_error: false,
+          affected_ids: [id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "verify_concept",
+          params: { id: params.id, verified_by: params.verified_by },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "set_attribute",
+    "Set or remove one typed attribute on a concept (owner, SLA, feature flag name, port, env var, ...). Attributes are queryable with find_concepts.",
+    {
+      id: z.string().describe("The concept ID"),
+      key: z.string().describe("Attribute name: lowercase letters, digits and underscores"),
+      value: AttributeScalar.nullable().describe("New value; null removes the attribute"),
+      type: z.enum(ATTRIBUTE_TYPES).optional().describe("Value type (default: inferred; ISO date strings become dates)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = setAttribute(db, params);
+        const id = result.resolved_alias?.id ?? params.id;
+        timeline.log({
+          tool: "set_attribute",
+          params: { id: params.id, key: params.key, value: params.value, type: params.type },
+          result_summary: result.message,
+          is_write: true,
+          is_error: false,
+          affected_ids: [id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "set_attribute",
+          params: { id: params.id, key: params.key, value: params.value, type: params.type },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
   server.tool(
     "link",
-    "Create a relationship between two existing concepts.",
+    "Create a relationship between two existing concepts. Aliases of either concept are followed and reported in resolved_aliases.",
     {
       from: z.string().describe("Source concept ID"),
       to: z.string().describe("Target concept ID"),
-      relation: RelationEnum.describe("Relationship type"),
+      relation: RelationEnum.describe(`Relationship type: ${describeRelations(vocabulary)}`),
       description: z.string().optional().describe("Why this relationship exists"),
+      format: FormatParam,
     },
     async (params) => {
       try {
@@ -383,9 +795,11 @@ async function startMcpServer() {
           result_summary: `linked ${params.from} -> ${params.to}`,
           is_write: true,
           is_error: false,
-          affected_ids: [params.from, params.to],
+          affected_ids: [params.from, params.to].map(
+            (id) => result.resolved_aliases?.find((a) => a.alias === id)?.id ?? id
+          ),
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "link",
@@ -400,12 +814,99 @@ async function startMcpServer() {
     }
   );
 
+  server.tool(
+    "unlink",
+    "Remove a relationship between two concepts. Use this when a link was created by mistake or no longer reflects the code.",
+    {
+      from: z.string().describe("Source concept ID"),
+      to: z.string().describe("Target concept ID"),
+      relation: RelationEnum.describe("Relationship type to remove"),
+      reason: z.string().describe("Why this relationship is being removed"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = unlink(db, {
+          from: params.from, to: params.to,
+          relation: params.relation as RelationType,
+          reason: params.reason,
+        });
+        timeline.log({
+          tool: "unlink",
+          params: { from: params.from, to: params.to, relation: params.relation, reason: params.reason },
+          result_summary: `unlinked ${params.from} -> ${params.to}`,
+          is_write: true,
+          is_error: false,
+          affected_ids: [params.from, params.to],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "unlink",
+          params: { from: params.from, to: params.to, relation: params.relation, reason: params.reason },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "update_link",
+    "Change an existing relationship in place: its description, its relation type, or both.",
+    {
+      from: z.string().describe("Source concept ID"),
+      to: z.string().describe("Target concept ID"),
+      relation: RelationEnum.describe("Current relationship type"),
+      changes: z.object({
+        relation: RelationEnum.optional().describe("New relationship type"),
+        description: z.string().optional().describe("New description of why this relationship exists"),
+      }),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = updateLink(db, {
+          from: params.from, to: params.to,
+          relation: params.relation as RelationType,
+          changes: {
+            relation: params.changes.relation as RelationType | undefined,
+            description: params.changes.description,
+          },
+        });
+        timeline.log({
+          tool: "update_link",
+          params: { from: params.from, to: params.to, relation: params.relation, changed_fields: Object.keys(params.changes) },
+          result_summary: `updated link ${params.from} -> ${params.to}`,
+          is_write: true,
+          is_error: false,
+          affected_ids: [params.from, params.to],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "update_link",
+          params: { from: params.from, to: params.to, relation: params.relation, changed_fields: Object.keys(params.changes) },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
   server.tool(
     "remove_concept",
     "Soft-delete a concept from the knowledge graph. The concept and its removal reason are preserved in history.",
     {
       id: z.string().describe("The concept ID to remove"),
       reason: z.string().describe("Why this concept is being removed"),
+      format: FormatParam,
     },
     async (params) => {
       try {
@@ -418,7 +919,7 @@ async function startMcpServer() {
           is_error: false,
           affected_ids: [params.id],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "remove_concept",
@@ -433,25 +934,409 @@ async function startMcpServer() {
     }
   );
 
+  const BATCH_TOOLS = { create: "create_concept", update: "update_concept", link: "link", remove: "remove_concept" } as const;
+
+  server.tool(
+    "batch",
+    "Apply many create/update/link/remove operations at once, in order, as a single all-or-nothing write. Prefer this over many separate calls when recording several concepts. Give a create a ref and later operations can use \"$ref\" for its ID (as an id, parent_id, from, to or edge target). If any operation fails, nothing is written and the error names the failing operation.",
+    {
+      operations: z.array(z.discriminatedUnion("op", [
+        z.object({
+          op: z.literal("create"),
+          ref: z.string().optional().describe("Name later operations use as \"$ref\" for this concept's ID"),
+          name: z.string(),
+          kind: NodeKindEnum,
+          summary: z.string(),
+          why: z.string().optional(),
+          parent_id: z.string().optional(),
+          file_refs: z.array(z.string()).optional(),
+          aliases: z.array(z.string()).optional(),
+          tags: z.array(z.string()).optional(),
+          attributes: AttributesSchema.optional(),
+          edges: z.array(z.object({
+            to: z.string(),
+            relation: RelationEnum,
+            description: z.string().optional(),
+          })).optional(),
+          created_by_task: z.string().optional(),
+        }),
+        z.object({
+          op: z.literal("update"),
+          id: z.string(),
+          changes: z.object({
+            name: z.string().optional(),
+            kind: NodeKindEnum.optional(),
+            summary: z.string().optional(),
+            why: z.string().optional(),
+            file_refs: z.array(z.string()).optional(),
+            aliases: z.array(z.string()).optional(),
+            tags: z.array(z.string()).optional(),
+            attributes: AttributesSchema.optional(),
+          }),
+        }),
+        z.object({
+          op: z.literal("link"),
+          from: z.string(),
+          to: z.string(),
+          relation: RelationEnum,
+          description: z.string().optional(),
+        }),
+        z.object({
+          op: z.literal("remove"),
+          id: z.string(),
+          reason: z.string(),
+        }),
+      ])).min(1).describe("Operations to apply, in order; same fields as create_concept, update_concept, link and remove_concept"),
+      format: FormatParam,
+    },
+    async (params) => {
+      const group_id = randomUUID();
+      try {
+        const result = await batch(db, {
+          operations: params.operations as BatchOperation[],
+        });
+        for (const entry of result.results) {
+          const affected = entry.id !== undefined ? [entry.id] : [entry.from!, entry.to!];
+          timeline.log({
+            tool: BATCH_TOOLS[entry.op],
+            params: { batch_index: entry.index, ...(entry.id !== undefined ? { id: entry.id } : { from: entry.from, to: entry.to }) },
+            result_summary: entry.message,
+            is_write: true,
+            is_error: false,
+            affected_ids: affected,
+            group_id,
+          });
+        }
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "batch",
+          params: { operations: params.operations.map((operation) => operation.op) },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+          group_id,
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "move_concept",
+    "Move a concept under a different parent (or to the top level). The concept keeps its slug but its ID changes to match the new parent, and every descendant ID is rewritten with it. Edges and history follow the renamed IDs. Rejects moves that would create a parent cycle or exceed the maximum nesting depth.",
+    {
+      id: z.string().describe("The concept ID to move"),
+      new_parent_id: z
+        .string()
+        .nullable()
+        .describe("New parent concept ID, or null to move the concept to the top level"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = moveConcept(
+          db,
+          { id: params.id, new_parent_id: params.new_parent_id },
+          { maxDepth: settings.max_depth }
+        );
+        timeline.log({
+          tool: "move_concept",
+          params: { id: params.id, new_parent_id: params.new_parent_id },
+          result_summary: `moved ${result.old_id} → ${result.new_id}`,
+          is_write: true,
+          is_error: false,
+          affected_ids: result.renamed.length > 0 ? result.renamed.map((r) => r.to) : [result.new_id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "move_concept",
+          params: { id: params.id, new_parent_id: params.new_parent_id },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "restore_concept",
+    "Undo a remove_concept. Clears the removal and brings back the concept's relationships whose other endpoint is still active.",
+    {
+      id: z.string().describe("The removed concept ID to restore"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = restoreConcept(db, { id: params.id });
+        timeline.log({
+          tool: "restore_concept",
+          params: { id: params.id },
+          result_summary: `restored ${params.id} (${result.restored_edges} edges)`,
+          is_write: true,
+          is_error: false,
+          affected_ids: [params.id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "restore_concept",
+          params: { id: params.id },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "get_concept_history",
+    "List every prior version of a concept. Each update_concept call preserves the overwritten name, kind, summary, why, and file_refs as a numbered revision. Use this before revert_concept to pick which revision to restore.",
+    {
+      id: z.string().describe("The concept ID whose history to list"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = getConceptHistory(db, { id: params.id });
+        timeline.log({
+          tool: "get_concept_history",
+          params: { id: params.id },
+          result_summary: `${result.revisions.length} revisions`,
+          is_write: false,
+          is_error: false,
+          affected_ids: [result.id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "get_concept_history",
+          params: { id: params.id },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "revert_concept",
+    "Restore a concept to one of its earlier revisions (see get_concept_history). The current version is kept as a new revision, so a revert can itself be undone. The embedding is recomputed.",
+    {
+      id: z.string().describe("The concept ID to revert"),
+      revision: z.number().int().min(1).describe("Revision number to restore"),
+      reason: z.string().optional().describe("Why the earlier revision is more accurate"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = await revertConcept(db, {
+          id: params.id,
+          revision: params.revision,
+          reason: params.reason,
+        });
+        timeline.log({
+          tool: "revert_concept",
+          params: { id: params.id, revision: params.revision, reason: params.reason },
+          result_summary: `reverted ${params.id} to revision ${params.revision}`,
+          is_write: true,
+          is_error: false,
+          affected_ids: [params.id],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "revert_concept",
+          params: { id: params.id, revision: params.revision, reason: params.reason },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
   server.tool(
     "list_roots",
-    "List all top-level concepts in the knowledge graph with their direct children. Call this at the start of a session to get a high-level project overview.",
-    {},
-    async () => {
+    "List all top-level concepts in the knowledge graph with their direct children. Call this at the start of a session to get a high-level project overview. Tag filters keep roots that match or have matching children. stale_concepts counts concepts due for re-checking.",
+    {
+      tags: z.array(z.string()).optional().describe("Only include concepts carrying at least one of these tags"),
+      exclude_tags: z.array(z.string()).optional().describe("Hide concepts carrying any of these tags"),
+      max_tokens: MaxTokens,
+      format: FormatParam,
+    },
+    async (params) => {
       try {
-        const result = listRoots(db);
+        const result = listRoots(
+          db,
+          { tags: params.tags, exclude_tags: params.exclude_tags, max_tokens: params.max_tokens },
+          { staleness }
+        );
         timeline.log({
           tool: "list_roots",
-          params: {},
+          params: { tags: params.tags, exclude_tags: params.exclude_tags },
           result_summary: `${result.roots.length} roots`,
           is_write: false,
           is_error: false,
           affected_ids: [],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify({ ...result, stats: db.getStats() }, null, 2) }] };
+        return respond({ ...result, stats: db.getStats() }, params.format);
       } catch (err) {
         timeline.log({
           tool: "list_roots",
+          params: { tags: params.tags, exclude_tags: params.exclude_tags },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "check_refs",
+    "Check every concept's file_refs against the working tree. Reports refs to files that no longer exist, line ranges past the end of the file, and files renamed in git history (with their new path). Pass fix: true to rewrite renamed paths in place, keeping line ranges and symbols; missing files and bad ranges are left for you to correct with update_concept.",
+    {
+      fix: z.boolean().optional().describe("Rewrite refs to renamed files to their new path (default: false)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = checkRefs(db, { fix: params.fix }, { root: staleness.root });
+        if (result.fixed > 0) {
+          logRefFixes(timeline, result);
+        } else {
+          timeline.log({
+            tool: "check_refs",
+            params: { fix: params.fix },
+            result_summary: result.message,
+            is_write: false,
+            is_error: false,
+            affected_ids: [...new Set(result.issues.map((issue) => issue.id))],
+          });
+        }
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "check_refs",
+          params: { fix: params.fix },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: params.fix === true,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "impact_of_changes",
+    "Before opening a PR or after a change, list the concepts a git diff affects so they can be reviewed and updated. Files changed in the range are matched against file_refs (direct impact; concepts whose line range the diff touches rank highest), then incoming depends_on and calls edges are followed to the concepts relying on those (indirect impact, decaying per hop). Also lists changed files that no concept references.",
+    {
+      range: z.string().describe("git diff range, e.g. main...HEAD, HEAD~3..HEAD, or HEAD for uncommitted changes"),
+      max_hops: z.number().int().min(0).max(3).optional().describe(`Dependency hops to follow from directly affected concepts (default: ${DEFAULT_IMPACT_HOPS})`),
+      limit: z.number().int().min(1).max(500).optional().describe("Maximum number of concepts to return (default: 50)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = impactOfChanges(
+          db,
+          { range: params.range, max_hops: params.max_hops, limit: params.limit },
+          { root: staleness.root }
+        );
+        timeline.log({
+          tool: "impact_of_changes",
+          params: { range: params.range, max_hops: params.max_hops, limit: params.limit },
+          result_summary: result.message,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.concepts.map((concept) => concept.id),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "impact_of_changes",
+          params: { range: params.range, max_hops: params.max_hops, limit: params.limit },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "what_depends_on",
+    "Before refactoring or removing a concept, list everything that would feel the change: the transitive set of concepts that depend on, call or implement it, each with the depth it was reached at and the edge that reached it, grouped by top-level ancestor. Reliance cycles through those concepts are reported separately.",
+    {
+      id: z.string().describe("Concept ID to find the dependents of"),
+      max_depth: z.number().int().min(1).max(20).optional().describe("Stop this many hops away (default: the whole closure)"),
+      format: FormatParam,
+    },
+    async (params) => {
+      try {
+        const result = whatDependsOn(db, { id: params.id, max_depth: params.max_depth });
+        timeline.log({
+          tool: "what_depends_on",
+          params: { id: params.id, max_depth: params.max_depth },
+          result_summary: result.message,
+          is_write: false,
+          is_error: false,
+          affected_ids: result.groups.flatMap((group) => group.dependents.map((dependent) => dependent.id)),
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "what_depends_on",
+          params: { id: params.id, max_depth: params.max_depth },
+          result_summary: err instanceof Error ? err.message : String(err),
+          is_write: false,
+          is_error: true,
+          affected_ids: [],
+        });
+        return formatError(err);
+      }
+    }
+  );
+
+  server.tool(
+    "list_pending_edges",
+    "List edges that create_concept could not make yet because their target concept does not exist. Each is created automatically when a concept with that ID is created. Create the missing concept, or ignore entries whose target was never meant to exist.",
+    { format: FormatParam },
+    async (params) => {
+      try {
+        const result = listPendingEdges(db);
+        timeline.log({
+          tool: "list_pending_edges",
+          params: {},
+          result_summary: `${result.pending_edges.length} pending edges`,
+          is_write: false,
+          is_error: false,
+          affected_ids: [],
+        });
+        return respond(result, params.format);
+      } catch (err) {
+        timeline.log({
+          tool: "list_pending_edges",
           params: {},
           result_summary: err instanceof Error ? err.message : String(err),
           is_write: false,
@@ -466,8 +1351,8 @@ async function startMcpServer() {
   server.tool(
     "list_conflicts",
     "List all unresolved merge conflicts in the knowledge graph, grouped by merge_group. Each group contains competing versions with full data. Call this when the user runs /merge to begin AI-assisted conflict resolution.",
-    {},
-    async () => {
+    { format: FormatParam },
+    async (params) => {
       try {
         const result = listConflicts(db);
         timeline.log({
@@ -478,7 +1363,7 @@ async function startMcpServer() {
           is_error: false,
           affected_ids: [],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "list_conflicts",
@@ -504,6 +1389,7 @@ async function startMcpServer() {
         file_refs: z.array(z.string()).optional().describe("Updated file references"),
       }).describe("The resolved content to write — must reflect current codebase truth"),
       reason: z.string().describe("Explanation of what you verified and why this resolution is correct"),
+      format: FormatParam,
     },
     async (params) => {
       try {
@@ -520,7 +1406,7 @@ async function startMcpServer() {
           is_error: false,
           affected_ids: [],
         });
-        return { content: [{ type: "text" as const, text: JSON.stringify(result, null, 2) }] };
+        return respond(result, params.format);
       } catch (err) {
         timeline.log({
           tool: "resolve_conflict",
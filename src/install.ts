@@ -3,7 +3,7 @@ import os from "os";
 import path from "path";
 import { fileURLToPath } from "url";
 import pc from "picocolors";
-import { success, skip, error, info, heading, warn, multiSelect } from "./cli-utils.js";
+import { success, skip, error, info, heading, warn, multiSelect, loadSettings } from "./cli-utils.js";
 
 export type InstallTarget = "opencode" | "claudecode" | "antigravity" | "codex";
 
@@ -640,6 +640,13 @@ export async function runInstall(args: string[]): Promise<void> {
     return;
   }
 
+  if (targets.length === 0) {
+    targets = loadSettings().install_targets;
+    if (targets.length > 0) {
+      info(`Using install_targets from config: ${targets.join(", ")}`);
+    }
+  }
+
   if (targets.length === 0) {
     targets = await chooseTargetsInteractively();
   }
@@ -3,7 +3,7 @@ import path from "path";
 import pc from "picocolors";
 import { KnowledgeDB } from "./db.js";
 import { MergeEngine, stripMergeSuffix, MERGE_SUFFIX_LEFT, MERGE_SUFFIX_RIGHT } from "./merge.js";
-import { errorBold, success, info, error } from "./cli-utils.js";
+import { errorBold, success, info, warn, error, loadSettings } from "./cli-utils.js";
 import type { NodeRow } from "./types.js";
 
 // ---- Flag parsing helpers ----
@@ -97,6 +97,9 @@ export async function runMerge(args: string[]): Promise<void> {
       );
       info(`Run ${pc.cyan("megamemory conflicts")} to view, or let your AI agent run ${pc.cyan("/merge")} to resolve.`);
     }
+    for (const warning of result.warnings) {
+      warn(warning);
+    }
   } catch (err) {
     // Clean up temp file on error
     if (isOverwrite && fs.existsSync(actualOutput)) {
@@ -246,11 +249,13 @@ export async function runResolve(args: string[]): Promise<void> {
       if (leftNode) {
         const newId = `${originalId}-${leftNode.source_branch ?? "left"}`;
         db.renameNodeId(leftNode.id, newId);
+        db.addAlias(originalId, newId, "former_id");
         db.clearNodeMergeFlags(newId);
       }
       if (rightNode) {
         const newId = `${originalId}-${rightNode.source_branch ?? "right"}`;
         db.renameNodeId(rightNode.id, newId);
+        db.addAlias(originalId, newId, "former_id");
         db.clearNodeMergeFlags(newId);
       }
       db.clearEdgeMergeFlagsByGroup(mergeGroup);
@@ -290,7 +295,5 @@ export async function runResolve(args: string[]): Promise<void> {
 // ---- helpers ----
 
 function getDefaultDbPath(): string {
-  const envPath = process.env.MEGAMEMORY_DB_PATH;
-  if (envPath) return envPath;
-  return path.join(process.cwd(), ".megamemory", "knowledge.db");
+  return loadSettings().db_path;
 }
@@ -1,6 +1,13 @@
 import { randomUUID } from "crypto";
 import { KnowledgeDB } from "./db.js";
-import type { NodeRow, EdgeRow, MergeResult } from "./types.js";
+import type { NodeRow, EdgeRow, MergeResult, AttributeRow, NodeRevisionRow } from "./types.js";
+import {
+  getRecordedVocabulary,
+  recordVocabulary,
+  undeclaredVocabulary,
+  unionVocabulary,
+  vocabularyConflicts,
+} from "./vocabulary.js";
 
 export const MERGE_SUFFIX_LEFT = "::left";
 export const MERGE_SUFFIX_RIGHT = "::right";
@@ -37,10 +44,30 @@ export function hasMergeSuffix(id: string): boolean {
   return id.endsWith(MERGE_SUFFIX_LEFT) || id.endsWith(MERGE_SUFFIX_RIGHT);
 }
 
+/** Tags and attributes stored alongside a node, used in merge comparisons. */
+export interface NodeAnnotations {
+  tags: string[];
+  attributes: AttributeRow[];
+}
+
+function annotationKey(annotations: NodeAnnotations): string {
+  return JSON.stringify({
+    tags: [...annotations.tags].sort(),
+    attributes: annotations.attributes
+      .map((a) => [a.key, a.type, a.value])
+      .sort((a, b) => a[0].localeCompare(b[0])),
+  });
+}
+
 /**
  * Deep comparison of two nodes' content fields (ignoring timestamps, embedding, merge metadata).
+ * Tags and attributes, when given, must match too.
  */
-export function nodesAreIdentical(left: NodeRow, right: NodeRow): boolean {
+export function nodesAreIdentical(
+  left: NodeRow,
+  right: NodeRow,
+  annotations?: { left: NodeAnnotations; right: NodeAnnotations }
+): boolean {
   if (left.name !== right.name) return false;
   if (left.kind !== right.kind) return false;
   if (left.summary !== right.summary) return false;
@@ -57,6 +84,10 @@ export function nodesAreIdentical(left: NodeRow, right: NodeRow): boolean {
   const rightRemoved = right.removed_at !== null;
   if (leftRemoved !== rightRemoved) return false;
 
+  if (annotations && annotationKey(annotations.left) !== annotationKey(annotations.right)) {
+    return false;
+  }
+
   return true;
 }
 
@@ -99,10 +130,35 @@ export class MergeEngine {
 
     const leftDb = new KnowledgeDB(leftPath);
     const rightDb = new KnowledgeDB(rightPath);
+
+    // Custom kinds and relations must mean the same thing on both sides
+    const leftVocabulary = getRecordedVocabulary(leftDb);
+    const rightVocabulary = getRecordedVocabulary(rightDb);
+    const conflicts = vocabularyConflicts(leftVocabulary, rightVocabulary);
+    if (conflicts.length > 0) {
+      leftDb.close();
+      rightDb.close();
+      throw new Error(
+        `Cannot merge: the databases declare conflicting vocabularies (${conflicts.join("; ")}). ` +
+          `Use the same descriptions in .megamemory/config.json on both branches; the MCP server records them on startup.`
+      );
+    }
+
+    // Names neither side recorded (e.g. written only through the CLI) cannot be checked
+    const declared = unionVocabulary(leftVocabulary, rightVocabulary);
+    const warnings = ([[leftLabel, leftDb], [rightLabel, rightDb]] as const).flatMap(([label, db]) =>
+      undeclaredVocabulary(db, declared).map(
+        (name) => `${label} uses ${name}, which neither database's recorded vocabulary declares`
+      )
+    );
+
     const outputDb = new KnowledgeDB(outputPath);
 
     try {
-      return this.performMerge(leftDb, rightDb, outputDb, leftLabel, rightLabel);
+      recordVocabulary(outputDb, declared);
+      const result = this.performMerge(leftDb, rightDb, outputDb, leftLabel, rightLabel);
+      result.warnings.push(...warnings);
+      return result;
     } finally {
       leftDb.close();
       rightDb.close();
@@ -164,12 +220,17 @@ export class MergeEngine {
       edgeConflicts: 0,
       removedClean: 0,
       mergeGroups: [],
+      warnings: [],
     };
 
     const now = new Date().toISOString().replace("T", " ").replace("Z", "");
 
     // Track which IDs were suffixed (for edge remapping)
     const idRemapping = new Map<string, string>(); // "side:originalId" → suffixedId
+    const leftTags = leftDb.getTagsByNode();
+    const rightTags = rightDb.getTagsByNode();
+    const leftAttributes = leftDb.getAttributesByNode();
+    const rightAttributes = rightDb.getAttributesByNode();
 
     // Deferred edge operations — we insert all nodes first, then edges,
     // to avoid FOREIGN KEY constraint failures when edges reference nodes
@@ -180,6 +241,7 @@ export class MergeEngine {
       relation: string;
       description: string | null;
       created_at: string | null;
+      removed_at: string | null;
       merge_group: string | null;
       needs_merge: number;
       source_branch: string | null;
@@ -210,6 +272,7 @@ export class MergeEngine {
         relation: e.relation,
         description: e.description,
         created_at: e.created_at,
+        removed_at: e.removed_at,
         merge_group: e.merge_group,
         needs_merge: e.needs_merge,
         source_branch: e.source_branch,
@@ -292,9 +355,18 @@ export class MergeEngine {
           result.clean++;
         }
       } else if (leftNode && rightNode) {
-        if (nodesAreIdentical(leftNode, rightNode)) {
-          // Identical — keep left's copy
-          insertNodeOnce(leftNode);
+        const annotations = {
+          left: { tags: leftTags.get(id) ?? [], attributes: leftAttributes.get(id) ?? [] },
+          right: { tags: rightTags.get(id) ?? [], attributes: rightAttributes.get(id) ?? [] },
+        };
+        if (nodesAreIdentical(leftNode, rightNode, annotations)) {
+          // Identical — keep left's copy, with whichever side verified it last
+          const rightVerifiedLater = (rightNode.last_verified_at ?? "") > (leftNode.last_verified_at ?? "");
+          insertNodeOnce(
+            rightVerifiedLater
+              ? { ...leftNode, last_verified_at: rightNode.last_verified_at, verified_by: rightNode.verified_by }
+              : leftNode
+          );
           if (leftNode.removed_at) {
             result.removedClean++;
           } else {
@@ -332,6 +404,7 @@ export class MergeEngine {
               relation: e.relation,
               description: e.description,
               created_at: e.created_at,
+              removed_at: e.removed_at,
               merge_group: edgesConflict ? mergeGroup : null,
               needs_merge: edgesConflict ? 1 : 0,
               source_branch: edgesConflict ? leftLabel : null,
@@ -347,6 +420,7 @@ export class MergeEngine {
               relation: e.relation,
               description: e.description,
               created_at: e.created_at,
+              removed_at: e.removed_at,
               merge_group: edgesConflict ? mergeGroup : null,
               needs_merge: edgesConflict ? 1 : 0,
               source_branch: edgesConflict ? rightLabel : null,
@@ -393,6 +467,7 @@ export class MergeEngine {
         relation: edge.relation,
         description: edge.description,
         created_at: edge.created_at,
+        removed_at: edge.removed_at,
         merge_group: edge.merge_group,
         needs_merge: edge.needs_merge,
         source_branch: edge.source_branch,
@@ -400,6 +475,74 @@ export class MergeEngine {
       });
     }
 
+    // Carry aliases from both sides, pointing them at conflict copies where needed
+    for (const [side, sourceDb] of [["left", leftDb], ["right", rightDb]] as const) {
+      for (const alias of sourceDb.getAllAliases()) {
+        const nodeId = idRemapping.get(`${side}:${alias.node_id}`) ?? alias.node_id;
+        if (outputDb.getNodeIncludingRemoved(nodeId)) {
+          outputDb.insertAliasRaw({ ...alias, node_id: nodeId });
+        }
+      }
+    }
+
+    // Tags and attributes follow the same remapping as aliases
+    for (const [side, tagsByNode] of [["left", leftTags], ["right", rightTags]] as const) {
+      for (const [sourceId, tags] of tagsByNode) {
+        const nodeId = idRemapping.get(`${side}:${sourceId}`) ?? sourceId;
+        if (!outputDb.getNodeIncludingRemoved(nodeId)) continue;
+        for (const tag of tags) outputDb.insertTagRaw(nodeId, tag);
+      }
+    }
+    for (const [side, attributesByNode] of [["left", leftAttributes], ["right", rightAttributes]] as const) {
+      for (const [sourceId, attributes] of attributesByNode) {
+        const nodeId = idRemapping.get(`${side}:${sourceId}`) ?? sourceId;
+        if (!outputDb.getNodeIncludingRemoved(nodeId)) continue;
+        for (const attribute of attributes) outputDb.insertAttributeRaw({ ...attribute, node_id: nodeId });
+      }
+    }
+
+    // Revisions follow their concept, including to conflict copies. Both sides usually share the
+    // history from before they diverged, so identical revisions are kept once and the rest renumbered by time.
+    const revisionsByNode = new Map<string, Map<string, NodeRevisionRow>>();
+    for (const [side, sourceDb] of [["left", leftDb], ["right", rightDb]] as const) {
+      for (const revision of sourceDb.getAllRevisionsRaw()) {
+        const nodeId = idRemapping.get(`${side}:${revision.node_id}`) ?? revision.node_id;
+        if (!outputDb.getNodeIncludingRemoved(nodeId)) continue;
+        const key = JSON.stringify([revision.name, revision.kind, revision.summary, revision.why, revision.file_refs, revision.recorded_at]);
+        const revisions = revisionsByNode.get(nodeId) ?? new Map<string, NodeRevisionRow>();
+        if (!revisions.has(key)) revisions.set(key, revision);
+        revisionsByNode.set(nodeId, revisions);
+      }
+    }
+    for (const [nodeId, revisions] of revisionsByNode) {
+      const ordered = [...revisions.values()].sort(
+        (a, b) => a.recorded_at.localeCompare(b.recorded_at) || a.revision - b.revision
+      );
+      ordered.forEach(({ id: _id, ...revision }, i) => {
+        outputDb.insertRevisionRaw({ ...revision, node_id: nodeId, revision: i + 1 });
+      });
+    }
+
+    // Pending edges follow their source; those whose target now exists become real edges
+    const pendingTargets = new Set<string>();
+    for (const [side, sourceDb] of [["left", leftDb], ["right", rightDb]] as const) {
+      for (const edge of sourceDb.getAllPendingEdgesRaw()) {
+        const fromId = idRemapping.get(`${side}:${edge.from_id}`) ?? edge.from_id;
+        if (!outputDb.getNodeIncludingRemoved(fromId)) continue;
+        outputDb.insertPendingEdgeRaw({
+          from_id: fromId,
+          to_id: edge.to_id,
+          relation: edge.relation,
+          description: edge.description,
+          created_at: edge.created_at,
+        });
+        pendingTargets.add(edge.to_id);
+      }
+    }
+    for (const toId of pendingTargets) {
+      if (outputDb.nodeExists(toId)) outputDb.materializePendingEdges(toId);
+    }
+
     return result;
   }
 
@@ -417,6 +560,8 @@ export class MergeEngine {
       updated_at: node.updated_at,
       removed_at: node.removed_at,
       removed_reason: node.removed_reason,
+      last_verified_at: node.last_verified_at,
+      verified_by: node.verified_by,
       embedding: toBuffer(node.embedding),
       merge_group: node.merge_group,
       needs_merge: node.needs_merge,
@@ -446,6 +591,8 @@ export class MergeEngine {
       updated_at: node.updated_at,
       removed_at: node.removed_at,
       removed_reason: node.removed_reason,
+      last_verified_at: node.last_verified_at,
+      verified_by: node.verified_by,
       embedding: toBuffer(node.embedding),
       merge_group: mergeGroup,
       needs_merge: 1,
@@ -461,7 +608,7 @@ export class MergeEngine {
     deferred: Array<{
       from_id: string; to_id: string; relation: string;
       description: string | null; created_at: string | null;
-      merge_group: string | null; needs_merge: number;
+      removed_at: string | null; merge_group: string | null; needs_merge: number;
       source_branch: string | null; merge_timestamp: string | null;
       _originSide: "left" | "right";
     }>,
@@ -478,6 +625,7 @@ export class MergeEngine {
         relation: e.relation,
         description: e.description,
         created_at: e.created_at,
+        removed_at: e.removed_at,
         merge_group: null,
         needs_merge: 0,
         source_branch: null,
@@ -494,7 +642,7 @@ export class MergeEngine {
     deferred: Array<{
       from_id: string; to_id: string; relation: string;
       description: string | null; created_at: string | null;
-      merge_group: string | null; needs_merge: number;
+      removed_at: string | null; merge_group: string | null; needs_merge: number;
       source_branch: string | null; merge_timestamp: string | null;
       _originSide: "left" | "right";
     }>,
@@ -520,6 +668,7 @@ export class MergeEngine {
         relation: e.relation,
         description: e.description,
         created_at: e.created_at,
+        removed_at: e.removed_at,
         merge_group: null,
         needs_merge: 0,
         source_branch: null,
@@ -539,6 +688,7 @@ export class MergeEngine {
         relation: e.relation,
         description: e.description,
         created_at: e.created_at,
+        removed_at: e.removed_at,
         merge_group: null,
         needs_merge: 0,
         source_branch: null,
@@ -0,0 +1,64 @@
+import fs from "fs";
+import pc from "picocolors";
+import { KnowledgeDB } from "./db.js";
+import { errorBold, success, info, loadSettings } from "./cli-utils.js";
+import {
+  getEmbeddingStatus,
+  reindexEmbeddings,
+  DEFAULT_REINDEX_BATCH_SIZE,
+} from "./embedding-meta.js";
+import { getEmbeddingProvider } from "./embeddings.js";
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+function getDefaultDbPath(): string {
+  return loadSettings().db_path;
+}
+
+export async function runReindex(args: string[]): Promise<void> {
+  const dbPath = getFlag(args, "--db") ?? getDefaultDbPath();
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const rawBatchSize = getFlag(args, "--batch-size");
+  const batchSize = rawBatchSize ? Number.parseInt(rawBatchSize, 10) : DEFAULT_REINDEX_BATCH_SIZE;
+  if (!Number.isInteger(batchSize) || batchSize < 1) {
+    errorBold(`Invalid --batch-size "${rawBatchSize}". Use a positive integer.`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const provider = getEmbeddingProvider();
+    const status = getEmbeddingStatus(db, provider);
+    info(`Embedding with ${pc.cyan(provider.id)}`);
+    if (status.stored.model && status.stored.model !== provider.id) {
+      info(`Replacing embeddings from ${status.stored.model}`);
+    }
+
+    const result = await reindexEmbeddings(db, {
+      batchSize,
+      restart: args.includes("--restart"),
+      onProgress: ({ done, total }) => {
+        const pct = total > 0 ? Math.floor((done / total) * 100) : 100;
+        console.log(pc.dim(`  ${done}/${total} concepts (${pct}%)`));
+      },
+    });
+
+    if (result.resumed) {
+      info(`Resumed an interrupted reindex (${result.total - result.reindexed} concepts were already done).`);
+    }
+    success(`Reindexed ${result.reindexed} concept(s).`);
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    info(`Progress is saved after each batch. Run "megamemory reindex" again to resume.`);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+}
@@ -0,0 +1,63 @@
+import fs from "fs";
+import pc from "picocolors";
+import { KnowledgeDB } from "./db.js";
+import { defaultFileRefRoot } from "./file-refs.js";
+import { findStaleConcepts } from "./staleness.js";
+import { errorBold, success, info, loadSettings } from "./cli-utils.js";
+
+function getFlag(args: string[], flag: string): string | undefined {
+  const idx = args.indexOf(flag);
+  return idx !== -1 && args[idx + 1] ? args[idx + 1] : undefined;
+}
+
+// ---- stale command ----
+
+export async function runStale(args: string[]): Promise<void> {
+  const settings = loadSettings();
+  const dbPath = getFlag(args, "--db") ?? settings.db_path;
+  const json = args.includes("--json");
+
+  if (!fs.existsSync(dbPath)) {
+    errorBold(`Database not found: ${dbPath}`);
+    process.exit(1);
+  }
+
+  const rawDays = getFlag(args, "--days");
+  const days = rawDays ? Number.parseInt(rawDays, 10) : settings.stale_after_days;
+  if (!Number.isInteger(days) || days < 1) {
+    errorBold(`Invalid --days "${rawDays}". Use a positive integer.`);
+    process.exit(1);
+  }
+
+  const db = new KnowledgeDB(dbPath);
+  try {
+    const stale = findStaleConcepts(db, { staleAfterDays: days, root: defaultFileRefRoot() });
+
+    if (json) {
+      console.log(JSON.stringify({ stale_after_days: days, stale }, null, 2));
+      return;
+    }
+
+    if (stale.length === 0) {
+      success(`No stale concepts (threshold: ${days} days).`);
+      return;
+    }
+
+    console.log(
+      pc.bold(`\n  ${stale.length} stale concept${stale.length !== 1 ? "s" : ""} ${pc.dim(`(threshold: ${days} days)`)}:\n`)
+    );
+    for (const concept of stale) {
+      const verified = concept.stale.last_verified_at
+        ? `verified ${concept.stale.days_since_verified}d ago${concept.verified_by ? ` by ${concept.verified_by}` : ""}`
+        : `never verified, updated ${concept.stale.days_since_verified}d ago`;
+      console.log(`  ${pc.yellow("●")} ${pc.bold(concept.id)} ${pc.dim(`[${concept.kind}]`)} ${pc.dim(verified)}`);
+      for (const file of concept.stale.changed_files) {
+        console.log(pc.dim(`      changed since: ${file}`));
+      }
+    }
+    console.log();
+    info(`Have your agent re-check these and call verify_concept or update_concept.`);
+  } finally {
+    db.close();
+  }
+}
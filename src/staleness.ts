@@ -0,0 +1,83 @@
+import { KnowledgeDB } from "./db.js";
+import { fileRefMtime } from "./file-refs.js";
+import type { NodeKind, NodeRow, Staleness } from "./types.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface StalenessOptions {
+  /** Concepts unverified for at least this many days are stale. */
+  staleAfterDays: number;
+  /** Directory relative file_refs resolve against. */
+  root: string;
+  now?: number;
+}
+
+export interface StaleConcept {
+  id: string;
+  name: string;
+  kind: NodeKind;
+  verified_by: string | null;
+  stale: Staleness;
+}
+
+/** Parse a SQLite `datetime('now')` value (UTC, space-separated) to epoch ms. */
+export function parseDbTimestamp(value: string): number {
+  return Date.parse(value.includes("T") ? value : `${value.replace(" ", "T")}Z`);
+}
+
+function parseRefs(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const refs = JSON.parse(raw);
+    return Array.isArray(refs) ? refs.filter((r): r is string => typeof r === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Why a concept needs re-checking, or null if it is fresh. Concepts that were
+ * never verified count from their last update. A referenced file that changed
+ * after that point, or no longer exists, also makes the concept stale.
+ */
+export function getStaleness(
+  node: Pick<NodeRow, "updated_at" | "last_verified_at" | "file_refs">,
+  options: StalenessOptions
+): Staleness | null {
+  const now = options.now ?? Date.now();
+  const checkedAt = parseDbTimestamp(node.last_verified_at ?? node.updated_at);
+  const daysSince = Math.max(0, Math.floor((now - checkedAt) / DAY_MS));
+
+  const changedFiles = parseRefs(node.file_refs).filter((ref) => {
+    const mtime = fileRefMtime(options.root, ref);
+    return mtime === null || mtime > checkedAt;
+  });
+
+  if (daysSince < options.staleAfterDays && changedFiles.length === 0) return null;
+  return {
+    last_verified_at: node.last_verified_at,
+    days_since_verified: daysSince,
+    changed_files: changedFiles,
+  };
+}
+
+/**
+ * Every active stale concept, longest unverified first.
+ */
+export function findStaleConcepts(db: KnowledgeDB, options: StalenessOptions): StaleConcept[] {
+  const stale: StaleConcept[] = [];
+  for (const node of db.getAllActiveNodes()) {
+    const staleness = getStaleness(node, options);
+    if (!staleness) continue;
+    stale.push({
+      id: node.id,
+      name: node.name,
+      kind: node.kind as NodeKind,
+      verified_by: node.verified_by,
+      stale: staleness,
+    });
+  }
+  return stale.sort(
+    (a, b) => b.stale.days_since_verified - a.stale.days_since_verified || a.id.localeCompare(b.id)
+  );
+}
@@ -2,8 +2,9 @@ import fs from "fs";
 import path from "path";
 import pc from "picocolors";
 import { KnowledgeDB } from "./db.js";
-import { errorBold } from "./cli-utils.js";
+import { errorBold, loadSettings } from "./cli-utils.js";
 import { listRoots } from "./tools.js";
+import { getEmbeddingStatus } from "./embedding-meta.js";
 
 const KIND_ORDER = ["feature", "module", "component", "pattern", "config", "decision"];
 
@@ -13,7 +14,7 @@ function getFlag(args: string[], flag: string): string | undefined {
 }
 
 function getDefaultDbPath(): string {
-  return process.env.MEGAMEMORY_DB_PATH ?? path.join(process.cwd(), ".megamemory", "knowledge.db");
+  return loadSettings().db_path;
 }
 
 function formatBytes(bytes: number): string {
@@ -115,6 +116,7 @@ export async function runStats(args: string[]): Promise<void> {
     const listRootsPayload = JSON.stringify({ ...listRootsResult, stats: db.getStats() }, null, 2);
     const listRootsChars = listRootsPayload.length;
     const listRootsTokens = Math.ceil(listRootsChars / 4);
+    const embeddingStatus = getEmbeddingStatus(db);
     const listRootsNodeCount = listRootsResult.roots.reduce(
       (sum, r) => sum + 1 + r.children.length,
       0
@@ -141,6 +143,18 @@ export async function runStats(args: string[]): Promise<void> {
     printRow("Response size", `~${formatNumber(listRootsTokens)} tokens`, `(${formatNumber(listRootsChars)} chars)`);
     console.log();
 
+    console.log(`  ${pc.bold("Embeddings")}`);
+    printRow("Stored model", embeddingStatus.stored.model ?? "unknown");
+    printRow("Active model", embeddingStatus.active?.model ?? "unavailable");
+    const storedDims = Object.entries(embeddingStatus.stored_dimensions)
+      .map(([dim, count]) => `${dim}d × ${formatNumber(count)}`)
+      .join(", ");
+    printRow("Vectors", storedDims || "none", `(text v${embeddingStatus.stored.text_version ?? "?"})`);
+    if (embeddingStatus.mismatch) {
+      console.log(`    ${pc.yellow(embeddingStatus.mismatch)}`);
+    }
+    console.log();
+
     console.log(`  ${pc.bold("Kinds")}`);
     for (const [kind, count] of sortedKinds(kinds)) {
       printRow(kind, formatNumber(count));
@@ -8,6 +8,8 @@ export interface TimelineLogger {
     is_write: boolean;
     is_error: boolean;
     affected_ids: string[];
+    /** Shared by entries that one call wrote, such as a batch or check_refs --fix. */
+    group_id?: string;
   }): void;
 }
 
@@ -24,6 +26,7 @@ export function createTimelineLogger(db: KnowledgeDB): TimelineLogger {
               is_write: entry.is_write,
               is_error: entry.is_error,
               affected_ids: entry.affected_ids,
+              group_id: entry.group_id,
             }),
           1
         );
@@ -1,22 +1,70 @@
+import path from "path";
 import { KnowledgeDB } from "./db.js";
 import { embed, embeddingText, findTopK } from "./embeddings.js";
 import type {
   UnderstandInput,
   GetConceptInput,
+  GetConceptOutput,
+  ResolvedAlias,
   CreateConceptInput,
+  CreateConceptOutput,
   UpdateConceptInput,
   LinkInput,
+  UnlinkInput,
+  UpdateLinkInput,
   RemoveConceptInput,
+  MoveConceptInput,
+  MoveConceptOutput,
+  RestoreConceptInput,
+  GetConceptHistoryInput,
+  RevertConceptInput,
+  ConceptHistoryOutput,
   ResolveConflictInput,
   NodeWithContext,
   UnderstandOutput,
+  ExpandedMatch,
+  ListRootsInput,
   ListRootsOutput,
   ListConflictsOutput,
+  ListPendingEdgesOutput,
+  TagFilter,
+  AttributeInput,
+  AttributeType,
+  SetAttributeInput,
+  FindConceptsInput,
+  FindConceptsOutput,
+  ConceptsForFileInput,
+  ConceptsForFileOutput,
+  FindPathInput,
+  FindPathOutput,
+  GetSubgraphInput,
+  GetSubgraphOutput,
+  WhatDependsOnInput,
+  WhatDependsOnOutput,
+  FileRefRow,
+  FileRefSpecificity,
+  VerifyConceptInput,
   ConflictGroup,
   NodeRow,
   RelationType,
 } from "./types.js";
 import { stripMergeSuffix } from "./merge.js";
+import type { VectorIndex } from "./vector-index.js";
+import { getEmbeddingStatus } from "./embedding-meta.js";
+import { attributesFromRows, encodeAttribute, normalizeAttributeKey } from "./attributes.js";
+import { compileFilter } from "./filter.js";
+import { findStaleConcepts, getStaleness, type StalenessOptions } from "./staleness.js";
+import {
+  DEFAULT_PATH_DEPTH,
+  DEFAULT_SUBGRAPH_DEPTH,
+  DEFAULT_SUBGRAPH_NODES,
+  collectSubgraph,
+  dependentsClosure,
+  expandFromSeeds,
+  shortestPaths,
+} from "./graph.js";
+import { fitConcept, fitRoots, fitUnderstand } from "./budget.js";
+import { globToRegExp, isGlob, normalizeRefPath, parseFileRef } from "./file-refs.js";
 
 export function formatError(err: unknown): { content: Array<{ type: "text"; text: string }>; isError: true } {
   const errorMsg = err instanceof Error ? err.message : String(err);
@@ -40,6 +88,127 @@ export function makeId(name: string, parentId?: string): string {
   return parentId ? `${parentId}/${normalized}` : normalized;
 }
 
+/**
+ * Maximum nesting depth for concepts (roots are depth 1).
+ * Projects override it with the max_depth setting.
+ */
+export const DEFAULT_MAX_DEPTH = 3;
+
+/**
+ * Depth of a concept in the parent hierarchy (roots are depth 1).
+ */
+function conceptDepth(db: KnowledgeDB, id: string): number {
+  let depth = 0;
+  const seen = new Set<string>();
+  let current: string | null = id;
+  while (current && !seen.has(current)) {
+    seen.add(current);
+    depth++;
+    current = db.getNodeIncludingRemoved(current)?.parent_id ?? null;
+  }
+  return depth;
+}
+
+/**
+ * Resolve a concept ID, following an alias when no concept has that ID.
+ * Unknown IDs are returned unchanged so callers can report "not found".
+ */
+export function resolveConceptId(
+  db: KnowledgeDB,
+  id: string
+): { id: string; resolved_alias?: ResolvedAlias } {
+  if (db.nodeExists(id)) {
+    return { id };
+  }
+  const targets = db.resolveAlias(id);
+  if (targets.length > 1) {
+    throw new Error(
+      `"${id}" is an alias for several concepts: ${targets.join(", ")}. Use one of those IDs.`
+    );
+  }
+  if (targets.length === 1) {
+    return { id: targets[0], resolved_alias: { alias: id, id: targets[0] } };
+  }
+  return { id };
+}
+
+/**
+ * Add user-supplied alternate names to a concept. Rejects names that are
+ * already a concept ID or an alias of a different concept.
+ */
+function addNameAliases(db: KnowledgeDB, nodeId: string, aliases: string[]): void {
+  for (const raw of aliases) {
+    const alias = raw.trim();
+    if (!alias || alias === nodeId) continue;
+    if (db.getNodeIncludingRemoved(alias)) {
+      throw new Error(`Alias "${alias}" is already a concept ID.`);
+    }
+    const other = db.resolveAlias(alias).find((target) => target !== nodeId);
+    if (other) {
+      throw new Error(`Alias "${alias}" already refers to "${other}".`);
+    }
+    db.addAlias(alias, nodeId, "name");
+  }
+}
+
+const TAG_PATTERN = /^[a-z0-9][a-z0-9._-]*$/;
+
+/**
+ * Trim, lowercase, and de-duplicate tags. Rejects anything that is not a
+ * short lowercase label (letters, digits, ".", "_", "-").
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const normalized = new Set<string>();
+  for (const raw of tags) {
+    const tag = raw.trim().toLowerCase();
+    if (!TAG_PATTERN.test(tag) || tag.length > 64) {
+      throw new Error(
+        `Invalid tag "${raw}". Tags are lowercase letters, digits, ".", "_" and "-", up to 64 characters.`
+      );
+    }
+    normalized.add(tag);
+  }
+  return [...normalized].sort();
+}
+
+/**
+ * Build a predicate for a tag filter, or null when the filter is empty.
+ * A concept passes if it carries any included tag (when some are given)
+ * and none of the excluded ones.
+ */
+function tagPredicate(filter: TagFilter): ((tags: string[]) => boolean) | null {
+  const include = normalizeTags(filter.tags ?? []);
+  const exclude = normalizeTags(filter.exclude_tags ?? []);
+  if (include.length === 0 && exclude.length === 0) return null;
+  return (tags) =>
+    (include.length === 0 || tags.some((t) => include.includes(t))) &&
+    !tags.some((t) => exclude.includes(t));
+}
+
+type AttributeChange = { key: string; encoded: { type: AttributeType; value: string } | null };
+
+/**
+ * Validate an attributes map up front so a bad value fails before anything is written.
+ */
+function prepareAttributes(attributes: Record<string, AttributeInput>): AttributeChange[] {
+  return Object.entries(attributes).map(([raw, input]) => {
+    const key = normalizeAttributeKey(raw);
+    return { key, encoded: input === null ? null : encodeAttribute(key, input) };
+  });
+}
+
+/** Apply prepared attribute changes. Returns true if any stored value changed. */
+function applyAttributes(db: KnowledgeDB, nodeId: string, changes: AttributeChange[]): boolean {
+  let changed = false;
+  for (const { key, encoded } of changes) {
+    const result = encoded
+      ? db.setAttribute(nodeId, key, encoded.type, encoded.value)
+      : db.deleteAttribute(nodeId, key);
+    changed = result || changed;
+  }
+  return changed;
+}
+
 /**
  * Parse file_refs from JSON string to array.
  */
@@ -96,6 +265,10 @@ export function buildNodeWithContext(
     summary: node.summary,
     why: node.why,
     file_refs: parseFileRefs(node.file_refs),
+    tags: db.getTagsForNode(node.id),
+    attributes: attributesFromRows(db.getAttributesForNode(node.id)),
+    last_verified_at: node.last_verified_at,
+    verified_by: node.verified_by,
     children,
     edges: outgoing,
     incoming_edges: incoming,
@@ -106,51 +279,146 @@ export function buildNodeWithContext(
 
 // ---- Tool handlers ----
 
+/** Compact `output` to `maxTokens` when the caller set a budget. */
+function withBudget<T>(output: T, maxTokens: number | undefined, fit: (output: T, maxTokens: number) => T): T {
+  return maxTokens !== undefined ? fit(output, maxTokens) : output;
+}
+
+/**
+ * Turn free text into an FTS5 query: each whitespace-separated term becomes a
+ * quoted prefix phrase (so `MEGAMEMORY_DB_PATH` or `src/db.ts` match as
+ * written), OR-ed together so BM25 favours concepts matching more terms.
+ * Returns null when the text has nothing searchable.
+ */
+export function buildFtsQuery(text: string): string | null {
+  const terms = text
+    .split(/\s+/)
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+    .map((term) => `"${term.replace(/"/g, '""')}"*`);
+  return terms.length > 0 ? terms.join(" OR ") : null;
+}
+
+/** Reciprocal rank fusion constant; 60 is the value from the original RRF paper. */
+const RRF_K = 60;
+
 export async function understand(
   db: KnowledgeDB,
-  input: UnderstandInput
+  input: UnderstandInput,
+  options: { vectorIndex?: VectorIndex; staleness?: StalenessOptions } = {}
 ): Promise<UnderstandOutput> {
   const topK = input.top_k ?? 10;
+  const mode = input.mode ?? "hybrid";
+  const matchesTags = tagPredicate(input);
+  // Candidates taken from each ranking before fusion. A tag filter may discard
+  // most of them, so rank every concept and filter afterwards instead.
+  const pool = matchesTags ? Math.max(db.getStats().nodes, 1) : Math.max(topK * 5, 50);
 
-  // Embed the query
-  const queryEmbedding = await embed(input.query);
-
-  // Get all active nodes with embeddings
-  const candidates = db.getAllActiveNodesWithEmbeddings();
+  // Keyword ranking (no embedding model needed)
+  let keywordRanked: Array<{ id: string; score: number }> = [];
+  if (mode !== "semantic") {
+    const ftsQuery = buildFtsQuery(input.query);
+    keywordRanked = ftsQuery ? db.searchKeyword(ftsQuery, pool) : [];
+  }
+  const keywordScores = new Map(keywordRanked.map((k) => [k.id, k.score]));
 
-  if (candidates.length === 0) {
-    return { matches: [] };
+  // Semantic ranking
+  let semanticRanked: Array<{ id: string; similarity: number }> = [];
+  if (mode !== "keyword") {
+    if (options.vectorIndex) {
+      if (options.vectorIndex.size > 0) {
+        const queryEmbedding = await embed(input.query);
+        semanticRanked = options.vectorIndex.search(queryEmbedding, pool);
+      }
+    } else {
+      const candidates = db.getAllActiveNodesWithEmbeddings();
+      if (candidates.length > 0) {
+        const queryEmbedding = await embed(input.query);
+        semanticRanked = findTopK(queryEmbedding, candidates, pool);
+      }
+    }
   }
+  const similarities = new Map(semanticRanked.map((m) => [m.id, m.similarity]));
 
-  // Find top-K by cosine similarity
-  const topMatches = findTopK(queryEmbedding, candidates, topK);
+  let rankedIds: string[];
+  if (mode === "semantic") {
+    rankedIds = semanticRanked.map((m) => m.id);
+  } else if (mode === "keyword") {
+    rankedIds = keywordRanked.map((k) => k.id);
+  } else {
+    // Reciprocal rank fusion over the two rankings
+    const fused = new Map<string, number>();
+    for (const ranking of [semanticRanked, keywordRanked]) {
+      ranking.forEach((entry, rank) => {
+        fused.set(entry.id, (fused.get(entry.id) ?? 0) + 1 / (RRF_K + rank + 1));
+      });
+    }
+    rankedIds = [...fused.entries()]
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([id]) => id);
+  }
 
   // Build full context for each match
   const matches: NodeWithContext[] = [];
-  for (const match of topMatches) {
-    const node = db.getNode(match.id);
+  for (const id of rankedIds) {
+    if (matches.length >= topK) break;
+    const node = db.getNode(id);
     if (!node) continue;
-    matches.push(buildNodeWithContext(db, node, match.similarity));
+    if (matchesTags && !matchesTags(db.getTagsForNode(id))) continue;
+    const stale = options.staleness ? getStaleness(node, options.staleness) : null;
+    matches.push({
+      ...buildNodeWithContext(db, node, similarities.get(id)),
+      ...(mode !== "semantic" ? { keyword_score: Math.round((keywordScores.get(id) ?? 0) * 1e4) / 1e4 } : {}),
+      ...(stale ? { stale } : {}),
+    });
+  }
+
+  const hops = input.expand ?? 0;
+  if (hops <= 0 || matches.length === 0) {
+    return withBudget({ matches }, input.max_tokens, fitUnderstand);
   }
 
-  return { matches };
+  // Seeds carry their similarity; keyword-only matches fall back to their keyword score
+  const seeds = matches.map((match) => ({ id: match.id, score: match.similarity ?? match.keyword_score ?? 0 }));
+  const expanded: ExpandedMatch[] = [];
+  for (const expansion of expandFromSeeds(db, seeds, hops)) {
+    if (expanded.length >= topK) break;
+    const node = db.getNode(expansion.id);
+    if (!node) continue;
+    if (matchesTags && !matchesTags(db.getTagsForNode(expansion.id))) continue;
+    const stale = options.staleness ? getStaleness(node, options.staleness) : null;
+    expanded.push({
+      ...buildNodeWithContext(db, node),
+      ...(stale ? { stale } : {}),
+      expansion: {
+        score: Math.round(expansion.score * 1e4) / 1e4,
+        hops: expansion.hops,
+        seed: expansion.seed,
+        path: expansion.path,
+      },
+    });
+  }
+
+  return withBudget({ matches, expanded }, input.max_tokens, fitUnderstand);
 }
 
 export function getConcept(
   db: KnowledgeDB,
   input: GetConceptInput
-): NodeWithContext {
-  const node = db.getNode(input.id);
+): GetConceptOutput {
+  const { id, resolved_alias } = resolveConceptId(db, input.id);
+  const node = db.getNode(id);
   if (!node) {
     throw new Error(`Concept "${input.id}" not found.`);
   }
-  return buildNodeWithContext(db, node);
+  const output: GetConceptOutput = {
+    ...buildNodeWithContext(db, node),
+    aliases: db.getAliasesForNode(node.id).map((a) => a.alias),
+    ...(resolved_alias ? { resolved_alias } : {}),
+  };
+  return withBudget(output, input.max_tokens, fitConcept);
 }
 
-export async function createConcept(
-  db: KnowledgeDB,
-  input: CreateConceptInput
-): Promise<{ id: string; message: string }> {
+function prepareCreate(db: KnowledgeDB, input: CreateConceptInput) {
   const parentId = input.parent_id === "" ? undefined : input.parent_id;
   const id = makeId(input.name, parentId);
 
@@ -164,91 +432,675 @@ export async function createConcept(
     throw new Error(`Parent concept "${parentId}" does not exist.`);
   }
 
+  return {
+    id,
+    parentId,
+    tags: normalizeTags(input.tags ?? []),
+    attributes: prepareAttributes(input.attributes ?? {}),
+  };
+}
+
+/**
+ * Write a new concept whose embedding was computed by the caller.
+ * create_concept and batch share this so all validation stays in one place.
+ */
+export function applyCreateConcept(
+  db: KnowledgeDB,
+  input: CreateConceptInput,
+  embedding: Buffer
+): CreateConceptOutput {
+  const { id, parentId, tags, attributes } = prepareCreate(db, input);
+
+  const { pending, materialized } = db.runInTransaction(() => {
+    const edges = db.insertNodeAndEdges(
+      {
+        id,
+        name: input.name,
+        kind: input.kind,
+        summary: input.summary,
+        why: input.why ?? null,
+        file_refs: input.file_refs ? JSON.stringify(input.file_refs) : null,
+        parent_id: parentId ?? null,
+        created_by_task: input.created_by_task ?? null,
+        embedding,
+      },
+      (input.edges ?? []).map((edge) => ({
+        to_id: edge.to,
+        relation: edge.relation,
+        description: edge.description ?? null,
+      }))
+    );
+    addNameAliases(db, id, input.aliases ?? []);
+    if (tags.length > 0) db.setTags(id, tags);
+    applyAttributes(db, id, attributes);
+    return edges;
+  });
+
+  let message = `Created concept "${id}"`;
+  if (pending.length > 0) {
+    const list = pending.map((edge) => `${edge.relation} "${edge.to_id}"`).join(", ");
+    message += `. ${pending.length} edge${pending.length !== 1 ? "s" : ""} pending until ${pending.length !== 1 ? "their targets exist" : "its target exists"}: ${list}`;
+  }
+  if (materialized.length > 0) {
+    const list = materialized.map((edge) => `"${edge.from_id}" ${edge.relation} "${id}"`).join(", ");
+    message += `. Connected pending edge${materialized.length !== 1 ? "s" : ""}: ${list}`;
+  }
+
+  return {
+    id,
+    message,
+    ...(pending.length > 0
+      ? { pending_edges: pending.map((edge) => ({ to: edge.to_id, relation: edge.relation })) }
+      : {}),
+    ...(materialized.length > 0
+      ? { connected_edges: materialized.map((edge) => ({ from: edge.from_id, relation: edge.relation })) }
+      : {}),
+  };
+}
+
+export async function createConcept(
+  db: KnowledgeDB,
+  input: CreateConceptInput
+): Promise<CreateConceptOutput> {
+  // Fail before embedding if the input can't be written
+  prepareCreate(db, input);
+
   // Generate embedding
   const text = embeddingText(input.name, input.kind, input.summary);
   const embedding = await embed(text);
 
-  db.insertNodeAndEdges(
-    {
-      id,
-      name: input.name,
-      kind: input.kind,
-      summary: input.summary,
-      why: input.why ?? null,
-      file_refs: input.file_refs ? JSON.stringify(input.file_refs) : null,
-      parent_id: parentId ?? null,
-      created_by_task: input.created_by_task ?? null,
-      embedding,
-    },
-    (input.edges ?? []).map((edge) => ({
-      to_id: edge.to,
-      relation: edge.relation,
-      description: edge.description ?? null,
-    }))
+  return applyCreateConcept(db, input, embedding);
+}
+
+/**
+ * Text to re-embed after applying `changes` to `current`, or null when
+ * neither the name nor the summary changes.
+ */
+export function updatedEmbeddingText(
+  current: Pick<NodeRow, "name" | "kind" | "summary">,
+  changes: UpdateConceptInput["changes"]
+): string | null {
+  if (changes.summary === undefined && changes.name === undefined) return null;
+  return embeddingText(
+    changes.name ?? current.name,
+    changes.kind ?? current.kind,
+    changes.summary ?? current.summary
   );
+}
+
+/**
+ * Apply an update whose new embedding, if the name or summary changes,
+ * was computed by the caller.
+ */
+export function applyUpdateConcept(
+  db: KnowledgeDB,
+  input: UpdateConceptInput,
+  embedding: Buffer | undefined
+): { message: string; resolved_alias?: ResolvedAlias } {
+  // Verify node exists
+  const { id, resolved_alias } = resolveConceptId(db, input.id);
+  const existing = db.getNode(id);
+  if (!existing) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+  const { aliases, tags: rawTags, attributes: rawAttributes, ...changes } = input.changes;
+  const tags = rawTags !== undefined ? normalizeTags(rawTags) : undefined;
+  const attributes = prepareAttributes(rawAttributes ?? {});
+  const via = resolved_alias ? ` (resolved alias "${resolved_alias.alias}")` : "";
 
-  return { id, message: `Created concept "${id}"` };
+  let updated = false;
+  let tagsChanged = false;
+  let attributesChanged = false;
+  let aliasesBefore = 0;
+  let aliasesAfter = 0;
+  db.runInTransaction(() => {
+    updated = db.updateNode(id, {
+      ...changes,
+      embedding,
+    });
+
+    aliasesBefore = db.getAliasesForNode(id).length;
+    // The ID keeps the old slug on rename; make the new name's slug resolve too
+    if (changes.name !== undefined && changes.name !== existing.name) {
+      const nameSlug = makeId(changes.name, existing.parent_id ?? undefined);
+      if (nameSlug !== id && !db.getNodeIncludingRemoved(nameSlug)) {
+        db.addAlias(nameSlug, id, "name");
+      }
+    }
+    addNameAliases(db, id, aliases ?? []);
+    aliasesAfter = db.getAliasesForNode(id).length;
+    if (tags !== undefined) tagsChanged = db.setTags(id, tags);
+    attributesChanged = applyAttributes(db, id, attributes);
+  });
+
+  if (!updated && !tagsChanged && !attributesChanged && aliasesAfter === aliasesBefore) {
+    return { message: `No changes applied to "${id}"${via}`, ...(resolved_alias ? { resolved_alias } : {}) };
+  }
+
+  return { message: `Updated concept "${id}"${via}`, ...(resolved_alias ? { resolved_alias } : {}) };
 }
 
 export async function updateConcept(
   db: KnowledgeDB,
   input: UpdateConceptInput
-): Promise<{ message: string }> {
-  // Verify node exists
-  const existing = db.getNode(input.id);
+): Promise<{ message: string; resolved_alias?: ResolvedAlias }> {
+  const { id } = resolveConceptId(db, input.id);
+  const existing = db.getNode(id);
   if (!existing) {
     throw new Error(`Concept "${input.id}" not found.`);
   }
+  // Fail before embedding if tags or attributes are invalid
+  if (input.changes.tags !== undefined) normalizeTags(input.changes.tags);
+  prepareAttributes(input.changes.attributes ?? {});
 
   // If summary or name changed, regenerate embedding
-  let embedding: Buffer | undefined;
-  if (input.changes.summary !== undefined || input.changes.name !== undefined) {
-    const name = input.changes.name ?? existing.name;
-    const kind = input.changes.kind ?? existing.kind;
-    const summary = input.changes.summary ?? existing.summary;
-    const text = embeddingText(name, kind, summary);
-    embedding = await embed(text);
+  const text = updatedEmbeddingText(existing, input.changes);
+  const embedding = text !== null ? await embed(text) : undefined;
+
+  return applyUpdateConcept(db, input, embedding);
+}
+
+export function setAttribute(
+  db: KnowledgeDB,
+  input: SetAttributeInput
+): { message: string; resolved_alias?: ResolvedAlias } {
+  const { id, resolved_alias } = resolveConceptId(db, input.id);
+  if (!db.getNode(id)) {
+    throw new Error(`Concept "${input.id}" not found.`);
   }
+  const value =
+    input.value !== null && input.type ? { type: input.type, value: input.value } : input.value;
+  const [change] = prepareAttributes({ [input.key]: value });
 
-  const updated = db.updateNode(input.id, {
-    ...input.changes,
-    embedding,
+  const changed = applyAttributes(db, id, [change]);
+  const action = change.encoded ? `Set ${change.key} on` : `Removed ${change.key} from`;
+  const message = changed ? `${action} "${id}"` : `No changes applied to "${id}"`;
+  return { message, ...(resolved_alias ? { resolved_alias } : {}) };
+}
+
+/**
+ * Concepts matching a filter expression (see filter.ts), ordered by name.
+ */
+export function findConcepts(db: KnowledgeDB, input: FindConceptsInput): FindConceptsOutput {
+  const matches = compileFilter(input.filter);
+  const limit = input.limit ?? 50;
+  const tagsByNode = db.getTagsByNode();
+  const attributesByNode = db.getAttributesByNode();
+
+  const found = db.getAllActiveNodes().filter((node) =>
+    matches({
+      node,
+      tags: tagsByNode.get(node.id) ?? [],
+      attributes: attributesByNode.get(node.id) ?? [],
+    })
+  );
+
+  return {
+    matches: found.slice(0, limit).map((node) => ({
+      id: node.id,
+      name: node.name,
+      kind: node.kind as NodeWithContext["kind"],
+      summary: node.summary,
+      tags: tagsByNode.get(node.id) ?? [],
+      attributes: attributesFromRows(attributesByNode.get(node.id) ?? []),
+    })),
+    total: found.length,
+  };
+}
+
+const SPECIFICITY_RANK: Record<FileRefSpecificity, number> = { range: 3, symbol: 2, file: 1 };
+
+/**
+ * How a stored reference relates to the requested lines or symbol, with the
+ * width of its line range for ordering narrower ranges first. Null when it
+ * points at a different part of the file.
+ */
+function rankFileRef(
+  row: FileRefRow,
+  lines: { start: number; end: number } | null,
+  symbol: string | undefined
+): { specificity: FileRefSpecificity; span: number } | null {
+  if (symbol !== undefined) {
+    if (row.symbol === symbol) return { specificity: "symbol", span: 0 };
+    return row.symbol === null && row.start_line === null ? { specificity: "file", span: 0 } : null;
+  }
+  if (row.start_line !== null) {
+    const end = row.end_line ?? row.start_line;
+    if (lines && (lines.end < row.start_line || lines.start > end)) return null;
+    return { specificity: "range", span: end - row.start_line };
+  }
+  return { specificity: row.symbol !== null ? "symbol" : "file", span: 0 };
+}
+
+/**
+ * Concepts whose file_refs point at a file, or at any file matching a glob.
+ * A line or symbol narrows the match to references covering it; references
+ * to the whole file always match. Concepts referencing the location most
+ * specifically come first: a covering line range (narrowest first), then a
+ * symbol, then the bare file. Absolute paths under `root` are made relative.
+ */
+export function conceptsForFile(
+  db: KnowledgeDB,
+  input: ConceptsForFileInput,
+  options: { root?: string } = {}
+): ConceptsForFileOutput {
+  const query = parseFileRef(input.path);
+  let queryPath = normalizeRefPath(query.path);
+  if (options.root && path.isAbsolute(queryPath)) {
+    const relative = path.relative(options.root, queryPath);
+    if (relative && !relative.startsWith("..") && !path.isAbsolute(relative)) {
+      queryPath = normalizeRefPath(relative);
+    }
+  }
+  if (!queryPath) {
+    throw new Error("path must name a file or glob.");
+  }
+
+  const lines =
+    input.line !== undefined
+      ? { start: input.line, end: input.line }
+      : query.startLine !== undefined
+        ? { start: query.startLine, end: query.endLine ?? query.startLine }
+        : null;
+  const glob = isGlob(queryPath) ? globToRegExp(queryPath) : null;
+  const paths = glob ? db.getFileRefPaths().filter((p) => glob.test(p)) : [queryPath];
+
+  const byNode = new Map<string, Array<{ ref: string; specificity: FileRefSpecificity; span: number }>>();
+  for (const row of db.getFileRefsForPaths(paths)) {
+    const rank = rankFileRef(row, lines, query.symbol);
+    if (!rank) continue;
+    const refs = byNode.get(row.node_id) ?? [];
+    refs.push({ ref: row.ref, ...rank });
+    byNode.set(row.node_id, refs);
+  }
+
+  const moreSpecific = (a: { specificity: FileRefSpecificity; span: number }, b: typeof a) =>
+    SPECIFICITY_RANK[b.specificity] - SPECIFICITY_RANK[a.specificity] || a.span - b.span;
+  const ranked = [...byNode.entries()]
+    .map(([id, refs]) => ({ id, refs: refs.sort(moreSpecific) }))
+    .sort((a, b) => moreSpecific(a.refs[0], b.refs[0]) || b.refs.length - a.refs.length || a.id.localeCompare(b.id));
+
+  const matches: ConceptsForFileOutput["matches"] = [];
+  for (const { id, refs } of ranked.slice(0, input.limit ?? 50)) {
+    const node = db.getNode(id)!;
+    matches.push({
+      id,
+      name: node.name,
+      kind: node.kind as NodeWithContext["kind"],
+      summary: node.summary,
+      specificity: refs[0].specificity,
+      refs: refs.map((r) => r.ref),
+    });
+  }
+  return { matches, total: ranked.length };
+}
+
+/**
+ * The shortest relationship paths between two concepts, walking edges in
+ * either direction and optionally the parent/child hierarchy. Each step
+ * carries the edge's description, so the path reads as an explanation of
+ * how the two concepts are connected.
+ */
+export function findPath(db: KnowledgeDB, input: FindPathInput): FindPathOutput {
+  const from = resolveConceptId(db, input.from);
+  const to = resolveConceptId(db, input.to);
+  if (!db.nodeExists(from.id)) {
+    throw new Error(`Source concept "${input.from}" not found.`);
+  }
+  if (!db.nodeExists(to.id)) {
+    throw new Error(`Target concept "${input.to}" not found.`);
+  }
+  const resolved_aliases = [from.resolved_alias, to.resolved_alias].filter(
+    (a): a is ResolvedAlias => a !== undefined
+  );
+
+  const maxDepth = input.max_depth ?? DEFAULT_PATH_DEPTH;
+  const paths = shortestPaths(db, from.id, to.id, {
+    relations: input.relations,
+    include_hierarchy: input.include_hierarchy,
+    max_depth: maxDepth,
+    max_paths: input.max_paths,
   });
 
-  if (!updated) {
-    return { message: `No changes applied to "${input.id}"` };
+  const ids = new Set<string>();
+  for (const steps of paths) {
+    ids.add(from.id);
+    for (const step of steps) ids.add(step.to);
+  }
+  const concepts = [...ids].map((id) => {
+    const node = db.getNode(id)!;
+    return { id, name: node.name, kind: node.kind as NodeWithContext["kind"] };
+  });
+
+  const length = paths[0]?.length ?? 0;
+  return {
+    from: from.id,
+    to: to.id,
+    paths: paths.map((steps) => ({ length: steps.length, steps })),
+    concepts,
+    ...(resolved_aliases.length > 0 ? { resolved_aliases } : {}),
+    message:
+      paths.length === 0
+        ? `No path from "${from.id}" to "${to.id}" within ${maxDepth} hops`
+        : `${paths.length} shortest path${paths.length !== 1 ? "s" : ""} of ${length} hop${length !== 1 ? "s" : ""} from "${from.id}" to "${to.id}"`,
+  };
+}
+
+/**
+ * A concept's neighbourhood as flat, deduplicated node and edge lists, for
+ * "everything within N hops of X" questions. Unlike understand and
+ * get_concept, concepts are not repeated with their own nested context.
+ */
+export function getSubgraph(db: KnowledgeDB, input: GetSubgraphInput): GetSubgraphOutput {
+  const { id, resolved_alias } = resolveConceptId(db, input.root);
+  if (!db.nodeExists(id)) {
+    throw new Error(`Concept "${input.root}" not found.`);
+  }
+
+  const depth = input.depth ?? DEFAULT_SUBGRAPH_DEPTH;
+  const maxNodes = input.max_nodes ?? DEFAULT_SUBGRAPH_NODES;
+  const subgraph = collectSubgraph(db, id, {
+    depth,
+    direction: input.direction,
+    relations: input.relations,
+    max_nodes: maxNodes,
+  });
+
+  const nodes = subgraph.nodes.map(({ id: nodeId, depth: hops }) => {
+    const node = db.getNode(nodeId)!;
+    return {
+      id: nodeId,
+      name: node.name,
+      kind: node.kind as NodeWithContext["kind"],
+      summary: node.summary,
+      parent_id: node.parent_id,
+      depth: hops,
+    };
+  });
+  const edges = subgraph.edges.map((edge) => ({
+    from: edge.from_id,
+    to: edge.to_id,
+    relation: edge.relation,
+    description: edge.description,
+  }));
+
+  return {
+    root: id,
+    nodes,
+    edges,
+    truncated: subgraph.truncated,
+    ...(resolved_alias ? { resolved_alias } : {}),
+    message:
+      `${nodes.length} concept${nodes.length !== 1 ? "s" : ""} and ${edges.length} edge${edges.length !== 1 ? "s" : ""} within ${depth} hop${depth !== 1 ? "s" : ""} of "${id}"` +
+      (subgraph.truncated ? `; stopped at max_nodes (${maxNodes})` : ""),
+  };
+}
+
+/**
+ * Everything that would feel a change to a concept: the transitive set of
+ * concepts that depend on, call or implement it, each with the depth it was
+ * reached at, grouped under their top-level ancestor. Reliance cycles are
+ * reported separately, since they make the closure include the concept's
+ * own dependencies too.
+ */
+export function whatDependsOn(db: KnowledgeDB, input: WhatDependsOnInput): WhatDependsOnOutput {
+  const { id, resolved_alias } = resolveConceptId(db, input.id);
+  if (!db.nodeExists(id)) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+  const { dependents, cycles } = dependentsClosure(db, id, input.max_depth);
+
+  const rootOf = new Map<string, NodeRow>();
+  const findRoot = (node: NodeRow): NodeRow => {
+    const cached = rootOf.get(node.id);
+    if (cached) return cached;
+    // getNode skips removed concepts, so groups stop at the first live ancestor
+    const parent = node.parent_id ? db.getNode(node.parent_id) : undefined;
+    const root = parent ? findRoot(parent) : node;
+    rootOf.set(node.id, root);
+    return root;
+  };
+
+  const groups = new Map<string, WhatDependsOnOutput["groups"][number]>();
+  for (const dependent of dependents) {
+    const node = db.getNode(dependent.id)!;
+    const root = findRoot(node);
+    const group = groups.get(root.id) ?? { root: { id: root.id, name: root.name }, dependents: [] };
+    group.dependents.push({
+      id: dependent.id,
+      name: node.name,
+      kind: node.kind as NodeWithContext["kind"],
+      depth: dependent.depth,
+      via: dependent.via,
+    });
+    groups.set(root.id, group);
   }
 
-  return { message: `Updated concept "${input.id}"` };
+  const deepest = dependents.length > 0 ? dependents[dependents.length - 1].depth : 0;
+  return {
+    id,
+    // Dependents arrive nearest first, so groups are already ordered by their nearest member
+    groups: [...groups.values()],
+    total: dependents.length,
+    cycles,
+    ...(resolved_alias ? { resolved_alias } : {}),
+    message:
+      `${dependents.length} concept${dependents.length !== 1 ? "s depend" : " depends"} on "${id}"` +
+      (dependents.length > 0 ? `, up to ${deepest} hop${deepest !== 1 ? "s" : ""} away, under ${groups.size} top-level concept${groups.size !== 1 ? "s" : ""}` : "") +
+      (cycles.length > 0 ? `; ${cycles.length} cycle${cycles.length !== 1 ? "s" : ""}` : ""),
+  };
+}
+
+/**
+ * Record that a concept's summary was checked against the code and still holds.
+ */
+export function verifyConcept(
+  db: KnowledgeDB,
+  input: VerifyConceptInput
+): { message: string; resolved_alias?: ResolvedAlias } {
+  const { id, resolved_alias } = resolveConceptId(db, input.id);
+  if (!db.markVerified(id, input.verified_by ?? null)) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+  return { message: `Verified concept "${id}"`, ...(resolved_alias ? { resolved_alias } : {}) };
 }
 
 export function link(
   db: KnowledgeDB,
   input: LinkInput
-): { message: string } {
+): { message: string; resolved_aliases?: ResolvedAlias[] } {
+  const from = resolveConceptId(db, input.from);
+  const to = resolveConceptId(db, input.to);
+
   // Validate both nodes exist
-  if (!db.nodeExists(input.from)) {
+  if (!db.nodeExists(from.id)) {
     throw new Error(`Source concept "${input.from}" not found.`);
   }
-  if (!db.nodeExists(input.to)) {
+  if (!db.nodeExists(to.id)) {
     throw new Error(`Target concept "${input.to}" not found.`);
   }
 
+  const resolved_aliases = [from.resolved_alias, to.resolved_alias].filter(
+    (a): a is ResolvedAlias => a !== undefined
+  );
+  const extra = resolved_aliases.length > 0 ? { resolved_aliases } : {};
+
   const { id: edgeId, inserted } = db.insertEdge({
-    from_id: input.from,
-    to_id: input.to,
+    from_id: from.id,
+    to_id: to.id,
     relation: input.relation,
     description: input.description,
   });
 
   if (!inserted) {
     return {
-      message: `Relationship "${input.relation}" from "${input.from}" to "${input.to}" already exists.`,
+      message: `Relationship "${input.relation}" from "${from.id}" to "${to.id}" already exists.`,
+      ...extra,
     };
   }
 
   return {
-    message: `Created ${input.relation} link from "${input.from}" to "${input.to}" (edge #${edgeId})`,
+    message: `Created ${input.relation} link from "${from.id}" to "${to.id}" (edge #${edgeId})`,
+    ...extra,
+  };
+}
+
+export function listPendingEdges(db: KnowledgeDB): ListPendingEdgesOutput {
+  return {
+    pending_edges: db.getPendingEdges().map((edge) => ({
+      from: edge.from_id,
+      to: edge.to_id,
+      relation: edge.relation,
+      description: edge.description,
+      created_at: edge.created_at,
+    })),
+  };
+}
+
+export function moveConcept(
+  db: KnowledgeDB,
+  input: MoveConceptInput,
+  options: { maxDepth?: number } = {}
+): MoveConceptOutput {
+  const maxDepth = options.maxDepth ?? DEFAULT_MAX_DEPTH;
+  const node = db.getNode(input.id);
+  if (!node) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+
+  const newParentId = input.new_parent_id ? input.new_parent_id : null;
+  if ((node.parent_id ?? null) === newParentId) {
+    throw new Error(
+      newParentId
+        ? `Concept "${node.id}" is already under "${newParentId}".`
+        : `Concept "${node.id}" is already a root concept.`
+    );
+  }
+
+  const descendants = db.getDescendants(node.id);
+  if (newParentId) {
+    if (!db.nodeExists(newParentId)) {
+      throw new Error(`Parent concept "${newParentId}" does not exist.`);
+    }
+    if (newParentId === node.id || descendants.some((d) => d.id === newParentId)) {
+      throw new Error(
+        `Cannot move "${node.id}" under "${newParentId}": it would create a parent cycle.`
+      );
+    }
+  }
+
+  const subtreeHeight = descendants.reduce((max, d) => Math.max(max, d.depth), 0);
+  const newDepth = (newParentId ? conceptDepth(db, newParentId) : 0) + 1;
+  if (newDepth + subtreeHeight > maxDepth) {
+    throw new Error(
+      `Cannot move "${node.id}" under "${newParentId}": its subtree would reach depth ${newDepth + subtreeHeight} (max ${maxDepth}).`
+    );
+  }
+
+  // The node keeps its own slug; only the parent prefix changes.
+  const slug =
+    node.parent_id && node.id.startsWith(`${node.parent_id}/`)
+      ? node.id.slice(node.parent_id.length + 1)
+      : node.id.slice(node.id.lastIndexOf("/") + 1);
+  const newId = newParentId ? `${newParentId}/${slug}` : slug;
+
+  // Descendant IDs are path-like too; rewrite the ones that carry the old prefix.
+  const renamed: Array<{ from: string; to: string }> = [{ from: node.id, to: newId }];
+  for (const d of descendants) {
+    if (d.id.startsWith(`${node.id}/`)) {
+      renamed.push({ from: d.id, to: newId + d.id.slice(node.id.length) });
+    }
+  }
+
+  const movingIds = new Set(renamed.map((r) => r.from));
+  for (const { from, to } of renamed) {
+    if (from !== to && !movingIds.has(to) && db.getNodeIncludingRemoved(to)) {
+      throw new Error(`Cannot move "${node.id}": concept "${to}" already exists.`);
+    }
+  }
+
+  db.runInTransaction(() => {
+    // Parents are renamed before their children, so each rename also
+    // repoints the children's parent_id at the new ID.
+    for (const { from, to } of renamed) {
+      if (from !== to) {
+        db.renameNodeId(from, to);
+        db.addAlias(from, to, "former_id");
+      }
+    }
+    db.setParent(newId, newParentId);
+  });
+
+  return {
+    message: `Moved "${node.id}" to "${newId}"${renamed.length > 1 ? ` (${renamed.length - 1} descendant${renamed.length > 2 ? "s" : ""} renamed)` : ""}`,
+    old_id: node.id,
+    new_id: newId,
+    renamed: renamed.filter((r) => r.from !== r.to),
+  };
+}
+
+export function unlink(
+  db: KnowledgeDB,
+  input: UnlinkInput
+): { message: string } {
+  // Validate both nodes exist
+  if (!db.nodeExists(input.from)) {
+    throw new Error(`Source concept "${input.from}" not found.`);
+  }
+  if (!db.nodeExists(input.to)) {
+    throw new Error(`Target concept "${input.to}" not found.`);
+  }
+
+  const removed = db.deleteEdge(input.from, input.to, input.relation);
+  if (!removed) {
+    throw new Error(
+      `Relationship "${input.relation}" from "${input.from}" to "${input.to}" not found.`
+    );
+  }
+
+  return {
+    message: `Removed ${input.relation} link from "${input.from}" to "${input.to}". Reason: ${input.reason}`,
+  };
+}
+
+export function updateLink(
+  db: KnowledgeDB,
+  input: UpdateLinkInput
+): { message: string } {
+  // Validate both nodes exist
+  if (!db.nodeExists(input.from)) {
+    throw new Error(`Source concept "${input.from}" not found.`);
+  }
+  if (!db.nodeExists(input.to)) {
+    throw new Error(`Target concept "${input.to}" not found.`);
+  }
+
+  if (!db.getEdge(input.from, input.to, input.relation)) {
+    throw new Error(
+      `Relationship "${input.relation}" from "${input.from}" to "${input.to}" not found.`
+    );
+  }
+
+  const newRelation = input.changes.relation;
+  if (
+    newRelation !== undefined &&
+    newRelation !== input.relation &&
+    db.getEdge(input.from, input.to, newRelation)
+  ) {
+    throw new Error(
+      `Relationship "${newRelation}" from "${input.from}" to "${input.to}" already exists. Use unlink to remove one of them first.`
+    );
+  }
+
+  const updated = db.updateEdge(input.from, input.to, input.relation, input.changes);
+  if (!updated) {
+    return {
+      message: `No changes applied to ${input.relation} link from "${input.from}" to "${input.to}"`,
+    };
+  }
+
+  return {
+    message: `Updated ${newRelation ?? input.relation} link from "${input.from}" to "${input.to}"`,
   };
 }
 
@@ -274,28 +1126,152 @@ export function removeConcept(
   };
 }
 
-export function listRoots(db: KnowledgeDB): ListRootsOutput & { hint?: string } {
+export function restoreConcept(
+  db: KnowledgeDB,
+  input: RestoreConceptInput
+): { message: string; restored_edges: number } {
+  const existing = db.getNodeIncludingRemoved(input.id);
+  if (!existing) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+  if (!existing.removed_at) {
+    throw new Error(`Concept "${input.id}" is not removed.`);
+  }
+
+  const { restored, edgesRestored } = db.restoreNode(input.id);
+  if (!restored) {
+    throw new Error(`Failed to restore concept "${input.id}".`);
+  }
+
+  let message = `Restored concept "${input.id}" with ${edgesRestored} edge${edgesRestored !== 1 ? "s" : ""}.`;
+  if (existing.parent_id && !db.nodeExists(existing.parent_id)) {
+    message += ` Parent "${existing.parent_id}" is still removed; restore it too or the concept stays hidden from list_roots.`;
+  }
+
+  return { message, restored_edges: edgesRestored };
+}
+
+export function getConceptHistory(
+  db: KnowledgeDB,
+  input: GetConceptHistoryInput
+): ConceptHistoryOutput {
+  const node = db.getNode(input.id);
+  if (!node) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+
+  const revisions = db.getNodeRevisions(node.id).map((r) => ({
+    revision: r.revision,
+    name: r.name,
+    kind: r.kind as NodeWithContext["kind"],
+    summary: r.summary,
+    why: r.why,
+    file_refs: parseFileRefs(r.file_refs),
+    recorded_at: r.recorded_at,
+  }));
+
+  return {
+    id: node.id,
+    current: {
+      revision: revisions.length + 1,
+      name: node.name,
+      kind: node.kind as NodeWithContext["kind"],
+      summary: node.summary,
+      why: node.why,
+      file_refs: parseFileRefs(node.file_refs),
+      updated_at: node.updated_at,
+    },
+    revisions,
+  };
+}
+
+export async function revertConcept(
+  db: KnowledgeDB,
+  input: RevertConceptInput
+): Promise<{ message: string }> {
+  const existing = db.getNode(input.id);
+  if (!existing) {
+    throw new Error(`Concept "${input.id}" not found.`);
+  }
+
+  const target = db.getNodeRevision(input.id, input.revision);
+  if (!target) {
+    throw new Error(
+      `Revision ${input.revision} of concept "${input.id}" not found. Use get_concept_history to list revisions.`
+    );
+  }
+
+  const text = embeddingText(target.name, target.kind, target.summary);
+  const embedding = await embed(text);
+
+  // updateNode snapshots the current version first, so a revert can itself be reverted.
+  db.updateNode(input.id, {
+    name: target.name,
+    kind: target.kind,
+    summary: target.summary,
+    why: target.why,
+    file_refs: parseFileRefs(target.file_refs),
+    embedding,
+  });
+
+  return {
+    message: `Reverted concept "${input.id}" to revision ${input.revision}${input.reason ? `. Reason: ${input.reason}` : ""}`,
+  };
+}
+
+/**
+ * Top-level concepts with their children's names. With a tag filter, a root
+ * is listed if it or one of its children matches, and only matching children
+ * are named; an excluded root hides its whole subtree.
+ */
+export function listRoots(
+  db: KnowledgeDB,
+  input: ListRootsInput = {},
+  options: { staleness?: StalenessOptions } = {}
+): ListRootsOutput & { hint?: string; embedding_warning?: string } {
   const rootRows = db.getRootNodes();
+  const matchesTags = tagPredicate(input);
+  const tagsByNode = db.getTagsByNode();
+  const tagsOf = (id: string) => tagsByNode.get(id) ?? [];
+  const excluded = normalizeTags(input.exclude_tags ?? []);
 
-  const roots = rootRows.map((root) => {
-    const children = db.getChildren(root.id).map((c) => c.name);
+  const roots: ListRootsOutput["roots"] = [];
+  for (const root of rootRows) {
+    let children = db.getChildren(root.id);
+    if (matchesTags) {
+      if (tagsOf(root.id).some((t) => excluded.includes(t))) continue;
+      const rootMatches = matchesTags(tagsOf(root.id));
+      children = children.filter((c) => matchesTags(tagsOf(c.id)));
+      if (!rootMatches && children.length === 0) continue;
+    }
 
-    return {
+    const stale = options.staleness ? getStaleness(root, options.staleness) : null;
+    roots.push({
       id: root.id,
       name: root.name,
       kind: root.kind as NodeWithContext["kind"],
       summary: root.summary,
-      children,
-    };
-  });
+      tags: tagsOf(root.id),
+      children: children.map((c) => c.name),
+      ...(stale ? { stale } : {}),
+    });
+  }
+  const staleCount = options.staleness ? findStaleConcepts(db, options.staleness).length : 0;
 
   const stats = db.getStats();
   const hint =
     stats.nodes === 0
       ? "Graph is empty. Run /user:bootstrap-memory to populate, or create concepts as you work."
       : undefined;
+  const embeddingWarning = getEmbeddingStatus(db).mismatch;
 
-  return { roots, ...(hint ? { hint } : {}) };
+  const output = {
+    roots,
+    ...(staleCount > 0 ? { stale_concepts: staleCount } : {}),
+    ...(hint ? { hint } : {}),
+    ...(embeddingWarning ? { embedding_warning: embeddingWarning } : {}),
+  };
+  return withBudget(output, input.max_tokens, fitRoots);
 }
 
 // ---- Merge conflict tools ----
@@ -8,24 +8,50 @@ export interface Node {
   why: string | null;
   file_refs: string[] | null;
   parent_id: string | null;
+  tags: string[];
+  attributes: Attributes;
   created_by_task: string | null;
   created_at: string;
   updated_at: string;
   removed_at: string | null;
   removed_reason: string | null;
+  last_verified_at: string | null;
+  verified_by: string | null;
   merge_group: string | null;
   needs_merge: boolean;
   source_branch: string | null;
   merge_timestamp: string | null;
 }
 
-export type NodeKind =
-  | "feature"
-  | "module"
-  | "pattern"
-  | "config"
-  | "decision"
-  | "component";
+export const ATTRIBUTE_TYPES = ["string", "number", "boolean", "date"] as const;
+
+export type AttributeType = (typeof ATTRIBUTE_TYPES)[number];
+
+/** Attribute value as returned to callers; dates are ISO 8601 strings. */
+export type AttributeValue = string | number | boolean;
+
+export type Attributes = Record<string, AttributeValue>;
+
+/**
+ * Attribute value as accepted from callers. Plain values infer their type
+ * (strings shaped like ISO dates become dates); the object form forces one.
+ * null removes the attribute.
+ */
+export type AttributeInput = AttributeValue | null | { type: AttributeType; value: AttributeValue };
+
+export const BUILTIN_NODE_KINDS = [
+  "feature",
+  "module",
+  "pattern",
+  "config",
+  "decision",
+  "component",
+] as const;
+
+export type BuiltinNodeKind = (typeof BUILTIN_NODE_KINDS)[number];
+
+/** A built-in kind, or a custom kind declared in the project config. */
+export type NodeKind = BuiltinNodeKind | (string & {});
 
 export interface Edge {
   id: number;
@@ -34,24 +60,46 @@ export interface Edge {
   relation: RelationType;
   description: string | null;
   created_at: string;
+  removed_at: string | null;
   merge_group: string | null;
   needs_merge: boolean;
   source_branch: string | null;
   merge_timestamp: string | null;
 }
 
-export type RelationType =
-  | "connects_to"
-  | "depends_on"
-  | "implements"
-  | "calls"
-  | "configured_by";
+export const BUILTIN_RELATION_TYPES = [
+  "connects_to",
+  "depends_on",
+  "implements",
+  "calls",
+  "configured_by",
+] as const;
+
+export type BuiltinRelationType = (typeof BUILTIN_RELATION_TYPES)[number];
+
+/** A built-in relation, or a custom relation declared in the project config. */
+export type RelationType = BuiltinRelationType | (string & {});
 
 // ---- Tool input types ----
 
-export interface UnderstandInput {
+export type SearchMode = "semantic" | "keyword" | "hybrid";
+
+/** Tag filter shared by understand and list_roots. */
+export interface TagFilter {
+  tags?: string[]; // keep concepts carrying at least one of these
+  exclude_tags?: string[]; // drop concepts carrying any of these
+}
+
+export interface UnderstandInput extends TagFilter {
   query: string;
   top_k?: number; // default 10
+  mode?: SearchMode; // default "hybrid"
+  expand?: number; // hops to follow from the matches, default 0
+  max_tokens?: number;
+}
+
+export interface ListRootsInput extends TagFilter {
+  max_tokens?: number;
 }
 
 export interface CreateConceptInput {
@@ -61,6 +109,9 @@ export interface CreateConceptInput {
   why?: string;
   parent_id?: string;
   file_refs?: string[];
+  aliases?: string[];
+  tags?: string[];
+  attributes?: Record<string, AttributeInput>;
   edges?: Array<{
     to: string;
     relation: RelationType;
@@ -69,6 +120,15 @@ export interface CreateConceptInput {
   created_by_task?: string;
 }
 
+export interface CreateConceptOutput {
+  id: string;
+  message: string;
+  /** Requested edges whose target does not exist yet; they are created when it does. */
+  pending_edges?: Array<{ to: string; relation: string }>;
+  /** Pending edges from other concepts that this concept completed. */
+  connected_edges?: Array<{ from: string; relation: string }>;
+}
+
 export interface UpdateConceptInput {
   id: string;
   changes: {
@@ -77,6 +137,9 @@ export interface UpdateConceptInput {
     summary?: string;
     why?: string;
     file_refs?: string[];
+    aliases?: string[]; // added to the concept's existing aliases
+    tags?: string[]; // replaces the concept's tags
+    attributes?: Record<string, AttributeInput>; // merged into existing attributes
   };
 }
 
@@ -87,11 +150,260 @@ export interface LinkInput {
   description?: string;
 }
 
+export interface UnlinkInput {
+  from: string;
+  to: string;
+  relation: RelationType;
+  reason: string;
+}
+
+export interface UpdateLinkInput {
+  from: string;
+  to: string;
+  relation: RelationType;
+  changes: {
+    relation?: RelationType;
+    description?: string;
+  };
+}
+
 export interface RemoveConceptInput {
   id: string;
   reason: string;
 }
 
+/**
+ * One step of a batch. A create's `ref` names the new concept so later
+ * operations can point at it as `$ref` in any ID field.
+ */
+export type BatchOperation =
+  | ({ op: "create"; ref?: string } & CreateConceptInput)
+  | ({ op: "update" } & UpdateConceptInput)
+  | ({ op: "link" } & LinkInput)
+  | ({ op: "remove" } & RemoveConceptInput);
+
+export interface BatchInput {
+  operations: BatchOperation[];
+}
+
+export interface BatchResult {
+  index: number;
+  op: BatchOperation["op"];
+  id?: string; // concept created, updated or removed
+  from?: string; // link endpoints, with refs and aliases resolved
+  to?: string;
+  message: string;
+}
+
+export interface BatchOutput {
+  results: BatchResult[];
+  message: string;
+}
+
+export type AliasKind = "former_id" | "name";
+
+export interface AliasRow {
+  alias: string;
+  node_id: string;
+  kind: AliasKind;
+  created_at: string;
+}
+
+export interface AttributeRow {
+  node_id: string;
+  key: string;
+  type: AttributeType;
+  value: string; // canonical text form
+}
+
+export interface SetAttributeInput {
+  id: string;
+  key: string;
+  value: AttributeValue | null;
+  type?: AttributeType;
+}
+
+export interface FindConceptsInput {
+  filter: string;
+  limit?: number;
+}
+
+export interface FindConceptsOutput {
+  matches: Array<{
+    id: string;
+    name: string;
+    kind: NodeKind;
+    summary: string;
+    tags: string[];
+    attributes: Attributes;
+  }>;
+  total: number;
+}
+
+export interface ConceptsForFileInput {
+  /** File path or glob, optionally with a line range (`src/db.ts:120`) or symbol (`src/db.ts#getNode`). */
+  path: string;
+  /** Only references covering this line, or not pinned to any line. */
+  line?: number;
+  limit?: number;
+}
+
+/**
+ * How precisely a concept's reference points at the location: a line range
+ * covering it, a named symbol, or just the file.
+ */
+export type FileRefSpecificity = "range" | "symbol" | "file";
+
+export interface ConceptsForFileOutput {
+  matches: Array<{
+    id: string;
+    name: string;
+    kind: NodeKind;
+    summary: string;
+    specificity: FileRefSpecificity;
+    /** The concept's references that matched, most specific first. */
+    refs: string[];
+  }>;
+  total: number;
+}
+
+export interface FindPathInput {
+  from: string;
+  to: string;
+  /** Only follow edges of these relations (default: all). */
+  relations?: RelationType[];
+  /** Also step between a concept and its parent or children. */
+  include_hierarchy?: boolean;
+  max_depth?: number;
+  max_paths?: number;
+}
+
+/**
+ * One hop of a path, in walking order. `reversed` when the hop follows an
+ * edge against its direction (the edge runs `to` → `from`); "parent" and
+ * "child" hops follow the concept hierarchy.
+ */
+export interface PathStep {
+  from: string;
+  to: string;
+  relation: RelationType | "parent" | "child";
+  reversed: boolean;
+  description: string | null;
+}
+
+export interface FindPathOutput {
+  from: string;
+  to: string;
+  /** All shortest paths (up to max_paths); empty when none is within max_depth. */
+  paths: Array<{ length: number; steps: PathStep[] }>;
+  /** Every concept on the paths, in order of first appearance. */
+  concepts: Array<{ id: string; name: string; kind: NodeKind }>;
+  resolved_aliases?: ResolvedAlias[];
+  message: string;
+}
+
+/** Which edges a subgraph follows away from its root: outgoing, incoming, or both. */
+export type SubgraphDirection = "in" | "out" | "both";
+
+export interface GetSubgraphInput {
+  root: string;
+  depth?: number;
+  direction?: SubgraphDirection;
+  /** Only follow edges of these relations (default: all). */
+  relations?: RelationType[];
+  max_nodes?: number;
+}
+
+export interface GetSubgraphOutput {
+  root: string;
+  /** Each concept once, nearest first; depth is its distance in hops from the root. */
+  nodes: Array<{
+    id: string;
+    name: string;
+    kind: NodeKind;
+    summary: string;
+    parent_id: string | null;
+    depth: number;
+  }>;
+  /** Every active edge between the listed concepts that passes the relation filter. */
+  edges: Array<{
+    from: string;
+    to: string;
+    relation: RelationType;
+    description: string | null;
+  }>;
+  /** Set when max_nodes stopped the walk before depth was reached. */
+  truncated: boolean;
+  resolved_alias?: ResolvedAlias;
+  message: string;
+}
+
+export interface WhatDependsOnInput {
+  id: string;
+  /** Stop this many hops from the concept (default: the whole closure). */
+  max_depth?: number;
+}
+
+export interface WhatDependsOnOutput {
+  id: string;
+  /** Dependents grouped under their top-level ancestor, nearest group first. */
+  groups: Array<{
+    root: { id: string; name: string };
+    dependents: Array<{
+      id: string;
+      name: string;
+      kind: NodeKind;
+      depth: number;
+      /** The edge that reached this concept, pointing one hop closer to `id`. */
+      via: ExpansionStep;
+    }>;
+  }>;
+  total: number;
+  /** Reliance loops; each concept relies on the next, and the last on the first. */
+  cycles: string[][];
+  resolved_alias?: ResolvedAlias;
+  message: string;
+}
+
+export interface VerifyConceptInput {
+  id: string;
+  verified_by?: string;
+}
+
+/** Present on a concept that needs re-checking against the code. */
+export interface Staleness {
+  last_verified_at: string | null;
+  days_since_verified: number;
+  /** file_refs modified (or deleted) since the concept was last checked. */
+  changed_files: string[];
+}
+
+export interface MoveConceptInput {
+  id: string;
+  new_parent_id?: string | null; // null or "" moves the concept to the root
+}
+
+export interface MoveConceptOutput {
+  message: string;
+  old_id: string;
+  new_id: string;
+  renamed: Array<{ from: string; to: string }>;
+}
+
+export interface RestoreConceptInput {
+  id: string;
+}
+
+export interface GetConceptHistoryInput {
+  id: string;
+}
+
+export interface RevertConceptInput {
+  id: string;
+  revision: number;
+  reason?: string;
+}
+
 // ---- Tool output types ----
 
 export interface NodeWithContext {
@@ -101,6 +413,11 @@ export interface NodeWithContext {
   summary: string;
   why: string | null;
   file_refs: string[] | null;
+  tags: string[];
+  attributes: Attributes;
+  last_verified_at: string | null;
+  verified_by: string | null;
+  stale?: Staleness;
   children: Array<{
     id: string;
     name: string;
@@ -121,14 +438,75 @@ export interface NodeWithContext {
   }>;
   parent: { id: string; name: string } | null;
   similarity?: number;
+  keyword_score?: number;
+  // Set when a token budget emptied the matching list
+  children_count?: number;
+  edge_count?: number;
+  incoming_edge_count?: number;
+}
+
+/** One hop of an expansion path; "parent" steps go from a concept to its parent. */
+export interface ExpansionStep {
+  from: string;
+  relation: RelationType | "parent";
+  to: string;
+}
+
+export interface ExpandedMatch extends NodeWithContext {
+  expansion: {
+    score: number;
+    hops: number;
+    seed: string; // the direct match the path starts from
+    path: ExpansionStep[];
+  };
 }
 
 export interface UnderstandOutput {
   matches: NodeWithContext[];
+  /** Concepts reached from the matches by following edges, best score first. */
+  expanded?: ExpandedMatch[];
+  budget?: BudgetReport;
 }
 
 export interface GetConceptInput {
   id: string;
+  max_tokens?: number;
+}
+
+/** Attached when a response was compacted to fit a max_tokens budget. */
+export interface BudgetReport {
+  max_tokens: number;
+  estimated_tokens: number;
+  elided: string[]; // what was removed or shortened, in the order applied
+  hint: string; // how to get the elided detail
+}
+
+/** Reported whenever a lookup followed an alias instead of a current ID. */
+export interface ResolvedAlias {
+  alias: string;
+  id: string;
+}
+
+export interface GetConceptOutput extends NodeWithContext {
+  aliases: string[];
+  resolved_alias?: ResolvedAlias;
+  budget?: BudgetReport;
+}
+
+export interface ConceptRevision {
+  revision: number;
+  name: string;
+  kind: NodeKind;
+  summary: string;
+  why: string | null;
+  file_refs: string[] | null;
+  recorded_at: string;
+}
+
+export interface ConceptHistoryOutput {
+  id: string;
+  current: Omit<ConceptRevision, "recorded_at"> & { updated_at: string };
+  revisions: ConceptRevision[];
 }
 
 export interface ListRootsOutput {
@@ -137,8 +515,14 @@ export interface ListRootsOutput {
     name: string;
     kind: NodeKind;
     summary: string;
+    tags: string[];
     children: string[];
+    children_count?: number; // set when a token budget emptied children
+    stale?: Staleness;
   }>;
+  /** Number of active concepts (roots or not) that need re-checking. */
+  stale_concepts?: number;
+  budget?: BudgetReport;
 }
 
 // ---- DB row types (raw from SQLite) ----
@@ -156,6 +540,8 @@ export interface NodeRow {
   updated_at: string;
   removed_at: string | null;
   removed_reason: string | null;
+  last_verified_at: string | null;
+  verified_by: string | null;
   embedding: Buffer | ArrayBuffer | null;
   merge_group: string | null;
   needs_merge: number; // SQLite stores boolean as 0/1
@@ -163,6 +549,18 @@ export interface NodeRow {
   merge_timestamp: string | null;
 }
 
+export interface NodeRevisionRow {
+  id: number;
+  node_id: string;
+  revision: number;
+  name: string;
+  kind: string;
+  summary: string;
+  why: string | null;
+  file_refs: string | null; // JSON string
+  recorded_at: string;
+}
+
 export interface EdgeRow {
   id: number;
   from_id: string;
@@ -170,12 +568,42 @@ export interface EdgeRow {
   relation: string;
   description: string | null;
   created_at: string;
+  removed_at: string | null;
   merge_group: string | null;
   needs_merge: number; // SQLite stores boolean as 0/1
   source_branch: string | null;
   merge_timestamp: string | null;
 }
 
+export interface PendingEdgeRow {
+  id: number;
+  from_id: string;
+  to_id: string; // a concept that did not exist when the edge was requested
+  relation: string;
+  description: string | null;
+  created_at: string;
+}
+
+export interface FileRefRow {
+  node_id: string;
+  position: number; // index in the concept's file_refs list
+  ref: string; // the reference as written
+  path: string; // normalized, without line range or symbol
+  start_line: number | null;
+  end_line: number | null;
+  symbol: string | null;
+}
+
+export interface ListPendingEdgesOutput {
+  pending_edges: Array<{
+    from: string;
+    to: string;
+    relation: string;
+    description: string | null;
+    created_at: string;
+  }>;
+}
+
 // ---- Merge types ----
 
 export interface ConflictVersion {
@@ -218,4 +646,6 @@ export interface MergeResult {
   edgeConflicts: number;
   removedClean: number;
   mergeGroups: string[];
+  /** Custom kinds or relations in use that neither recorded vocabulary declares, so they went unchecked. */
+  warnings: string[];
 }
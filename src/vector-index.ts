@@ -0,0 +1,367 @@
+import type { KnowledgeDB } from "./db.js";
+
+export interface VectorIndexOptions {
+  /**
+   * Pre-select candidates by SimHash signature and rerank only those exactly.
+   * Faster on large graphs at the cost of occasionally missing a true top-K match.
+   */
+  approximate?: boolean;
+  /** Candidates kept per requested result in approximate mode (default: 20). */
+  candidatesPerResult?: number;
+}
+
+export interface VectorMatch {
+  id: string;
+  similarity: number;
+}
+
+/** Random hyperplanes per signature, packed into 32-bit words. */
+const SIGNATURE_BITS = 128;
+const SIGNATURE_WORDS = SIGNATURE_BITS / 32;
+const MIN_APPROXIMATE_CANDIDATES = 256;
+/** Fixed seed so signatures are stable across restarts. */
+const HYPERPLANE_SEED = 0x6d656761;
+
+/**
+ * In-memory cosine similarity index over active node embeddings.
+ *
+ * Rows live in one contiguous Float32Array, normalized on insert so scoring is
+ * a plain dot product. Writes made through the same KnowledgeDB mark rows dirty
+ * and are applied lazily on the next search; commits from other processes are
+ * detected through PRAGMA data_version and trigger a full reload.
+ *
+ * Only vectors with the query's dimension are indexed. Queries come from the
+ * active provider, so vectors left behind by another model are skipped.
+ */
+export class VectorIndex {
+  private dim = 0;
+  /** Dimension of the last query, i.e. of the active provider (0 until the first search). */
+  private queryDim = 0;
+  private ids: string[] = [];
+  private rowById = new Map<string, number>();
+  private vectors = new Float32Array(0);
+  private signatures = new Uint32Array(0);
+  private hyperplanes: Float32Array | null = null;
+  private loaded = false;
+  private dataVersion = -1;
+  private dirty = new Set<string>();
+  private readonly unsubscribe: () => void;
+
+  constructor(
+    private readonly db: KnowledgeDB,
+    private readonly options: VectorIndexOptions = {}
+  ) {
+    this.unsubscribe = db.onNodesChanged((ids) => {
+      for (const id of ids) this.dirty.add(id);
+    });
+  }
+
+  /** Number of indexed vectors (syncs with the database first). */
+  get size(): number {
+    this.sync();
+    return this.ids.length;
+  }
+
+  /** Stop listening for database writes. */
+  close(): void {
+    this.unsubscribe();
+  }
+
+  /**
+   * Top-K most similar active nodes, best first.
+   */
+  search(query: Buffer, k: number, options: { approximate?: boolean } = {}): VectorMatch[] {
+    const queryDim = query.byteLength / Float32Array.BYTES_PER_ELEMENT;
+    if (queryDim !== this.queryDim) {
+      this.queryDim = queryDim;
+      this.loaded = false;
+    }
+    this.sync();
+    const count = this.ids.length;
+    if (count === 0 || k <= 0) return [];
+
+    const q = this.normalizedQuery(query);
+    const approximate = options.approximate ?? this.options.approximate ?? false;
+    const candidateCount = Math.max(
+      k * (this.options.candidatesPerResult ?? 20),
+      MIN_APPROXIMATE_CANDIDATES
+    );
+
+    const rows =
+      approximate && candidateCount < count ? this.nearestBySignature(q, candidateCount) : null;
+    const top = new TopK(Math.min(k, count));
+    const { vectors, dim } = this;
+    for (let n = 0; n < (rows ? rows.length : count); n++) {
+      const row = rows ? rows[n] : n;
+      const offset = row * dim;
+      let sum = 0;
+      for (let i = 0; i < dim; i++) sum += q[i] * vectors[offset + i];
+      top.offer(sum, row);
+    }
+
+    return top.sorted().map(({ score, row }) => ({ id: this.ids[row], similarity: score }));
+  }
+
+  // ---- Synchronisation ----
+
+  private sync(): void {
+    const version = this.db.getDataVersion();
+    if (!this.loaded || version !== this.dataVersion) {
+      // Another process committed; we cannot tell which rows changed.
+      this.dirty.clear();
+      this.rebuild();
+      this.dataVersion = version;
+      this.loaded = true;
+      return;
+    }
+    if (this.dirty.size === 0) return;
+
+    const changed = [...this.dirty];
+    this.dirty.clear();
+    const rows = new Map(this.db.getActiveEmbeddings(changed).map((r) => [r.id, r.embedding]));
+    for (const id of changed) {
+      const embedding = rows.get(id);
+      if (embedding) {
+        this.upsert(id, embedding);
+      } else {
+        this.remove(id);
+      }
+    }
+  }
+
+  private rebuild(): void {
+    const rows = this.db.getActiveEmbeddings();
+    const dim =
+      this.queryDim ||
+      (rows.length > 0 ? rows[0].embedding.byteLength / Float32Array.BYTES_PER_ELEMENT : this.dim);
+    if (dim !== this.dim) {
+      // Hyperplanes are dimension-specific; regenerate on the next approximate search
+      this.hyperplanes = null;
+      this.dim = dim;
+    }
+    this.ids = [];
+    this.rowById.clear();
+    this.vectors = new Float32Array(rows.length * this.dim);
+    this.signatures = new Uint32Array(this.hyperplanes ? rows.length * SIGNATURE_WORDS : 0);
+    for (const { id, embedding } of rows) {
+      this.upsert(id, embedding);
+    }
+  }
+
+  private upsert(id: string, embedding: Buffer): void {
+    const values = new Float32Array(
+      embedding.buffer,
+      embedding.byteOffset,
+      embedding.byteLength / Float32Array.BYTES_PER_ELEMENT
+    );
+    if (this.dim === 0) {
+      this.dim = values.length;
+      this.vectors = new Float32Array(this.dim * 16);
+    }
+    if (values.length !== this.dim) {
+      // Rows from a different embedding model cannot be compared; leave them out.
+      this.remove(id);
+      return;
+    }
+
+    let row = this.rowById.get(id);
+    if (row === undefined) {
+      row = this.ids.length;
+      this.ensureCapacity(row + 1);
+      this.ids.push(id);
+      this.rowById.set(id, row);
+    }
+
+    let norm = 0;
+    for (let i = 0; i < values.length; i++) norm += values[i] * values[i];
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    const offset = row * this.dim;
+    for (let i = 0; i < values.length; i++) {
+      this.vectors[offset + i] = values[i] * scale;
+    }
+    if (this.hyperplanes) {
+      this.writeSignature(row);
+    }
+  }
+
+  /** Swap-remove: the last row moves into the freed slot. */
+  private remove(id: string): void {
+    const row = this.rowById.get(id);
+    if (row === undefined) return;
+    const last = this.ids.length - 1;
+    if (row !== last) {
+      this.vectors.copyWithin(row * this.dim, last * this.dim, (last + 1) * this.dim);
+      if (this.hyperplanes) {
+        this.signatures.copyWithin(
+          row * SIGNATURE_WORDS,
+          last * SIGNATURE_WORDS,
+          (last + 1) * SIGNATURE_WORDS
+        );
+      }
+      const movedId = this.ids[last];
+      this.ids[row] = movedId;
+      this.rowById.set(movedId, row);
+    }
+    this.ids.pop();
+    this.rowById.delete(id);
+  }
+
+  private ensureCapacity(rows: number): void {
+    if (rows * this.dim <= this.vectors.length) return;
+    const capacity = Math.max(rows, Math.ceil((this.vectors.length / Math.max(this.dim, 1)) * 2));
+    const vectors = new Float32Array(capacity * this.dim);
+    vectors.set(this.vectors.subarray(0, this.ids.length * this.dim));
+    this.vectors = vectors;
+    if (this.hyperplanes) {
+      const signatures = new Uint32Array(capacity * SIGNATURE_WORDS);
+      signatures.set(this.signatures.subarray(0, this.ids.length * SIGNATURE_WORDS));
+      this.signatures = signatures;
+    }
+  }
+
+  // ---- Scoring ----
+
+  private normalizedQuery(query: Buffer): Float32Array {
+    const values = new Float32Array(
+      query.buffer,
+      query.byteOffset,
+      query.byteLength / Float32Array.BYTES_PER_ELEMENT
+    );
+    if (values.length !== this.dim) {
+      throw new Error(`Embedding dimension mismatch: ${values.length} vs ${this.dim}`);
+    }
+    let norm = 0;
+    for (let i = 0; i < values.length; i++) norm += values[i] * values[i];
+    const scale = norm > 0 ? 1 / Math.sqrt(norm) : 0;
+    return values.map((v) => v * scale);
+  }
+
+  // ---- Approximate prefilter (SimHash) ----
+
+  private nearestBySignature(q: Float32Array, limit: number): Int32Array {
+    this.ensureSignatures();
+    const signature = this.signatureOf(q, 0);
+    const { signatures } = this;
+    // Fewest differing bits first; score is negated so TopK keeps the smallest distances
+    const top = new TopK(limit);
+    for (let row = 0; row < this.ids.length; row++) {
+      let distance = 0;
+      for (let w = 0; w < SIGNATURE_WORDS; w++) {
+        distance += popcount(signatures[row * SIGNATURE_WORDS + w] ^ signature[w]);
+      }
+      top.offer(-distance, row);
+    }
+    return top.rowsUnordered();
+  }
+
+  private ensureSignatures(): void {
+    if (this.hyperplanes) return;
+    const random = mulberry32(HYPERPLANE_SEED);
+    this.hyperplanes = new Float32Array(SIGNATURE_BITS * this.dim);
+    for (let i = 0; i < this.hyperplanes.length; i++) {
+      // Sum of uniforms: a cheap, roughly Gaussian direction component
+      this.hyperplanes[i] = random() + random() + random() - 1.5;
+    }
+    this.signatures = new Uint32Array(
+      (this.vectors.length / Math.max(this.dim, 1)) * SIGNATURE_WORDS
+    );
+    for (let row = 0; row < this.ids.length; row++) {
+      this.writeSignature(row);
+    }
+  }
+
+  private writeSignature(row: number): void {
+    this.signatures.set(this.signatureOf(this.vectors, row * this.dim), row * SIGNATURE_WORDS);
+  }
+
+  private signatureOf(source: Float32Array, offset: number): Uint32Array {
+    const words = new Uint32Array(SIGNATURE_WORDS);
+    const planes = this.hyperplanes!;
+    for (let bit = 0; bit < SIGNATURE_BITS; bit++) {
+      const plane = bit * this.dim;
+      let side = 0;
+      for (let i = 0; i < this.dim; i++) side += source[offset + i] * planes[plane + i];
+      if (side >= 0) words[bit >> 5] |= 1 << (bit & 31);
+    }
+    return words;
+  }
+}
+
+/**
+ * Fixed-size min-heap keeping the K highest scores seen so far.
+ */
+class TopK {
+  private scores: Float64Array;
+  private rows: Int32Array;
+  private length = 0;
+
+  constructor(private readonly capacity: number) {
+    this.scores = new Float64Array(capacity);
+    this.rows = new Int32Array(capacity);
+  }
+
+  offer(score: number, row: number): void {
+    if (this.capacity === 0) return;
+    if (this.length < this.capacity) {
+      let i = this.length++;
+      while (i > 0) {
+        const parent = (i - 1) >> 1;
+        if (this.scores[parent] <= score) break;
+        this.scores[i] = this.scores[parent];
+        this.rows[i] = this.rows[parent];
+        i = parent;
+      }
+      this.scores[i] = score;
+      this.rows[i] = row;
+      return;
+    }
+    if (score <= this.scores[0]) return;
+
+    // Replace the current minimum and sift down
+    let i = 0;
+    for (;;) {
+      const left = 2 * i + 1;
+      if (left >= this.length) break;
+      const right = left + 1;
+      const child =
+        right < this.length && this.scores[right] < this.scores[left] ? right : left;
+      if (this.scores[child] >= score) break;
+      this.scores[i] = this.scores[child];
+      this.rows[i] = this.rows[child];
+      i = child;
+    }
+    this.scores[i] = score;
+    this.rows[i] = row;
+  }
+
+  /** Rows currently held, in heap order. */
+  rowsUnordered(): Int32Array {
+    return this.rows.subarray(0, this.length);
+  }
+
+  /** Entries ordered best first. */
+  sorted(): Array<{ score: number; row: number }> {
+    const entries: Array<{ score: number; row: number }> = [];
+    for (let i = 0; i < this.length; i++) {
+      entries.push({ score: this.scores[i], row: this.rows[i] });
+    }
+    return entries.sort((a, b) => b.score - a.score || a.row - b.row);
+  }
+}
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,183 @@
+import type { KnowledgeDB } from "./db.js";
+import type { ConfigFile } from "./config.js";
+import {
+  BUILTIN_NODE_KINDS,
+  BUILTIN_RELATION_TYPES,
+  type BuiltinNodeKind,
+  type BuiltinRelationType,
+} from "./types.js";
+
+export interface VocabularyEntry {
+  name: string;
+  description: string;
+  builtin: boolean;
+}
+
+export interface KindEntry extends VocabularyEntry {
+  color: string;
+}
+
+/** The kinds and relations a project may use: built-ins first, then custom entries. */
+export interface Vocabulary {
+  kinds: KindEntry[];
+  relations: VocabularyEntry[];
+}
+
+const META_VOCABULARY = "vocabulary";
+
+const BUILTIN_KIND_INFO: Record<BuiltinNodeKind, { description: string; color: string }> = {
+  feature: { description: "User-facing capability", color: "#3b82f6" },
+  module: { description: "Code area with a clear boundary", color: "#22c55e" },
+  pattern: { description: "Recurring approach used across the codebase", color: "#a855f7" },
+  config: { description: "Settings, flags, or environment that change behavior", color: "#f59e0b" },
+  decision: { description: "Design choice and its rationale", color: "#ef4444" },
+  component: { description: "Concrete building block inside a module", color: "#14b8a6" },
+};
+
+const BUILTIN_RELATION_INFO: Record<BuiltinRelationType, string> = {
+  depends_on: "A requires B to function",
+  implements: "A is the concrete implementation of B",
+  calls: "A invokes B at runtime",
+  connects_to: "A and B interact or share data",
+  configured_by: "A's behavior is controlled by B",
+};
+
+/** Colors handed out to custom kinds that don't declare one, in declaration order. */
+const CUSTOM_KIND_PALETTE = [
+  "#0ea5e9",
+  "#ec4899",
+  "#84cc16",
+  "#f97316",
+  "#6366f1",
+  "#eab308",
+  "#06b6d4",
+  "#d946ef",
+];
+
+/**
+ * Combine the built-in vocabulary with the custom kinds and relations from a
+ * project config. Custom entries may not redefine a built-in name.
+ */
+export function buildVocabulary(config: Pick<ConfigFile, "kinds" | "relations"> = {}): Vocabulary {
+  const kinds: KindEntry[] = BUILTIN_NODE_KINDS.map((name) => ({
+    name,
+    builtin: true,
+    ...BUILTIN_KIND_INFO[name],
+  }));
+  const relations: VocabularyEntry[] = BUILTIN_RELATION_TYPES.map((name) => ({
+    name,
+    description: BUILTIN_RELATION_INFO[name],
+    builtin: true,
+  }));
+
+  let paletteIdx = 0;
+  for (const [name, entry] of Object.entries(config.kinds ?? {})) {
+    if ((BUILTIN_NODE_KINDS as readonly string[]).includes(name)) {
+      throw new Error(`Custom kind "${name}" conflicts with a built-in kind.`);
+    }
+    const color = entry.color ?? CUSTOM_KIND_PALETTE[paletteIdx++ % CUSTOM_KIND_PALETTE.length];
+    kinds.push({ name, description: entry.description, color, builtin: false });
+  }
+  for (const [name, entry] of Object.entries(config.relations ?? {})) {
+    if ((BUILTIN_RELATION_TYPES as readonly string[]).includes(name)) {
+      throw new Error(`Custom relation "${name}" conflicts with a built-in relation.`);
+    }
+    relations.push({ name, description: entry.description, builtin: false });
+  }
+
+  return { kinds, relations };
+}
+
+export function kindNames(vocabulary: Vocabulary): [string, ...string[]] {
+  return vocabulary.kinds.map((k) => k.name) as [string, ...string[]];
+}
+
+export function relationNames(vocabulary: Vocabulary): [string, ...string[]] {
+  return vocabulary.relations.map((r) => r.name) as [string, ...string[]];
+}
+
+/** One-line summary of the kinds for tool descriptions, e.g. "feature, module, service (A deployable service)". */
+export function describeKinds(vocabulary: Vocabulary): string {
+  return vocabulary.kinds
+    .map((k) => (k.builtin ? k.name : `${k.name} (${k.description})`))
+    .join(", ");
+}
+
+/** One-line summary of the relations with their meanings, for tool descriptions. */
+export function describeRelations(vocabulary: Vocabulary): string {
+  return vocabulary.relations.map((r) => `${r.name} (${r.description})`).join(", ");
+}
+
+// ---- Persistence ----
+
+/** Custom entries only, name → description, as recorded in a database. */
+export interface CustomVocabulary {
+  kinds: Record<string, string>;
+  relations: Record<string, string>;
+}
+
+export function customVocabulary(vocabulary: Vocabulary): CustomVocabulary {
+  const custom = (entries: VocabularyEntry[]) =>
+    Object.fromEntries(entries.filter((e) => !e.builtin).map((e) => [e.name, e.description]));
+  return { kinds: custom(vocabulary.kinds), relations: custom(vocabulary.relations) };
+}
+
+/**
+ * Remember the custom vocabulary in the database, so a merge can tell whether
+ * two knowledge.db files were written with compatible configs.
+ */
+export function recordVocabulary(db: KnowledgeDB, custom: CustomVocabulary): void {
+  if (Object.keys(custom.kinds).length === 0 && Object.keys(custom.relations).length === 0) {
+    db.deleteMeta(META_VOCABULARY);
+    return;
+  }
+  db.setMeta(META_VOCABULARY, JSON.stringify(custom));
+}
+
+export function getRecordedVocabulary(db: KnowledgeDB): CustomVocabulary {
+  const raw = db.getMeta(META_VOCABULARY);
+  if (!raw) return { kinds: {}, relations: {} };
+  const parsed = JSON.parse(raw) as Partial<CustomVocabulary>;
+  return { kinds: parsed.kinds ?? {}, relations: parsed.relations ?? {} };
+}
+
+/**
+ * Names that both vocabularies declare with different meanings.
+ * Entries declared on only one side are compatible — the merged graph gets the union.
+ */
+export function vocabularyConflicts(left: CustomVocabulary, right: CustomVocabulary): string[] {
+  const conflicts: string[] = [];
+  for (const section of ["kinds", "relations"] as const) {
+    const label = section === "kinds" ? "kind" : "relation";
+    for (const [name, description] of Object.entries(left[section])) {
+      const other = right[section][name];
+      if (other !== undefined && other !== description) {
+        conflicts.push(`${label} "${name}": "${description}" vs "${other}"`);
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Custom kinds and relations a database uses that `declared` does not list,
+ * as labels like `kind "service"`. Built-in names are always declared.
+ */
+export function undeclaredVocabulary(db: KnowledgeDB, declared: CustomVocabulary): string[] {
+  const used = db.getUsedVocabulary();
+  return [
+    ...used.kinds
+      .filter((k) => !(BUILTIN_NODE_KINDS as readonly string[]).includes(k) && !(k in declared.kinds))
+      .map((k) => `kind "${k}"`),
+    ...used.relations
+      .filter((r) => !(BUILTIN_RELATION_TYPES as readonly string[]).includes(r) && !(r in declared.relations))
+      .map((r) => `relation "${r}"`),
+  ];
+}
+
+export function unionVocabulary(left: CustomVocabulary, right: CustomVocabulary): CustomVocabulary {
+  return {
+    kinds: { ...left.kinds, ...right.kinds },
+    relations: { ...left.relations, ...right.relations },
+  };
+}
@@ -4,10 +4,18 @@ import path from "path";
 import { fileURLToPath } from "url";
 import pc from "picocolors";
 import { KnowledgeDB } from "./db.js";
-import { buildNodeWithContext, understand } from "./tools.js";
+import { buildNodeWithContext, findPath, getConceptHistory, getSubgraph, resolveConceptId, understand } from "./tools.js";
 import { errorBold, askPort } from "./cli-utils.js";
 import { initializeEmbeddings } from "./embeddings.js";
-import type { NodeRow } from "./types.js";
+import { recordEmbeddingMeta } from "./embedding-meta.js";
+import { VectorIndex } from "./vector-index.js";
+import { loadConfig, type Settings } from "./config.js";
+import { buildVocabulary, type Vocabulary } from "./vocabulary.js";
+import { DEFAULT_MAX_PATHS, DEFAULT_PATH_DEPTH, DEFAULT_SUBGRAPH_DEPTH, DEFAULT_SUBGRAPH_NODES } from "./graph.js";
+import type { NodeRow, SearchMode, SubgraphDirection } from "./types.js";
+
+const SEARCH_MODES = new Set<string>(["semantic", "keyword", "hybrid"]);
+const SUBGRAPH_DIRECTIONS = new Set<string>(["in", "out", "both"]);
 
 const VERSION = JSON.parse(
   fs.readFileSync(
@@ -106,10 +114,17 @@ function listenWithRetry(
   });
 }
 
-export async function runServe(port: number): Promise<void> {
-  const dbPath =
-    process.env.MEGAMEMORY_DB_PATH ??
-    path.join(process.cwd(), ".megamemory", "knowledge.db");
+export async function runServe(portFlag?: number): Promise<void> {
+  let settings: Settings;
+  let vocabulary: Vocabulary;
+  try {
+    settings = loadConfig({ overrides: portFlag !== undefined ? { port: portFlag } : {} }).settings;
+    vocabulary = buildVocabulary(settings);
+  } catch (err) {
+    errorBold(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+  const { db_path: dbPath, port } = settings;
 
   if (!fs.existsSync(dbPath)) {
     console.log();
@@ -122,10 +137,12 @@ export async function runServe(port: number): Promise<void> {
   }
 
   const db = new KnowledgeDB(dbPath);
+  const vectorIndex = new VectorIndex(db, { approximate: settings.approximate_search });
   let sseClients: http.ServerResponse[] = [];
   let lastKnownNodeIds = new Set<string>();
   let lastKnownNodeUpdates = new Map<string, string>(); // id → updated_at
   let lastKnownEdgeKeys = new Set<string>(); // "from|to|relation"
+  let lastKnownEdgeDescriptions = new Map<string, string | null>(); // key → description
 
   function buildGraphPayload(): {
     nodes: Array<{
@@ -134,6 +151,7 @@ export async function runServe(port: number): Promise<void> {
       kind: NodeRow["kind"];
       summary: string;
       parent_id: string | null;
+      tags: string[];
       edge_count: number;
     }>;
     edges: Array<{
@@ -143,12 +161,14 @@ export async function runServe(port: number): Promise<void> {
       description: string | null;
     }>;
   } {
+    const tagsByNode = db.getTagsByNode();
     const nodes = db.getAllActiveNodes().map((n) => ({
       id: n.id,
       name: n.name,
       kind: n.kind,
       summary: n.summary,
       parent_id: n.parent_id,
+      tags: tagsByNode.get(n.id) ?? [],
       edge_count: 0,
     }));
 
@@ -171,6 +191,11 @@ export async function runServe(port: number): Promise<void> {
     return { nodes, edges };
   }
 
+  function parseListParam(value: string | null): string[] | undefined {
+    const items = (value ?? "").split(",").map((item) => item.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+  }
+
   function parseBooleanParam(value: string | null): boolean {
     return value === "true" || value === "1";
   }
@@ -198,6 +223,7 @@ export async function runServe(port: number): Promise<void> {
     is_write: boolean;
     is_error: boolean;
     affected_ids: string[];
+    group_id?: string | null;
   };
 
   type TimelineQueryOptions = {
@@ -313,6 +339,7 @@ export async function runServe(port: number): Promise<void> {
           is_write: row.is_write === 1,
           is_error: row.is_error === 1,
           affected_ids: parseAffectedIds(row.affected_ids),
+          group_id: row.group_id,
         }))
       : [];
 
@@ -322,7 +349,7 @@ export async function runServe(port: number): Promise<void> {
     for (const entry of realEntries) {
       if (entry.tool === "create_concept") {
         for (const id of entry.affected_ids) realCreateIds.add(id);
-      } else if (entry.tool === "update_concept") {
+      } else if (entry.tool === "update_concept" || entry.tool === "set_attribute") {
         for (const id of entry.affected_ids) realUpdateIds.add(id);
       } else if (entry.tool === "remove_concept") {
         for (const id of entry.affected_ids) realRemoveIds.add(id);
@@ -389,6 +416,7 @@ export async function runServe(port: number): Promise<void> {
     lastKnownNodeIds = new Set(nodes.map((n) => n.id));
     lastKnownNodeUpdates = new Map(nodes.map((n) => [n.id, n.updated_at]));
     lastKnownEdgeKeys = new Set(edges.map((e) => `${e.from_id}|${e.to_id}|${e.relation}`));
+    lastKnownEdgeDescriptions = new Map(edges.map((e) => [`${e.from_id}|${e.to_id}|${e.relation}`, e.description]));
   }
 
   function broadcast(event: { type: string; data: unknown }): void {
@@ -411,8 +439,10 @@ export async function runServe(port: number): Promise<void> {
       const currentNodeIds = new Set(nodes.map((n) => n.id));
       const currentNodeUpdates = new Map(nodes.map((n) => [n.id, n.updated_at]));
       const currentEdgeKeys = new Set(edges.map((e) => `${e.from_id}|${e.to_id}|${e.relation}`));
+      const currentEdgeDescriptions = new Map(edges.map((e) => [`${e.from_id}|${e.to_id}|${e.relation}`, e.description]));
 
       const nodeById = new Map(nodes.map((n) => [n.id, n]));
+      const tagsByNode = db.getTagsByNode();
       const edgeByKey = new Map(edges.map((e) => [`${e.from_id}|${e.to_id}|${e.relation}`, e]));
 
       const edgeCounts = new Map<string, number>();
@@ -435,6 +465,7 @@ export async function runServe(port: number): Promise<void> {
               kind: node.kind,
               summary: node.summary,
               parent_id: node.parent_id,
+              tags: tagsByNode.get(node.id) ?? [],
               edge_count: edgeCounts.get(node.id) ?? 0,
             },
           });
@@ -454,6 +485,7 @@ export async function runServe(port: number): Promise<void> {
               name: node.name,
               kind: node.kind,
               summary: node.summary,
+              tags: tagsByNode.get(node.id) ?? [],
             },
           });
           hasChanges = true;
@@ -495,9 +527,32 @@ export async function runServe(port: number): Promise<void> {
         }
       }
 
+      // An edited description (update_link) is replayed as remove + add so clients redraw it
+      for (const [key, description] of currentEdgeDescriptions) {
+        if (!lastKnownEdgeKeys.has(key)) continue;
+        if ((lastKnownEdgeDescriptions.get(key) ?? null) === description) continue;
+        const edge = edgeByKey.get(key);
+        if (!edge) continue;
+        broadcast({
+          type: "edge_removed",
+          data: { from: edge.from_id, to: edge.to_id, relation: edge.relation },
+        });
+        broadcast({
+          type: "edge_added",
+          data: {
+            from: edge.from_id,
+            to: edge.to_id,
+            relation: edge.relation,
+            description: edge.description,
+          },
+        });
+        hasChanges = true;
+      }
+
       lastKnownNodeIds = currentNodeIds;
       lastKnownNodeUpdates = currentNodeUpdates;
       lastKnownEdgeKeys = currentEdgeKeys;
+      lastKnownEdgeDescriptions = currentEdgeDescriptions;
 
       if (hasChanges) {
         const stats = db.getStats();
@@ -543,6 +598,11 @@ export async function runServe(port: number): Promise<void> {
     console.log(pc.dim("  Semantic search will retry on demand."));
   }
 
+  const embeddingStatus = recordEmbeddingMeta(db);
+  if (embeddingStatus.mismatch) {
+    console.log(pc.yellow(`  Warning: ${embeddingStatus.mismatch}`));
+  }
+
   const server = http.createServer((req, res) => {
     void (async () => {
     const url = new URL(req.url ?? "/", `http://localhost:${port}`);
@@ -557,63 +617,140 @@ export async function runServe(port: number): Promise<void> {
 
     if (pathname === "/api/graph" && req.method === "GET") {
       const { nodes, edges } = buildGraphPayload();
-      json(res, { nodes, edges });
+      const root = (url.searchParams.get("root") ?? "").trim();
+      if (!root) {
+        json(res, { nodes, edges });
+        return;
+      }
+
+      // Focused view: the same payload, cut down to get_subgraph's neighbourhood
+      const direction = url.searchParams.get("direction") ?? "both";
+      if (!SUBGRAPH_DIRECTIONS.has(direction)) {
+        json(res, { error: `Invalid direction "${direction}". Use in, out, or both.` }, 400);
+        return;
+      }
+      let subgraph: ReturnType<typeof getSubgraph>;
+      try {
+        subgraph = getSubgraph(db, {
+          root,
+          depth: clampInt(url.searchParams.get("depth"), DEFAULT_SUBGRAPH_DEPTH, 1, 5),
+          direction: direction as SubgraphDirection,
+          relations: parseListParam(url.searchParams.get("relations")),
+          max_nodes: clampInt(url.searchParams.get("max_nodes"), DEFAULT_SUBGRAPH_NODES, 1, 1000),
+        });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        json(res, { error: message }, message.endsWith("not found.") ? 404 : 409);
+        return;
+      }
+      const ids = new Set(subgraph.nodes.map((n) => n.id));
+      const edgeKeys = new Set(subgraph.edges.map((e) => `${e.from}|${e.to}|${e.relation}`));
+      json(res, {
+        nodes: nodes.filter((n) => ids.has(n.id)),
+        edges: edges.filter((e) => edgeKeys.has(`${e.from}|${e.to}|${e.relation}`)),
+        focus: { root: subgraph.root, truncated: subgraph.truncated, message: subgraph.message },
+      });
       return;
     }
 
     if (pathname === "/api/search" && req.method === "GET") {
       const query = (url.searchParams.get("q") ?? "").trim();
-      const rawTopK = Number.parseInt(url.searchParams.get("top_k") ?? "10", 10);
-      const topK = Number.isFinite(rawTopK) ? Math.min(50, Math.max(1, rawTopK)) : 10;
+      const rawTopK = Number.parseInt(url.searchParams.get("top_k") ?? "", 10);
+      const topK = Number.isFinite(rawTopK) ? Math.min(50, Math.max(1, rawTopK)) : settings.top_k;
+      const rawMode = url.searchParams.get("mode") ?? "hybrid";
+      if (!SEARCH_MODES.has(rawMode)) {
+        json(res, { error: `Invalid mode "${rawMode}". Use semantic, keyword, or hybrid.` }, 400);
+        return;
+      }
+      let mode = rawMode as SearchMode;
 
       if (query.length === 0) {
-        json(res, { matches: [] });
+        json(res, { matches: [], mode });
         return;
       }
 
-      if (!embeddingsReady) {
+      let fallbackReason: string | undefined;
+      if (mode !== "keyword" && !embeddingsReady) {
         try {
           await initializeEmbeddings();
           embeddingsReady = true;
           embeddingInitError = null;
         } catch (err) {
           embeddingInitError = err instanceof Error ? err.message : String(err);
-          json(
-            res,
-            {
-              error: "Semantic search is temporarily unavailable",
-              detail: embeddingInitError,
-            },
-            503,
-          );
-          return;
+          if (mode === "semantic") {
+            json(
+              res,
+              {
+                error: "Semantic search is temporarily unavailable",
+                detail: embeddingInitError,
+              },
+              503,
+            );
+            return;
+          }
+          // Hybrid degrades to keyword-only ranking while the model is unavailable
+          mode = "keyword";
+          fallbackReason = embeddingInitError;
         }
       }
 
-      const results = await understand(db, { query, top_k: topK });
-      json(res, results);
+      const results = await understand(db, { query, top_k: topK, mode }, { vectorIndex });
+      json(res, { ...results, mode, ...(fallbackReason ? { fallback_reason: fallbackReason } : {}) });
       return;
     }
 
     if (pathname.startsWith("/api/node/") && req.method === "GET") {
       const id = decodeURIComponent(pathname.slice("/api/node/".length));
-      const node = db.getNode(id);
+      let resolved: ReturnType<typeof resolveConceptId>;
+      try {
+        resolved = resolveConceptId(db, id);
+      } catch (err) {
+        json(res, { error: err instanceof Error ? err.message : String(err) }, 409);
+        return;
+      }
+      const node = db.getNode(resolved.id);
       if (!node) {
         json(res, { error: `Concept "${id}" not found` }, 404);
         return;
       }
       const ctx = buildNodeWithContext(db, node);
-      // Add timestamps
+      // Add timestamps and revision history
       const result = {
         ...ctx,
         created_at: node.created_at,
         updated_at: node.updated_at,
         created_by_task: node.created_by_task,
+        history: getConceptHistory(db, { id: node.id }).revisions,
+        aliases: db.getAliasesForNode(node.id).map((a) => a.alias),
+        ...(resolved.resolved_alias ? { resolved_alias: resolved.resolved_alias } : {}),
       };
       json(res, result);
       return;
     }
 
+    if (pathname === "/api/path" && req.method === "GET") {
+      const from = (url.searchParams.get("from") ?? "").trim();
+      const to = (url.searchParams.get("to") ?? "").trim();
+      if (!from || !to) {
+        json(res, { error: "Both from and to are required" }, 400);
+        return;
+      }
+      try {
+        json(res, findPath(db, {
+          from,
+          to,
+          relations: parseListParam(url.searchParams.get("relations")),
+          include_hierarchy: parseBooleanParam(url.searchParams.get("hierarchy")),
+          max_depth: clampInt(url.searchParams.get("max_depth"), DEFAULT_PATH_DEPTH, 1, 10),
+          max_paths: clampInt(url.searchParams.get("max_paths"), DEFAULT_MAX_PATHS, 1, 20),
+        }));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        json(res, { error: message }, message.endsWith("not found.") ? 404 : 409);
+      }
+      return;
+    }
+
     if (pathname === "/api/stats" && req.method === "GET") {
       const stats = db.getStats();
       const kinds = db.getKindsBreakdown();
@@ -621,6 +758,11 @@ export async function runServe(port: number): Promise<void> {
       return;
     }
 
+    if (pathname === "/api/vocabulary" && req.method === "GET") {
+      json(res, vocabulary);
+      return;
+    }
+
     if (pathname === "/api/events" && req.method === "GET") {
       res.writeHead(200, {
         "Content-Type": "text/event-stream",
@@ -706,12 +848,15 @@ export async function runServe(port: number): Promise<void> {
         return;
       }
 
+      // Tags are not versioned; historical nodes show their current tags
+      const tagsByNode = db.getTagsByNode();
       const nodes = db.getNodesAtTime(t).map((n) => ({
         id: n.id,
         name: n.name,
         kind: n.kind,
         summary: n.summary,
         parent_id: n.parent_id,
+        tags: tagsByNode.get(n.id) ?? [],
         edge_count: 0,
       }));
 
@@ -744,7 +889,7 @@ export async function runServe(port: number): Promise<void> {
   });
 
   initializeSseSnapshot();
-  const pollInterval = setInterval(detectChanges, 1500);
+  const pollInterval = setInterval(detectChanges, settings.sse_poll_interval_ms);
   const heartbeatInterval = setInterval(() => {
     sseClients = sseClients.filter((client) => {
       try {